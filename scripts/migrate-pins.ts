@@ -0,0 +1,66 @@
+/**
+ * PIN Migration - Move plaintext PINs off older profile documents
+ *
+ * Run once with: npm run migrate-pins
+ *
+ * Profile docs are writable from the browser, so /api/verify-pin never trusts a
+ * `pin` field on them. This hashes each guardian's legacy PIN into
+ * households/{id}/pinSecrets (unless a secret is already there) and strips the
+ * plaintext field from every profile. Review the output - a PIN written by
+ * someone other than a parent would be migrated too.
+ *
+ * Needs FIREBASE_SERVICE_ACCOUNT (or application default credentials) and
+ * PUBLIC_FIREBASE_PROJECT_ID in .env
+ */
+
+import { initializeApp, cert, applicationDefault } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+// Load environment variables (for Node.js)
+import { config } from 'dotenv';
+config();
+
+import { createPinSecret } from '../src/lib/server/pin';
+import { isGuardianRole } from '../src/lib/permissions';
+
+const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+initializeApp({
+  credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+  projectId: process.env.PUBLIC_FIREBASE_PROJECT_ID,
+});
+const db = getFirestore();
+
+async function migratePins() {
+  let migrated = 0;
+  let cleared = 0;
+
+  const households = await db.collection('households').get();
+  for (const household of households.docs) {
+    const profiles = await household.ref.collection('profiles').get();
+    for (const profile of profiles.docs) {
+      const { pin, role, displayName } = profile.data();
+      if (pin === undefined) continue;
+
+      const secretRef = household.ref.collection('pinSecrets').doc(profile.id);
+      await db.runTransaction(async (tx) => {
+        const secret = await tx.get(secretRef);
+        if (isGuardianRole(role) && typeof pin === 'string' && !secret.exists) {
+          tx.set(secretRef, createPinSecret(pin));
+          console.log(`  🔑 ${household.id}: hashed the PIN for ${displayName} (${role})`);
+          migrated++;
+        } else {
+          console.log(`  🧹 ${household.id}: dropped the plaintext PIN on ${displayName} (${role})`);
+        }
+        tx.update(profile.ref, { pin: FieldValue.delete() });
+      });
+      cleared++;
+    }
+  }
+
+  console.log(`\n✅ Migrated ${migrated} PINs, cleared ${cleared} profiles`);
+}
+
+migratePins().catch((error) => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
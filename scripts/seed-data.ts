@@ -7,6 +7,8 @@
  * 1. Create a Firebase project at https://console.firebase.google.com
  * 2. Enable Firestore Database
  * 3. Create a .env file with your Firebase config (see .env.example)
+ * 4. Sign up once in the app, then set SEED_OWNER_UID to your Firebase Auth uid
+ *    so the seeded household belongs to your parent account
  */
 
 import { initializeApp } from 'firebase/app';
@@ -16,6 +18,8 @@ import { getFirestore, collection, doc, setDoc, writeBatch } from 'firebase/fire
 import { config } from 'dotenv';
 config();
 
+import { createPinSecret } from '../src/lib/server/pin';
+
 // Firebase configuration
 const firebaseConfig = {
   apiKey: process.env.PUBLIC_FIREBASE_API_KEY || 'demo-api-key',
@@ -35,6 +39,22 @@ if (firebaseConfig.projectId === 'demo-project') {
 const app = initializeApp(firebaseConfig);
 const db = getFirestore(app);
 
+// Household that owns all seeded data
+const householdId = process.env.SEED_HOUSEHOLD_ID || 'household-demo';
+const ownerUid = process.env.SEED_OWNER_UID || 'demo-owner';
+
+if (!process.env.SEED_OWNER_UID) {
+  console.log('⚠️  Warning: SEED_OWNER_UID not set. No parent account will be able to sign in to the seeded household.\n');
+}
+
+const household = {
+  id: householdId,
+  name: 'Demo Family',
+  ownerUid,
+  memberUids: [ownerUid],
+  createdAt: new Date().toISOString(),
+};
+
 // Profile data
 const profiles = [
   {
@@ -42,7 +62,6 @@ const profiles = [
     displayName: 'Ryan',
     avatarUrl: '',
     role: 'admin' as const,
-    pin: '1234', // Simple PIN for demo
     ageLevel: 'adult' as const,
   },
   {
@@ -50,7 +69,6 @@ const profiles = [
     displayName: 'Link',
     avatarUrl: '',
     role: 'child' as const,
-    pin: null,
     ageLevel: 'elementary' as const, // 6-12 years
   },
   {
@@ -58,11 +76,15 @@ const profiles = [
     displayName: 'Fox',
     avatarUrl: '',
     role: 'child' as const,
-    pin: null,
     ageLevel: 'preschool' as const, // 3-5 years
   },
 ];
 
+// Admin PINs - stored hashed, never on the profile itself
+const adminPins: Record<string, string> = {
+  'profile-ryan': '1234', // Simple PIN for demo
+};
+
 // Lane data for Link
 // Using verified working YouTube video IDs
 const lanesForLink = [
@@ -225,24 +247,35 @@ async function seedDatabase() {
   console.log('🌱 Starting database seed...\n');
 
   try {
+    // Seed household
+    console.log('🏠 Creating household...');
+    await setDoc(doc(db, 'households', household.id), household);
+    console.log(`   ✓ Created household: ${household.name} (${household.id})`);
+
     // Seed profiles
-    console.log('👤 Creating profiles...');
+    console.log('\n👤 Creating profiles...');
     for (const profile of profiles) {
-      await setDoc(doc(db, 'profiles', profile.id), profile);
+      await setDoc(doc(db, 'households', householdId, 'profiles', profile.id), profile);
       console.log(`   ✓ Created profile: ${profile.displayName}`);
+
+      const pin = adminPins[profile.id];
+      if (pin) {
+        await setDoc(doc(db, 'households', householdId, 'pinSecrets', profile.id), createPinSecret(pin));
+        console.log(`     └─ Set hashed PIN`);
+      }
     }
 
     // Seed lanes and items for Link
     console.log('\n📚 Creating lanes for Link...');
     for (const lane of lanesForLink) {
       const { items, ...laneData } = lane;
-      await setDoc(doc(db, 'lanes', lane.id), laneData);
+      await setDoc(doc(db, 'households', householdId, 'lanes', lane.id), laneData);
       console.log(`   ✓ Created lane: ${lane.title}`);
 
       // Add items to lane
       const batch = writeBatch(db);
       for (const item of items) {
-        const itemRef = doc(db, 'lanes', lane.id, 'items', item.id);
+        const itemRef = doc(db, 'households', householdId, 'lanes', lane.id, 'items', item.id);
         batch.set(itemRef, item);
       }
       await batch.commit();
@@ -253,13 +286,13 @@ async function seedDatabase() {
     console.log('\n📚 Creating lanes for Fox...');
     for (const lane of lanesForFox) {
       const { items, ...laneData } = lane;
-      await setDoc(doc(db, 'lanes', lane.id), laneData);
+      await setDoc(doc(db, 'households', householdId, 'lanes', lane.id), laneData);
       console.log(`   ✓ Created lane: ${lane.title}`);
 
       // Add items to lane
       const batch = writeBatch(db);
       for (const item of items) {
-        const itemRef = doc(db, 'lanes', lane.id, 'items', item.id);
+        const itemRef = doc(db, 'households', householdId, 'lanes', lane.id, 'items', item.id);
         batch.set(itemRef, item);
       }
       await batch.commit();
@@ -0,0 +1,31 @@
+/**
+ * Avatar - Profile picture with a colored initial fallback
+ * Size and text styling come from the caller via className
+ */
+
+import { getAvatarColor } from '../lib/avatars';
+
+interface AvatarProps {
+  displayName: string;
+  avatarUrl?: string;
+  className?: string;
+}
+
+export default function Avatar({ displayName, avatarUrl, className = 'w-10 h-10 text-lg' }: AvatarProps) {
+  if (avatarUrl) {
+    return (
+      <img
+        src={avatarUrl}
+        alt=""
+        className={`${className} rounded-full object-cover bg-gray-700 flex-shrink-0`}
+      />
+    );
+  }
+
+  return (
+    <div className={`${className} rounded-full bg-gradient-to-br ${getAvatarColor(displayName || '?')}
+                    flex items-center justify-center text-white font-bold flex-shrink-0`}>
+      {displayName.charAt(0).toUpperCase()}
+    </div>
+  );
+}
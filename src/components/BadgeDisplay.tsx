@@ -1,19 +1,27 @@
 /**
- * BadgeDisplay - Shows all earned and available badges
+ * BadgeDisplay - Shows all earned and available badges, and certificates for finished lanes
  */
 
 import { useStore } from '@nanostores/react';
-import { $badgesWithStatus, $totalCompleted } from '../stores/progressStore';
+import type { LaneWithItems } from '../types';
+import { $badgesWithStatus, $totalCompleted, $xpLevel, $completedItemIds } from '../stores/progressStore';
 import { $currentProfile } from '../stores/profileStore';
+import { isLaneComplete } from '../lib/badgeRules';
+import BadgeIcon from './BadgeIcon';
+import CertificateButton from './CertificateButton';
 
 interface BadgeDisplayProps {
+  lanes: LaneWithItems[];
   onClose: () => void;
 }
 
-export default function BadgeDisplay({ onClose }: BadgeDisplayProps) {
+export default function BadgeDisplay({ lanes, onClose }: BadgeDisplayProps) {
   const badgesWithStatus = useStore($badgesWithStatus);
   const totalCompleted = useStore($totalCompleted);
+  const xpLevel = useStore($xpLevel);
   const currentProfile = useStore($currentProfile);
+  const completedItemIds = useStore($completedItemIds);
+  const finishedLanes = lanes.filter(lane => isLaneComplete(lane, completedItemIds));
   
   const earnedCount = badgesWithStatus.filter(b => b.earned).length;
   const totalCount = badgesWithStatus.length;
@@ -53,6 +61,20 @@ export default function BadgeDisplay({ onClose }: BadgeDisplayProps) {
               </p>
             </div>
           </div>
+
+          {/* XP toward the next level */}
+          <div className="mt-4">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-amber-400 font-bold">Level {xpLevel.level}</span>
+              <span className="text-gray-400">{xpLevel.levelXp} / {xpLevel.levelSpan} XP</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-amber-400 to-orange-500 transition-all"
+                style={{ width: `${(xpLevel.levelXp / xpLevel.levelSpan) * 100}%` }}
+              />
+            </div>
+          </div>
         </div>
 
         {/* Badges Grid */}
@@ -68,7 +90,7 @@ export default function BadgeDisplay({ onClose }: BadgeDisplayProps) {
               >
                 {/* Badge Icon */}
                 <div className={`text-4xl mb-3 ${badge.earned ? '' : 'grayscale'}`}>
-                  {badge.earned ? badge.icon : '🔒'}
+                  {badge.earned ? <BadgeIcon badge={badge} className="w-12 h-12" /> : '🔒'}
                 </div>
                 
                 {/* Badge Info */}
@@ -79,6 +101,13 @@ export default function BadgeDisplay({ onClose }: BadgeDisplayProps) {
                   {badge.description}
                 </p>
                 
+                {/* Streak so far */}
+                {badge.streakProgress && (
+                  <p className="text-xs text-orange-400 mt-2">
+                    🔥 {Math.min(badge.streakProgress.current, badge.streakProgress.target)} / {badge.streakProgress.target} days
+                  </p>
+                )}
+
                 {/* Earned date */}
                 {badge.earned && badge.earnedAt && (
                   <p className="text-xs text-amber-500/70 mt-2">
@@ -99,6 +128,25 @@ export default function BadgeDisplay({ onClose }: BadgeDisplayProps) {
             ))}
           </div>
 
+          {/* Certificates */}
+          {currentProfile && finishedLanes.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-white font-bold mb-3">📜 Certificates</h3>
+              <div className="space-y-2">
+                {finishedLanes.map((lane) => (
+                  <div key={lane.id} className="flex items-center gap-3 p-3 rounded-xl bg-amber-500/10 border border-amber-500/30">
+                    <span className="flex-1 text-white text-sm font-medium">{lane.title}</span>
+                    <CertificateButton
+                      profileId={currentProfile.id}
+                      laneId={lane.id}
+                      className="bg-amber-500 text-gray-900 font-medium hover:bg-amber-400"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Progress Hint */}
           {earnedCount < totalCount && (
             <div className="mt-6 p-4 rounded-xl bg-purple-500/10 border border-purple-500/30">
@@ -0,0 +1,17 @@
+/**
+ * BadgeIcon - A badge's custom artwork, or its emoji when it has none
+ */
+
+import type { BadgeDefinition } from '../types';
+
+interface BadgeIconProps {
+  badge: Pick<BadgeDefinition, 'icon' | 'imageUrl' | 'name'>;
+  className?: string; // Size for artwork, e.g. "w-12 h-12"
+}
+
+export default function BadgeIcon({ badge, className = 'w-10 h-10' }: BadgeIconProps) {
+  if (badge.imageUrl) {
+    return <img src={badge.imageUrl} alt={badge.name} className={`${className} inline-block object-contain`} />;
+  }
+  return <span role="img" aria-label={badge.name}>{badge.icon}</span>;
+}
@@ -1,19 +1,24 @@
 /**
  * BadgeNotification - Shows a celebratory popup when a new badge is earned
+ * A new XP level gets its own card after the badges
  */
 
 import { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
 import type { EarnedBadge } from '../types';
-import { BADGE_DEFINITIONS } from '../types';
+import { $badgeDefinitions } from '../stores/progressStore';
+import BadgeIcon from './BadgeIcon';
 
 interface BadgeNotificationProps {
   badges: EarnedBadge[];
+  levelUp?: number | null;
   onClose: () => void;
 }
 
-export default function BadgeNotification({ badges, onClose }: BadgeNotificationProps) {
+export default function BadgeNotification({ badges, levelUp = null, onClose }: BadgeNotificationProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isVisible, setIsVisible] = useState(false);
+  const definitions = useStore($badgeDefinitions);
 
   useEffect(() => {
     // Animate in
@@ -21,11 +26,13 @@ export default function BadgeNotification({ badges, onClose }: BadgeNotification
     return () => clearTimeout(timer);
   }, []);
 
+  const cardCount = badges.length + (levelUp !== null ? 1 : 0);
   const currentBadge = badges[currentIndex];
-  const badgeDefinition = BADGE_DEFINITIONS.find(b => b.type === currentBadge?.badgeType);
+  const badgeDefinition = definitions.find(b => b.type === currentBadge?.badgeType);
+  const showingLevel = currentIndex >= badges.length && levelUp !== null;
 
   const handleNext = () => {
-    if (currentIndex < badges.length - 1) {
+    if (currentIndex < cardCount - 1) {
       setCurrentIndex(currentIndex + 1);
     } else {
       handleClose();
@@ -37,7 +44,7 @@ export default function BadgeNotification({ badges, onClose }: BadgeNotification
     setTimeout(onClose, 300);
   };
 
-  if (!currentBadge || !badgeDefinition) return null;
+  if (!showingLevel && !badgeDefinition) return null;
 
   return (
     <div 
@@ -71,7 +78,9 @@ export default function BadgeNotification({ badges, onClose }: BadgeNotification
           
           {/* Badge Icon */}
           <div className="relative mb-6">
-            <div className="text-7xl animate-bounce-slow">{badgeDefinition.icon}</div>
+            <div className="text-7xl animate-bounce-slow">
+              {showingLevel ? '🚀' : badgeDefinition && <BadgeIcon badge={badgeDefinition} className="w-24 h-24" />}
+            </div>
             <div className="absolute -top-2 left-1/2 -translate-x-1/2 text-amber-400 text-2xl animate-spin-slow">
               ✨
             </div>
@@ -79,21 +88,21 @@ export default function BadgeNotification({ badges, onClose }: BadgeNotification
 
           {/* Achievement Text */}
           <p className="text-amber-400 text-sm font-bold uppercase tracking-widest mb-2">
-            🎉 Badge Earned! 🎉
+            {showingLevel ? '🎉 Level Up! 🎉' : '🎉 Badge Earned! 🎉'}
           </p>
           
           <h2 className="text-3xl font-bold text-white mb-2">
-            {badgeDefinition.name}
+            {showingLevel ? `Level ${levelUp}` : badgeDefinition?.name}
           </h2>
           
           <p className="text-gray-400 mb-6">
-            {badgeDefinition.description}
+            {showingLevel ? 'Your XP keeps growing - keep learning!' : badgeDefinition?.description}
           </p>
 
           {/* Progress indicator for multiple badges */}
-          {badges.length > 1 && (
+          {cardCount > 1 && (
             <div className="flex justify-center gap-2 mb-4">
-              {badges.map((_, idx) => (
+              {Array.from({ length: cardCount }, (_, idx) => (
                 <div 
                   key={idx}
                   className={`w-2 h-2 rounded-full transition-colors ${
@@ -112,7 +121,7 @@ export default function BadgeNotification({ badges, onClose }: BadgeNotification
                      hover:from-amber-400 hover:to-orange-400 
                      transform hover:scale-105 transition-all shadow-lg"
           >
-            {currentIndex < badges.length - 1 ? 'Next Badge' : 'Awesome!'}
+            {currentIndex < badges.length - 1 ? 'Next Badge' : currentIndex < cardCount - 1 ? 'Next' : 'Awesome!'}
           </button>
         </div>
       </div>
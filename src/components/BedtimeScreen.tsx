@@ -0,0 +1,65 @@
+/**
+ * BedtimeScreen - Shown to children instead of their lanes during quiet hours
+ * or while a guardian has paused everything
+ */
+
+import type { BedtimeState } from '../stores/bedtimeStore';
+import { formatTime } from '../lib/schedule';
+
+interface BedtimeScreenProps {
+  bedtime: BedtimeState;
+  compact?: boolean; // Inside the content viewer, with a way back out
+  onClose?: () => void;
+}
+
+/**
+ * Child-friendly explanation of why lanes are closed
+ */
+export function getBedtimeMessage(bedtime: BedtimeState): { title: string; message: string } {
+  if (bedtime.reason === 'paused') {
+    return {
+      title: 'Taking a Break',
+      message: 'A grown-up has paused Learning Lanes for now. Time for something else!',
+    };
+  }
+  return {
+    title: 'Time to Rest',
+    message: bedtime.window
+      ? `Learning Lanes is sleeping until ${formatTime(bedtime.window.end)}. Sweet dreams!`
+      : 'Learning Lanes is sleeping for now. Sweet dreams!',
+  };
+}
+
+export default function BedtimeScreen({ bedtime, compact = false, onClose }: BedtimeScreenProps) {
+  const { title, message } = getBedtimeMessage(bedtime);
+  const icon = bedtime.reason === 'paused' ? '⏸️' : '🌙';
+
+  if (compact) {
+    return (
+      <div className="max-w-md text-center bg-gray-800/90 rounded-3xl border border-gray-700/50 p-8 shadow-2xl">
+        <div className="text-6xl mb-4">{icon}</div>
+        <h3 className="text-2xl font-bold text-white mb-2">{title}</h3>
+        <p className="text-gray-400 mb-6">{message}</p>
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="px-6 py-3 bg-indigo-500 text-white font-semibold rounded-xl hover:bg-indigo-400 transition-colors"
+          >
+            Okay
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center py-24 px-6 text-center">
+      <div className="w-32 h-32 mb-8 rounded-full bg-indigo-500/20 border border-indigo-500/40
+                     flex items-center justify-center text-6xl shadow-lg shadow-indigo-500/20">
+        {icon}
+      </div>
+      <h2 className="text-3xl font-bold text-white mb-3">{title}</h2>
+      <p className="text-gray-400 text-lg max-w-md">{message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * CertificateButton - Opens a finished lane's printable certificate in a new tab
+ * The page is rendered by /api/certificate; the tab is opened straight away so
+ * pop-up blockers treat it as part of the click
+ */
+
+import { useState } from 'react';
+import { apiRequestPage } from '../lib/api';
+
+interface CertificateButtonProps {
+  profileId: string;
+  laneId: string;
+  className?: string;
+}
+
+export default function CertificateButton({ profileId, laneId, className = '' }: CertificateButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    const tab = window.open('', '_blank');
+    if (!tab) {
+      setError('Allow pop-ups to see the certificate');
+      return;
+    }
+    tab.document.write('<p style="font-family: sans-serif">Preparing certificate...</p>');
+
+    setLoading(true);
+    setError(null);
+    try {
+      const html = await apiRequestPage('/api/certificate', { profileId, laneId });
+      tab.document.open();
+      tab.document.write(html);
+      tab.document.close();
+    } catch (err) {
+      console.error('Failed to create certificate:', err);
+      tab.close();
+      setError(err instanceof Error ? err.message : 'Failed to create certificate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex flex-col items-end">
+      <button
+        onClick={handleClick}
+        disabled={loading}
+        className={`px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 ${className}`}
+      >
+        {loading ? 'Preparing...' : '🖨️ Certificate'}
+      </button>
+      {error && <span className="text-xs text-red-400 mt-1">{error}</span>}
+    </span>
+  );
+}
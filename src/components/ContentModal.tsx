@@ -7,9 +7,16 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
 import { $activeContent, closeContent } from '../stores/contentStore';
 import { $currentProfile } from '../stores/profileStore';
-import { saveWatchProgress, $watchProgressMap } from '../stores/progressStore';
+import { saveWatchProgress, saveWatchSession, $watchProgressMap } from '../stores/progressStore';
+import { $remainingSeconds, $isOutOfTime, recordViewingTick, stopViewingClock, flushScreenTime } from '../stores/screenTimeStore';
+import { $bedtime } from '../stores/bedtimeStore';
+import { getServerNow, getHouseholdNow } from '../stores/clockStore';
+import { WIND_DOWN_SECONDS, formatTimeLeft, getDateKey } from '../lib/screenTime';
+import { createWatchTracker, WATCH_SAMPLE_INTERVAL_MS, type WatchTracker } from '../lib/watchIntervals';
+import { getCompletionRule, getCompletionThreshold, getWatchedPercent, type CompletionRule } from '../lib/completion';
+import BedtimeScreen from './BedtimeScreen';
 import { isYouTubeData, isWebLinkData, isStaticImageData } from '../types';
-import type { YouTubeData, LaneWithItems, WebLinkData } from '../types';
+import type { YouTubeData, LaneWithItems, WebLinkData, WatchedInterval } from '../types';
 
 // YouTube IFrame API types
 declare global {
@@ -52,6 +59,17 @@ interface ContentModalProps {
   lanes?: LaneWithItems[];
 }
 
+// Open/close with nothing watched and shorter than this is an accidental tap - not logged
+const MIN_SESSION_SECONDS = 5;
+
+interface SessionState {
+  startedAt: number; // Server time (ms)
+  date: string;
+  secondsWatched: number;
+  intervals: WatchedInterval[]; // Played in this session, for whether it finished the item on its own
+  completion?: CompletionRule;
+}
+
 // Load YouTube IFrame API
 let ytApiLoaded = false;
 let ytApiLoading = false;
@@ -85,16 +103,22 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
   const activeContent = useStore($activeContent);
   const currentProfile = useStore($currentProfile);
   const watchProgressMap = useStore($watchProgressMap);
+  const remainingSeconds = useStore($remainingSeconds);
+  const isOutOfTime = useStore($isOutOfTime);
+  const bedtime = useStore($bedtime);
+  const isStopped = isOutOfTime || bedtime.active;
   const modalRef = useRef<HTMLDivElement>(null);
   const playerRef = useRef<YouTubePlayer | null>(null);
   const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const watchTrackerRef = useRef<WatchTracker>(createWatchTracker()); // Seconds actually played
+  const sessionRef = useRef<SessionState | null>(null); // This open of the viewer, for the activity timeline
   const [isLoaded, setIsLoaded] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [progressPercent, setProgressPercent] = useState(0);
 
-  // Save progress to Firestore
-  const saveProgress = useCallback(async (position?: number, dur?: number) => {
+  // Save progress (queued for Firestore), with the intervals played since the last save
+  const saveProgress = useCallback((position?: number, dur?: number) => {
     if (!activeContent || !currentProfile || currentProfile.role !== 'child') return;
     
     const { item, laneId } = activeContent;
@@ -102,25 +126,84 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
     const totalDur = dur ?? duration;
     
     if (totalDur <= 0) return;
+
+    const watchedIntervals: WatchedInterval[] = watchTrackerRef.current.takeIntervals();
+    const completion = getCompletionRule(lanes.find(lane => lane.id === laneId), item, totalDur);
+    if (sessionRef.current) {
+      sessionRef.current.intervals.push(...watchedIntervals);
+      sessionRef.current.completion = completion;
+    }
+    console.log(`Saving progress: ${pos}s / ${totalDur}s, ${watchedIntervals.length} new watched intervals`);
     
-    console.log(`Saving progress: ${pos}s / ${totalDur}s (${Math.round((pos/totalDur)*100)}%)`);
-    
-    await saveWatchProgress(
+    saveWatchProgress(
       currentProfile.id,
       laneId,
       item.id,
       pos,
       totalDur,
-      lanes
+      lanes,
+      watchedIntervals,
+      completion
     );
   }, [activeContent, currentProfile, currentTime, duration, lanes]);
 
+  // Count the time viewed since the last tick against the budget and this session
+  const countViewingTick = () => {
+    const seconds = recordViewingTick();
+    if (sessionRef.current) {
+      sessionRef.current.secondsWatched += seconds;
+    }
+  };
+
+  // Log a session each time a child opens and closes an item
+  useEffect(() => {
+    if (!activeContent || currentProfile?.role !== 'child') return;
+
+    const { item, laneId, laneTitle } = activeContent;
+    const profileId = currentProfile.id;
+    sessionRef.current = {
+      startedAt: getServerNow(),
+      date: getDateKey(getHouseholdNow()),
+      secondsWatched: 0,
+      intervals: [],
+    };
+
+    return () => {
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      if (!session) return;
+
+      const endedAt = getServerNow();
+      if (session.secondsWatched === 0 && endedAt - session.startedAt < MIN_SESSION_SECONDS * 1000) return;
+
+      // Include what's played since the last save (the player may not have saved yet)
+      const { completion } = session;
+      const intervals = [...session.intervals, ...watchTrackerRef.current.peekIntervals()];
+      const completed = !!completion && getWatchedPercent(intervals, completion) >= completion.threshold;
+
+      saveWatchSession({
+        profileId,
+        laneId,
+        laneTitle,
+        itemId: item.id,
+        itemTitle: item.title,
+        itemType: item.type,
+        date: session.date,
+        startedAt: new Date(session.startedAt),
+        endedAt: new Date(endedAt),
+        secondsWatched: session.secondsWatched,
+        completed,
+      });
+    };
+  }, [activeContent?.item?.id, currentProfile?.id]);
+
   // Cleanup function
   const cleanup = useCallback(() => {
     if (progressIntervalRef.current) {
       clearInterval(progressIntervalRef.current);
       progressIntervalRef.current = null;
     }
+    stopViewingClock();
     if (playerRef.current) {
       try {
         playerRef.current.destroy();
@@ -141,6 +224,9 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
       return;
     }
     
+    // Fresh interval tracking for each item
+    watchTrackerRef.current = createWatchTracker();
+
     // Get saved progress for this item
     const savedProgress = watchProgressMap.get(activeContent.item.id);
     const startPosition = savedProgress?.lastPosition ?? data.startTime ?? 0;
@@ -175,24 +261,44 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
             progressIntervalRef.current = setInterval(() => {
               if (player.getPlayerState() === window.YT.PlayerState.PLAYING) {
                 const time = player.getCurrentTime();
+                watchTrackerRef.current.tick(time);
                 setCurrentTime(time);
-                setProgressPercent(dur > 0 ? Math.round((time / dur) * 100) : 0);
+
+                // Progress is what's actually been watched of the clip - saved sessions plus this one
+                const saved = $watchProgressMap.get().get(activeContent.item.id);
+                setProgressPercent(getWatchedPercent(
+                  [...(saved?.watchedIntervals ?? []), ...watchTrackerRef.current.peekIntervals()],
+                  getCompletionRule(lanes.find(lane => lane.id === activeContent.laneId), activeContent.item, dur)
+                ));
+
+                // Only actual playing time counts against the daily budget
+                countViewingTick();
+                if ($isOutOfTime.get() || $bedtime.get().active) {
+                  player.pauseVideo();
+                }
+              } else {
+                // Buffering or paused - don't charge the wait to the next tick
+                stopViewingClock();
               }
-            }, 1000);
+            }, WATCH_SAMPLE_INTERVAL_MS);
           },
           onStateChange: (event) => {
             const player = event.target;
             const state = event.data;
             
             if (state === window.YT.PlayerState.PAUSED) {
+              stopViewingClock();
               // Save progress when paused
               const time = player.getCurrentTime();
               const dur = player.getDuration();
+              watchTrackerRef.current.tick(time);
               saveProgress(time, dur);
             } else if (state === window.YT.PlayerState.ENDED) {
-              // Save as completed when video ends
+              stopViewingClock();
+              // Count the last second played - completion depends on what was watched
               const dur = player.getDuration();
-              saveProgress(dur, dur); // Position = duration = 100%
+              watchTrackerRef.current.tick(player.getCurrentTime());
+              saveProgress(dur, dur);
             }
           },
           onError: (event) => {
@@ -221,6 +327,43 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
     };
   }, [activeContent?.item?.id]);
 
+  // Web pages and images count against the budget while they're on screen
+  useEffect(() => {
+    if (!activeContent || isYouTubeData(activeContent.item.data) || isStopped) return;
+
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        countViewingTick();
+      } else {
+        stopViewingClock();
+      }
+    }, 1000);
+    return () => {
+      clearInterval(interval);
+      stopViewingClock();
+    };
+  }, [activeContent?.item?.id, isStopped]);
+
+  // Stop playback the moment the budget runs out or bedtime starts
+  // (pausing saves progress through onStateChange)
+  useEffect(() => {
+    if (!isStopped) return;
+    flushScreenTime();
+    if (!playerRef.current) return;
+    try {
+      playerRef.current.pauseVideo();
+    } catch (e) {
+      // Player might not be ready yet
+    }
+  }, [isStopped]);
+
+  // Save counted time when the viewer closes
+  useEffect(() => {
+    if (!activeContent) {
+      flushScreenTime();
+    }
+  }, [activeContent]);
+
   // Handle escape key to close
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -248,13 +391,13 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
   };
   
   // Handle close button - save progress first
-  const handleClose = async () => {
+  const handleClose = () => {
     if (playerRef.current && activeContent) {
       try {
         const time = playerRef.current.getCurrentTime();
         const dur = playerRef.current.getDuration();
         if (dur > 0) {
-          await saveProgress(time, dur);
+          saveProgress(time, dur);
         }
       } catch (e) {
         // Ignore errors
@@ -268,6 +411,8 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
   const { item, laneTitle } = activeContent;
   const data = item.data;
   const savedProgress = watchProgressMap.get(item.id);
+  const completionThreshold = getCompletionThreshold(lanes.find(lane => lane.id === activeContent.laneId), item);
+  const isWatched = progressPercent >= completionThreshold || !!savedProgress?.completed;
 
   return (
     <div
@@ -298,23 +443,67 @@ export default function ContentModal({ lanes = [] }: ContentModalProps) {
         <h2 id="content-title" className="text-white text-xl md:text-2xl font-bold">
           {item.title}
         </h2>
-        {/* Progress indicator for videos */}
+        {/* Progress indicator for videos (unique seconds watched) */}
         {isYouTubeData(data) && duration > 0 && (
           <div className="flex items-center gap-2 mt-2">
             <div className="w-24 h-1.5 bg-gray-700 rounded-full overflow-hidden">
               <div 
-                className={`h-full transition-all duration-300 rounded-full ${progressPercent >= 90 ? 'bg-green-500' : 'bg-amber-500'}`}
+                className={`h-full transition-all duration-300 rounded-full ${isWatched ? 'bg-green-500' : 'bg-amber-500'}`}
                 style={{ width: `${progressPercent}%` }}
               />
             </div>
-            <span className="text-gray-400 text-xs">{progressPercent}%</span>
-            {progressPercent >= 90 && (
+            <span className="text-gray-400 text-xs">{progressPercent}% watched</span>
+            {isWatched && (
               <span className="text-green-400 text-xs">✓ Complete</span>
             )}
           </div>
         )}
       </div>
 
+      {/* Screen time countdown */}
+      {remainingSeconds !== null && !isStopped && (
+        <div className="absolute top-4 right-20 z-10 flex flex-col items-end gap-2">
+          <span className={`px-3 py-1.5 rounded-full text-sm font-medium
+            ${remainingSeconds <= WIND_DOWN_SECONDS
+              ? 'bg-amber-500/20 text-amber-300 border border-amber-500/50'
+              : 'bg-gray-800/80 text-gray-300'
+            }`}>
+            ⏱ {formatTimeLeft(remainingSeconds)} left
+          </span>
+          {remainingSeconds <= WIND_DOWN_SECONDS && (
+            <span className="max-w-xs px-3 py-2 rounded-xl bg-amber-500/20 border border-amber-500/50 text-amber-200 text-sm text-right">
+              Almost time to stop! Find a good place to finish up. 🌅
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Quiet hours or paused by a guardian */}
+      {bedtime.active && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/90 p-6" style={{ zIndex: 10000 }}>
+          <BedtimeScreen bedtime={bedtime} compact onClose={handleClose} />
+        </div>
+      )}
+
+      {/* Time's up */}
+      {isOutOfTime && !bedtime.active && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/90 p-6" style={{ zIndex: 10000 }}>
+          <div className="max-w-md text-center bg-gray-800/90 rounded-3xl border border-gray-700/50 p-8 shadow-2xl">
+            <div className="text-6xl mb-4">🌙</div>
+            <h3 className="text-2xl font-bold text-white mb-2">That's all for today!</h3>
+            <p className="text-gray-400 mb-6">
+              You've used up today's screen time. Great job learning - see you tomorrow!
+            </p>
+            <button
+              onClick={handleClose}
+              className="px-6 py-3 bg-amber-500 text-gray-900 font-semibold rounded-xl hover:bg-amber-400 transition-colors"
+            >
+              Back to my lanes
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Content */}
       <div className="w-full max-w-6xl">
         {/* YouTube Video */}
@@ -4,49 +4,96 @@
 
 import { useEffect, useState } from 'react';
 import { useStore } from '@nanostores/react';
-import { collection, query, where, getDocs } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getLanesForProfile, getItemsForLane } from '../lib/firestore';
 import { $currentProfile, clearProfile, initializeProfileStore } from '../stores/profileStore';
-import { $watchProgressMap, $earnedBadges, $totalCompleted, $newBadges, loadProgress, clearProgress, clearNewBadges } from '../stores/progressStore';
+import { $household, $householdReady, initializeHouseholdStore } from '../stores/householdStore';
+import { initializeAutoLock } from '../stores/lockStore';
+import { $householdNow, initializeClock } from '../stores/clockStore';
+import { $bedtime } from '../stores/bedtimeStore';
+import { initializeSyncQueue } from '../stores/syncStore';
+import { $remainingSeconds, loadScreenTime, clearScreenTime } from '../stores/screenTimeStore';
+import { formatTimeLeft } from '../lib/screenTime';
+import { isLaneOpen, getNextOpening, formatNextOpening } from '../lib/schedule';
+import { getUnlockStatus, formatUnlockRequirement } from '../lib/unlockRules';
+import { $watchProgressMap, $completedItemIds, $earnedBadges, $totalCompleted, $newBadges, $xpLevel, $levelUp, $itemOpenCounts, $sessionCompletionDays, $lastVisitAt, loadProgress, clearProgress, clearNewBadges } from '../stores/progressStore';
+import { $pointsBalance, loadRewards, clearRewards } from '../stores/rewardStore';
+import { getPathSteps } from '../lib/paths';
+import { SMART_LANES, isSmartLaneEnabled, getContinueWatching, getNewForYou, getWatchAgain, type SmartLaneEntry } from '../lib/smartLanes';
 import ProfileSwitcher from './ProfileSwitcher';
+import HouseholdSignIn from './HouseholdSignIn';
 import Lane from './Lane';
+import SmartLane from './SmartLane';
 import ContentModal from './ContentModal';
+import BedtimeScreen from './BedtimeScreen';
 import BadgeNotification from './BadgeNotification';
+import RewardStore from './RewardStore';
 import BadgeDisplay from './BadgeDisplay';
-import type { Lane as LaneType, LaneItem, LaneWithItems } from '../types';
+import SyncIndicator from './SyncIndicator';
+import StreakFlame from './StreakFlame';
+import Avatar from './Avatar';
+import { isGuardianRole, ROLE_LABELS } from '../lib/permissions';
+import type { LaneWithItems } from '../types';
 
 export default function Dashboard() {
   const currentProfile = useStore($currentProfile);
+  const household = useStore($household);
+  const householdReady = useStore($householdReady);
   const watchProgressMap = useStore($watchProgressMap);
+  const completedItemIds = useStore($completedItemIds);
   const earnedBadges = useStore($earnedBadges);
   const totalCompleted = useStore($totalCompleted);
   const newBadges = useStore($newBadges);
+  const xpLevel = useStore($xpLevel);
+  const levelUp = useStore($levelUp);
+  const pointsBalance = useStore($pointsBalance);
+  const itemOpenCounts = useStore($itemOpenCounts);
+  const sessionCompletionDays = useStore($sessionCompletionDays);
+  const lastVisitAt = useStore($lastVisitAt);
+  const remainingSeconds = useStore($remainingSeconds);
+  const now = useStore($householdNow); // Server time in the household's time zone
+  const bedtime = useStore($bedtime);
   const [lanes, setLanes] = useState<LaneWithItems[]>([]);
   const [loading, setLoading] = useState(true);
   const [initialized, setInitialized] = useState(false);
   const [showBadges, setShowBadges] = useState(false);
+  const [showRewards, setShowRewards] = useState(false);
 
-  // Initialize profile store on mount (hydrate from localStorage)
+  // Initialize stores on mount (auth state + hydrate profile from localStorage)
   useEffect(() => {
+    initializeHouseholdStore();
     initializeProfileStore();
+    initializeAutoLock();
+    initializeClock();
+    initializeSyncQueue();
     setInitialized(true);
   }, []);
   
   // Load progress when profile changes
   useEffect(() => {
-    if (currentProfile) {
+    if (currentProfile && household) {
       loadProgress(currentProfile.id);
+      loadRewards(currentProfile.id);
     } else {
       clearProgress();
+      clearRewards();
     }
-  }, [currentProfile?.id]);
+  }, [currentProfile?.id, household?.id]);
+
+  // Track today's screen time (re-read when the profile's budget changes)
+  useEffect(() => {
+    if (currentProfile && household) {
+      loadScreenTime(currentProfile);
+    } else {
+      clearScreenTime();
+    }
+  }, [currentProfile, household?.id]);
 
   // Fetch lanes when profile changes
   useEffect(() => {
-    if (!initialized) return;
+    if (!initialized || !householdReady) return;
     
     async function fetchLanes() {
-      if (!currentProfile) {
+      if (!currentProfile || !household) {
         setLanes([]);
         setLoading(false);
         return;
@@ -54,37 +101,15 @@ export default function Dashboard() {
 
       setLoading(true);
       try {
-        // Query lanes for this profile (simple query to avoid composite index)
-        const lanesRef = collection(db, 'lanes');
-        const lanesQuery = query(
-          lanesRef,
-          where('profileId', '==', currentProfile.id)
-        );
-        
-        const lanesSnapshot = await getDocs(lanesQuery);
-        
-        // Filter to active lanes and sort client-side
-        const activeLaneDocs = lanesSnapshot.docs
-          .map(doc => ({ id: doc.id, ...doc.data() }) as LaneType)
-          .filter(lane => lane.isActive)
-          .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+        // Active lanes for this profile, already sorted by sortOrder
+        const activeLanes = await getLanesForProfile(currentProfile.id);
         
         // Fetch items for each lane
         const lanesWithItems: LaneWithItems[] = await Promise.all(
-          activeLaneDocs.map(async (laneData) => {
-            // Get items sub-collection
-            const itemsRef = collection(db, 'lanes', laneData.id, 'items');
-            const itemsSnapshot = await getDocs(itemsRef);
-            const items = itemsSnapshot.docs.map((itemDoc) => ({
-              id: itemDoc.id,
-              ...itemDoc.data(),
-            })) as LaneItem[];
-
-            return {
-              ...laneData,
-              items,
-            };
-          })
+          activeLanes.map(async (laneData) => ({
+            ...laneData,
+            items: await getItemsForLane(laneData.id),
+          }))
         );
 
         setLanes(lanesWithItems);
@@ -96,10 +121,67 @@ export default function Dashboard() {
     }
 
     fetchLanes();
-  }, [currentProfile, initialized]);
+  }, [currentProfile, household?.id, initialized, householdReady]);
+
+  // Earn-your-fun lanes stay locked until enough items in their required lane are done
+  const getUnlockMessage = (lane: LaneWithItems): string | undefined => {
+    if (!lane.unlockRule) return undefined;
+    const requiredLane = lanes.find(l => l.id === lane.unlockRule?.requiredLaneId);
+    const status = getUnlockStatus(
+      lane.unlockRule,
+      requiredLane,
+      completedItemIds,
+      watchProgressMap,
+      sessionCompletionDays,
+      now,
+      household?.settings?.timeZone
+    );
+    return status.unlocked || !requiredLane
+      ? undefined
+      : formatUnlockRequirement(lane.unlockRule, requiredLane.title, status);
+  };
+
+  // Lanes outside their schedule are hidden or shown greyed out with their next opening
+  const scheduledLanes = lanes
+    .map((lane) => {
+      const isOpen = isLaneOpen(lane, now);
+      return {
+        lane,
+        isOpen,
+        lockedMessage: isOpen ? getUnlockMessage(lane) : formatNextOpening(getNextOpening(lane, now), now),
+      };
+    })
+    .filter(({ lane, isOpen }) => isOpen || lane.schedule?.whenClosed !== 'hide');
+
+  // Items that can be opened right now (open, unlocked lanes; reached path steps) feed the smart lanes
+  const playableEntries: SmartLaneEntry[] = [];
+  const seenItemIds = new Set<string>();
+  for (const { lane, lockedMessage } of scheduledLanes) {
+    if (lockedMessage !== undefined) continue;
+    const steps = lane.mode === 'path' ? getPathSteps(lane.items, completedItemIds) : null;
+    lane.items.forEach((item, index) => {
+      if (seenItemIds.has(item.id) || steps?.[index] === 'locked') return;
+      seenItemIds.add(item.id);
+      playableEntries.push({ item, lane });
+    });
+  }
+
+  const smartLanes = currentProfile
+    ? SMART_LANES
+        .filter(({ type }) => isSmartLaneEnabled(currentProfile, type))
+        .map(({ type, title }) => ({
+          type,
+          title,
+          entries: type === 'continue_watching'
+            ? getContinueWatching(playableEntries, watchProgressMap)
+            : type === 'new_for_you'
+              ? getNewForYou(playableEntries, watchProgressMap, lastVisitAt)
+              : getWatchAgain(playableEntries, watchProgressMap, itemOpenCounts),
+        }))
+    : [];
 
-  // Show loading while initializing
-  if (!initialized) {
+  // Show loading while initializing (auth state not known yet)
+  if (!initialized || !householdReady) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
         <div className="w-16 h-16 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
@@ -107,6 +189,11 @@ export default function Dashboard() {
     );
   }
 
+  // A parent must sign in before any household data is shown
+  if (!household) {
+    return <HouseholdSignIn />;
+  }
+
   // Show profile switcher if no profile selected
   if (!currentProfile) {
     return <ProfileSwitcher />;
@@ -132,8 +219,8 @@ export default function Dashboard() {
 
           {/* Profile Info & Actions */}
           <div className="flex items-center gap-3">
-            {/* Admin Button - only for admins */}
-            {currentProfile.role === 'admin' && (
+            {/* Admin Button - only for guardians */}
+            {isGuardianRole(currentProfile.role) && (
               <a
                 href="/admin"
                 className="flex items-center gap-2 px-4 py-2 rounded-xl
@@ -149,6 +236,23 @@ export default function Dashboard() {
               </a>
             )}
 
+            {/* Unsynced progress (offline) */}
+            <SyncIndicator />
+
+            {/* Screen time left today */}
+            {remainingSeconds !== null && (
+              <span className={`px-3 py-2 rounded-xl text-sm font-medium border
+                ${remainingSeconds > 0
+                  ? 'bg-gray-800/60 border-gray-700/50 text-gray-300'
+                  : 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300'
+                }`}>
+                {remainingSeconds > 0 ? `⏱ ${formatTimeLeft(remainingSeconds)} left` : '🌙 Done for today'}
+              </span>
+            )}
+
+            {/* Days in a row */}
+            {currentProfile.role === 'child' && <StreakFlame />}
+
             {/* Badges Button */}
             {currentProfile.role === 'child' && (
               <button
@@ -166,14 +270,33 @@ export default function Dashboard() {
               </button>
             )}
 
+            {/* Rewards Button */}
+            {currentProfile.role === 'child' && (
+              <button
+                onClick={() => setShowRewards(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl
+                          bg-emerald-500/20 border border-emerald-500/50
+                          text-emerald-400 hover:bg-emerald-500/30 hover:text-emerald-300
+                          transition-all"
+              >
+                <span className="text-lg">🎁</span>
+                <span className="hidden sm:inline">Rewards</span>
+                <span className="px-1.5 py-0.5 text-xs font-bold bg-emerald-500/30 rounded-full">
+                  {pointsBalance.available}
+                </span>
+              </button>
+            )}
+
             {/* Profile Info */}
             <div className="text-right hidden sm:block">
               <p className="text-white font-medium">{currentProfile.displayName}</p>
               <p className="text-gray-500 text-sm flex items-center justify-end gap-2">
-                {currentProfile.role === 'admin' ? (
-                  'Admin'
+                {isGuardianRole(currentProfile.role) ? (
+                  ROLE_LABELS[currentProfile.role]
                 ) : (
                   <>
+                    <span className="text-amber-400 font-medium" title={`${xpLevel.totalXp} XP`}>Level {xpLevel.level}</span>
+                    <span>•</span>
                     <span>{totalCompleted} videos completed</span>
                   </>
                 )}
@@ -188,10 +311,11 @@ export default function Dashboard() {
                         text-gray-300 hover:text-white hover:bg-gray-800
                         hover:border-amber-500/50 transition-all"
             >
-              <div className="w-8 h-8 rounded-full bg-gradient-to-br from-amber-400 to-orange-500 
-                             flex items-center justify-center text-gray-900 font-bold text-sm">
-                {currentProfile.displayName.charAt(0).toUpperCase()}
-              </div>
+              <Avatar
+                displayName={currentProfile.displayName}
+                avatarUrl={currentProfile.avatarUrl}
+                className="w-8 h-8 text-sm"
+              />
               <span className="hidden sm:inline">Switch</span>
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -203,23 +327,36 @@ export default function Dashboard() {
 
       {/* Main Content */}
       <main className="py-8">
-        {loading ? (
+        {bedtime.active ? (
+          <BedtimeScreen bedtime={bedtime} />
+        ) : loading ? (
           <div className="flex items-center justify-center py-20">
             <div className="flex flex-col items-center gap-4">
               <div className="w-16 h-16 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
               <p className="text-gray-400">Loading your lanes...</p>
             </div>
           </div>
-        ) : lanes.length > 0 ? (
+        ) : scheduledLanes.length > 0 ? (
           <div className="space-y-8">
-            {lanes.map((lane) => (
+            {smartLanes.map(({ type, title, entries }) => (
+              <SmartLane
+                key={type}
+                type={type}
+                title={title}
+                entries={entries}
+                watchProgressMap={watchProgressMap}
+              />
+            ))}
+            {scheduledLanes.map(({ lane, lockedMessage }) => (
               <Lane
                 key={lane.id}
                 id={lane.id}
                 title={lane.title}
                 category={lane.category}
                 items={lane.items}
+                mode={lane.mode}
                 watchProgressMap={watchProgressMap}
+                lockedMessage={lockedMessage}
               />
             ))}
           </div>
@@ -230,11 +367,15 @@ export default function Dashboard() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
               </svg>
             </div>
-            <h2 className="text-2xl font-bold text-white mb-2">No Lanes Yet</h2>
+            <h2 className="text-2xl font-bold text-white mb-2">
+              {lanes.length > 0 ? 'Nothing Open Right Now' : 'No Lanes Yet'}
+            </h2>
             <p className="text-gray-400 max-w-md">
-              {currentProfile.role === 'admin' 
-                ? "You haven't created any learning lanes yet. Add some content to get started!"
-                : "No learning content has been set up for you yet. Ask a parent to add some lanes!"}
+              {lanes.length > 0
+                ? 'Your lanes are resting for now. Check back a little later!'
+                : isGuardianRole(currentProfile.role)
+                  ? "You haven't created any learning lanes yet. Add some content to get started!"
+                  : "No learning content has been set up for you yet. Ask a parent to add some lanes!"}
             </p>
           </div>
         )}
@@ -244,13 +385,18 @@ export default function Dashboard() {
       <ContentModal lanes={lanes} />
       
       {/* Badge Notification */}
-      {newBadges.length > 0 && (
-        <BadgeNotification badges={newBadges} onClose={clearNewBadges} />
+      {(newBadges.length > 0 || levelUp !== null) && (
+        <BadgeNotification badges={newBadges} levelUp={levelUp} onClose={clearNewBadges} />
       )}
       
       {/* Badges Display Modal */}
       {showBadges && (
-        <BadgeDisplay onClose={() => setShowBadges(false)} />
+        <BadgeDisplay lanes={lanes} onClose={() => setShowBadges(false)} />
+      )}
+
+      {/* Reward Store Modal */}
+      {showRewards && (
+        <RewardStore onClose={() => setShowRewards(false)} />
       )}
     </div>
   );
@@ -0,0 +1,114 @@
+/**
+ * FirstGuardianSetup - First-run step for a new household with no guardian yet
+ * Creates the admin profile and its PIN in one server call, so the family can
+ * unlock the admin area and add everyone else from there
+ */
+
+import { useState } from 'react';
+import { createFirstGuardian } from '../stores/profileStore';
+import { ApiRequestError } from '../lib/api';
+import type { Profile } from '../types';
+
+interface FirstGuardianSetupProps {
+  onCreated: (profile: Profile) => void;
+}
+
+export default function FirstGuardianSetup({ onCreated }: FirstGuardianSetupProps) {
+  const [displayName, setDisplayName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!displayName.trim()) {
+      setError('Please enter your name');
+      return;
+    }
+    if (!/^\d{4,6}$/.test(pin)) {
+      setError('PIN must be 4-6 digits');
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      onCreated(await createFirstGuardian(displayName.trim(), pin));
+    } catch (err) {
+      console.error('Failed to create the admin profile:', err);
+      setError(err instanceof ApiRequestError ? err.message : 'Failed to create your profile. Please try again.');
+      setSaving(false);
+    }
+  };
+
+  const inputClass = `w-full px-4 py-3 bg-gray-900/50 border border-gray-700 rounded-xl text-white
+                      focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500`;
+
+  return (
+    <div className="w-full max-w-md bg-gray-800/80 rounded-3xl p-8 border border-gray-700/50 shadow-2xl">
+      <h2 className="text-2xl font-bold text-white mb-2">Set up your family</h2>
+      <p className="text-gray-400 text-sm mb-6">
+        Start with your own admin profile. Its PIN unlocks the admin area, where you can add the kids.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-gray-400 text-sm mb-2">Your name</label>
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className={inputClass}
+            placeholder="e.g. Mom"
+            autoFocus
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              className={`${inputClass} text-center tracking-[0.3em] font-mono`}
+              placeholder="••••"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-400 text-sm mb-2">Confirm PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              maxLength={6}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              className={`${inputClass} text-center tracking-[0.3em] font-mono`}
+              placeholder="••••"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full px-6 py-4 bg-amber-500 text-gray-900 font-semibold text-lg rounded-xl
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Creating...' : 'Create Admin Profile'}
+        </button>
+      </form>
+    </div>
+  );
+}
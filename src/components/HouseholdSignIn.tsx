@@ -0,0 +1,134 @@
+/**
+ * HouseholdSignIn - Parent sign-in (or sign-up) for a family household
+ * Shown before the profile switcher until a parent account is signed in on this device
+ */
+
+import { useState } from 'react';
+import { signInParent, createParentAccount } from '../stores/householdStore';
+
+type Mode = 'sign_in' | 'sign_up';
+
+export default function HouseholdSignIn() {
+  const [mode, setMode] = useState<Mode>('sign_in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [householdName, setHouseholdName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      if (mode === 'sign_in') {
+        await signInParent(email.trim(), password);
+      } else {
+        await createParentAccount(email.trim(), password, householdName.trim() || 'My Family');
+      }
+    } catch (err) {
+      console.error('Household sign-in failed:', err);
+      setError(mode === 'sign_in'
+        ? 'Could not sign in. Check your email and password.'
+        : 'Could not create your account. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setMode(mode === 'sign_in' ? 'sign_up' : 'sign_in');
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        {/* Logo/Title */}
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-3 mb-4">
+            <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-amber-400 to-orange-500
+                           flex items-center justify-center shadow-lg shadow-amber-500/30">
+              <svg className="w-7 h-7 text-gray-900" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+            </div>
+          </div>
+          <h1 className="text-4xl font-bold text-white tracking-tight mb-2">Learning Lanes</h1>
+          <p className="text-gray-400 text-lg">
+            {mode === 'sign_in' ? 'Parents, sign in to your family' : 'Create your family account'}
+          </p>
+        </div>
+
+        <div className="bg-gray-800/80 backdrop-blur-xl rounded-3xl p-8 border border-gray-700/50 shadow-2xl">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'sign_up' && (
+              <div>
+                <label className="block text-gray-400 text-sm mb-2">Family name</label>
+                <input
+                  type="text"
+                  value={householdName}
+                  onChange={(e) => setHouseholdName(e.target.value)}
+                  placeholder="The Smith Family"
+                  className="w-full px-4 py-3 bg-gray-900/50 border-2 border-gray-700 rounded-xl text-white
+                           placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </div>
+            )}
+
+            <div>
+              <label className="block text-gray-400 text-sm mb-2">Email</label>
+              <input
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-900/50 border-2 border-gray-700 rounded-xl text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-gray-400 text-sm mb-2">Password</label>
+              <input
+                type="password"
+                autoComplete={mode === 'sign_in' ? 'current-password' : 'new-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-900/50 border-2 border-gray-700 rounded-xl text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+              />
+            </div>
+
+            {error && (
+              <p className="text-red-400 text-sm text-center">{error}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting || !email.trim() || password.length < 6}
+              className="w-full mt-2 px-6 py-4 bg-amber-500 text-gray-900 font-semibold text-lg rounded-xl
+                       hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed
+                       transition-all transform hover:scale-[1.02] active:scale-[0.98]"
+            >
+              {submitting
+                ? 'Please wait...'
+                : mode === 'sign_in' ? 'Sign In' : 'Create Account'}
+            </button>
+          </form>
+
+          <button
+            onClick={toggleMode}
+            className="w-full mt-6 text-sm text-gray-400 hover:text-amber-400 transition-colors"
+          >
+            {mode === 'sign_in'
+              ? "New here? Create a family account"
+              : 'Already have an account? Sign in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 /**
  * Lane - Horizontal scrolling container for content items
  * Netflix-style lane with snap scrolling and progress tracking
+ * Path lanes render as a journey map where each step unlocks the next
  */
 
-import { useRef } from 'react';
-import type { LaneItem, LaneCategory, WatchRecord } from '../types';
+import { useEffect, useRef } from 'react';
+import type { LaneItem, LaneCategory, LaneMode, WatchRecord } from '../types';
 import { openContent } from '../stores/contentStore';
+import { getPathSteps, type PathStepState } from '../lib/paths';
 import LaneCard from './LaneCard';
 
 interface LaneProps {
@@ -13,7 +15,9 @@ interface LaneProps {
   title: string;
   category: LaneCategory;
   items: LaneItem[];
+  mode?: LaneMode;
   watchProgressMap?: Map<string, WatchRecord>; // itemId -> WatchRecord
+  lockedMessage?: string; // Set when the lane can't be opened right now (e.g. "Opens at 3:00 PM", "Finish 2 videos in School today to unlock!")
 }
 
 // Category colors for visual distinction
@@ -47,22 +51,38 @@ const categoryIcons: Record<LaneCategory, JSX.Element> = {
   ),
 };
 
-export default function Lane({ id, title, category, items, watchProgressMap = new Map() }: LaneProps) {
+export default function Lane({ id, title, category, items, mode, watchProgressMap = new Map(), lockedMessage }: LaneProps) {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const currentStepRef = useRef<HTMLDivElement>(null);
+  const isLocked = lockedMessage !== undefined;
 
-  const handleItemSelect = (item: LaneItem) => {
-    openContent(item, id, title);
-  };
-  
   // Calculate progress - only count COMPLETED items
-  const completedCount = items.filter(item => {
-    const progress = watchProgressMap.get(item.id);
-    return progress?.completed ?? false;
-  }).length;
+  const completedIds = new Set(
+    items.filter(item => watchProgressMap.get(item.id)?.completed ?? false).map(item => item.id)
+  );
+  const completedCount = completedIds.size;
   
   const progressPercent = items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0;
   const isComplete = completedCount === items.length && items.length > 0;
 
+  // Path lanes: each step opens once the one before it is done
+  const steps: PathStepState[] | null = mode === 'path' ? getPathSteps(items, completedIds) : null;
+  const currentStepIndex = steps ? steps.indexOf('current') : -1;
+
+  const handleItemSelect = (item: LaneItem) => {
+    if (isLocked) return;
+    if (steps && steps[items.indexOf(item)] === 'locked') return;
+    openContent(item, id, title);
+  };
+
+  // Start a path scrolled to the next step to take
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    const step = currentStepRef.current;
+    if (!container || !step) return;
+    container.scrollLeft = step.offsetLeft - container.offsetLeft - 48;
+  }, [currentStepIndex]);
+
   const scroll = (direction: 'left' | 'right') => {
     if (!scrollContainerRef.current) return;
     const scrollAmount = scrollContainerRef.current.clientWidth * 0.75;
@@ -77,7 +97,7 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
   }
 
   return (
-    <section className="relative py-4">
+    <section className={`relative py-4 ${isLocked ? 'opacity-50 grayscale' : ''}`}>
       {/* Lane Header */}
       <div className="flex items-center gap-3 px-6 md:px-12 mb-4">
         <div className={`p-2 rounded-lg bg-gradient-to-br ${categoryColors[category]} shadow-lg ${isComplete ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-gray-900' : ''}`}>
@@ -99,6 +119,14 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
                 COMPLETE!
               </span>
             )}
+            {isLocked && (
+              <span className="flex items-center gap-1 px-2 py-0.5 text-xs font-bold bg-gray-700 text-gray-300 rounded-full">
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                {lockedMessage}
+              </span>
+            )}
           </div>
           {/* Progress bar */}
           <div className="flex items-center gap-2 mt-1">
@@ -109,7 +137,9 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
               />
             </div>
             <span className="text-xs text-gray-500 font-medium">
-              {completedCount}/{items.length} completed
+              {steps && !isComplete && currentStepIndex >= 0
+                ? `Step ${currentStepIndex + 1} of ${items.length}`
+                : `${completedCount}/${items.length} completed`}
             </span>
           </div>
         </div>
@@ -153,6 +183,7 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
         {/* Items Container */}
         <div
           ref={scrollContainerRef}
+          aria-disabled={isLocked}
           className="flex gap-4 overflow-x-auto scroll-smooth snap-x snap-mandatory
                      px-6 md:px-12 pb-4
                      scrollbar-thin scrollbar-track-transparent scrollbar-thumb-gray-700
@@ -162,14 +193,30 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
             msOverflowStyle: 'none',
           }}
         >
-          {items.map((item) => (
-            <div key={item.id} className="snap-start">
-              <LaneCard 
-                item={item} 
-                watchProgress={watchProgressMap.get(item.id)}
-                onSelect={handleItemSelect} 
-              />
-            </div>
+          {items.map((item, index) => (
+            steps ? (
+              <div
+                key={item.id}
+                ref={index === currentStepIndex ? currentStepRef : undefined}
+                className="snap-start flex flex-col items-center gap-3"
+              >
+                <PathMarker step={index + 1} state={steps[index]} isFirst={index === 0} isLast={index === items.length - 1} />
+                <LaneCard
+                  item={item}
+                  watchProgress={watchProgressMap.get(item.id)}
+                  onSelect={handleItemSelect}
+                  pathStep={{ number: index + 1, state: steps[index] }}
+                />
+              </div>
+            ) : (
+              <div key={item.id} className="snap-start">
+                <LaneCard 
+                  item={item} 
+                  watchProgress={watchProgressMap.get(item.id)}
+                  onSelect={handleItemSelect} 
+                />
+              </div>
+            )
           ))}
         </div>
 
@@ -180,3 +227,40 @@ export default function Lane({ id, title, category, items, watchProgressMap = ne
     </section>
   );
 }
+
+/**
+ * Journey-map stop above a path card - the trail joins neighbouring steps
+ */
+function PathMarker({ step, state, isFirst, isLast }: { step: number; state: PathStepState; isFirst: boolean; isLast: boolean }) {
+  // The trail in is walked once this step is open, the trail out once it's done
+  const trailIn = state === 'locked' ? 'border-gray-600' : 'border-green-500';
+  const trailOut = state === 'done' ? 'border-green-500' : 'border-gray-600';
+
+  return (
+    <div className="relative w-full flex items-center justify-center h-10">
+      {/* Trail to the previous and next steps (cards are gap-4 apart) */}
+      {!isFirst && <div className={`absolute left-[-0.5rem] right-1/2 top-1/2 -translate-y-1/2 border-t-4 border-dotted ${trailIn}`} />}
+      {!isLast && <div className={`absolute left-1/2 right-[-0.5rem] top-1/2 -translate-y-1/2 border-t-4 border-dotted ${trailOut}`} />}
+
+      <div className={`relative w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm shadow-lg
+        ${state === 'done'
+          ? 'bg-green-500 text-white'
+          : state === 'current'
+            ? 'bg-amber-500 text-gray-900 ring-4 ring-amber-500/30 animate-pulse'
+            : 'bg-gray-700 text-gray-400'
+        }`}>
+        {state === 'done' ? (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+          </svg>
+        ) : state === 'locked' ? (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+        ) : (
+          step
+        )}
+      </div>
+    </div>
+  );
+}
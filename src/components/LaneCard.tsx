@@ -2,25 +2,31 @@
  * LaneCard - Individual content card within a Lane
  * Large touch targets (44px minimum) suitable for tablets
  * Shows progress bar for partially watched videos
+ * On a path lane, shows the step number and stays locked until the previous step is done
  */
 
 import type { LaneItem, WatchRecord } from '../types';
+import type { PathStepState } from '../lib/paths';
 
 interface LaneCardProps {
   item: LaneItem;
   watchProgress?: WatchRecord; // Full progress data for this item
   onSelect: (item: LaneItem) => void;
+  pathStep?: { number: number; state: PathStepState }; // Only for path lanes
 }
 
-export default function LaneCard({ item, watchProgress, onSelect }: LaneCardProps) {
+export default function LaneCard({ item, watchProgress, onSelect, pathStep }: LaneCardProps) {
+  const isStepLocked = pathStep?.state === 'locked';
+
   const handleClick = () => {
+    if (isStepLocked) return;
     onSelect(item);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
       e.preventDefault();
-      onSelect(item);
+      handleClick();
     }
   };
 
@@ -52,25 +58,43 @@ export default function LaneCard({ item, watchProgress, onSelect }: LaneCardProp
     <button
       onClick={handleClick}
       onKeyDown={handleKeyDown}
+      aria-disabled={isStepLocked}
       className={`group flex-shrink-0 w-56 md:w-64 rounded-xl overflow-hidden 
                  bg-gray-800/60 backdrop-blur-sm border
                  focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 focus:ring-offset-gray-900
-                 transition-all duration-300 ease-out
-                 hover:scale-[1.02] hover:shadow-xl cursor-pointer text-left
-                 ${isCompleted 
-                   ? 'border-green-500/50 hover:border-green-400/70 hover:shadow-green-500/10' 
-                   : 'border-gray-700/50 hover:border-amber-500/50 hover:shadow-amber-500/10'}`}
-      aria-label={`Open ${item.title}${isCompleted ? ' (completed)' : hasProgress ? ` (${progressPercent}% watched)` : ''}`}
+                 transition-all duration-300 ease-out text-left
+                 ${isStepLocked
+                   ? 'border-gray-700/50 cursor-not-allowed'
+                   : 'hover:scale-[1.02] hover:shadow-xl cursor-pointer'}
+                 ${isStepLocked
+                   ? ''
+                   : isCompleted 
+                     ? 'border-green-500/50 hover:border-green-400/70 hover:shadow-green-500/10' 
+                     : 'border-gray-700/50 hover:border-amber-500/50 hover:shadow-amber-500/10'}`}
+      aria-label={isStepLocked
+        ? `${item.title} (locked - finish step ${(pathStep?.number ?? 1) - 1} first)`
+        : `Open ${item.title}${isCompleted ? ' (completed)' : hasProgress ? ` (${progressPercent}% watched)` : ''}`}
     >
       {/* Thumbnail */}
       <div className="relative aspect-video overflow-hidden">
         <img
           src={item.thumbnailUrl}
           alt=""
-          className={`w-full h-full object-cover transition-transform duration-300 group-hover:scale-105 
+          className={`w-full h-full object-cover transition-transform duration-300 
+                     ${isStepLocked ? 'grayscale opacity-40' : 'group-hover:scale-105'}
                      ${isCompleted ? 'opacity-80' : ''}`}
           loading="lazy"
         />
+
+        {/* Locked path step */}
+        {isStepLocked && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/40 text-gray-200">
+            <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+            <span className="text-xs font-medium">Finish step {(pathStep?.number ?? 1) - 1} first!</span>
+          </div>
+        )}
         
         {/* Type indicator badge */}
         <div className="absolute top-2 right-2 p-1.5 rounded-lg bg-black/60 backdrop-blur-sm text-white/90">
@@ -100,7 +124,7 @@ export default function LaneCard({ item, watchProgress, onSelect }: LaneCardProp
         )}
         
         {/* Play overlay for videos */}
-        {item.type === 'youtube_video' && (
+        {item.type === 'youtube_video' && !isStepLocked && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/0 group-hover:bg-black/30 transition-colors">
             <div className={`w-14 h-14 rounded-full flex items-center justify-center 
                           opacity-0 group-hover:opacity-100 transform scale-75 group-hover:scale-100
@@ -148,6 +172,7 @@ export default function LaneCard({ item, watchProgress, onSelect }: LaneCardProp
                        ${isCompleted 
                          ? 'text-green-400 group-hover:text-green-300' 
                          : 'text-white group-hover:text-amber-400'}`}>
+          {pathStep && <span className="text-gray-500">Step {pathStep.number}: </span>}
           {item.title}
         </h3>
         {hasProgress && watchProgress && (
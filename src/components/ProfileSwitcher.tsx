@@ -4,9 +4,11 @@
  */
 
 import { useState, useEffect } from 'react';
-import { collection, getDocs } from 'firebase/firestore';
-import { db } from '../lib/firebase';
+import { getAllProfiles } from '../lib/firestore';
 import { setProfile, verifyAdminPin } from '../stores/profileStore';
+import Avatar from './Avatar';
+import FirstGuardianSetup from './FirstGuardianSetup';
+import { isGuardianRole, ROLE_LABELS } from '../lib/permissions';
 import type { Profile } from '../types';
 
 interface ProfileSwitcherProps {
@@ -19,18 +21,16 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
   const [error, setError] = useState<string | null>(null);
   const [selectedAdmin, setSelectedAdmin] = useState<Profile | null>(null);
   const [pin, setPin] = useState('');
-  const [pinError, setPinError] = useState(false);
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [checkingPin, setCheckingPin] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [now, setNow] = useState(Date.now());
 
-  // Fetch profiles from Firestore
+  // Fetch this household's profiles from Firestore
   useEffect(() => {
     async function fetchProfiles() {
       try {
-        const profilesRef = collection(db, 'profiles');
-        const snapshot = await getDocs(profilesRef);
-        const profilesData = snapshot.docs.map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as Profile[];
+        const profilesData = await getAllProfiles();
         setProfiles(profilesData);
       } catch (err) {
         console.error('Failed to fetch profiles:', err);
@@ -44,11 +44,12 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
   }, []);
 
   const handleProfileClick = (profile: Profile) => {
-    if (profile.role === 'admin') {
-      // Show PIN input for admin profiles
+    if (isGuardianRole(profile.role)) {
+      // Show PIN input for guardian profiles
       setSelectedAdmin(profile);
       setPin('');
-      setPinError(false);
+      setPinError(null);
+      setLockedUntil(null);
     } else {
       // Directly select child profiles
       setProfile(profile);
@@ -56,38 +57,53 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
     }
   };
 
-  const handlePinSubmit = (e: React.FormEvent) => {
+  // Tick while locked out so the countdown updates
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (lockedUntil.getTime() <= Date.now()) {
+        setLockedUntil(null);
+        setPinError(null);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedAdmin && verifyAdminPin(selectedAdmin, pin)) {
+    if (!selectedAdmin || checkingPin) return;
+
+    setCheckingPin(true);
+    const result = await verifyAdminPin(selectedAdmin, pin);
+    setCheckingPin(false);
+
+    if (result.ok) {
       setProfile(selectedAdmin);
       onProfileSelected?.();
-    } else {
-      setPinError(true);
-      setPin('');
+      return;
     }
+
+    setPin('');
+    setNow(Date.now());
+    setLockedUntil(result.lockedUntil ?? null);
+    setPinError(
+      result.lockedUntil
+        ? 'Too many attempts.'
+        : result.attemptsRemaining !== undefined && result.attemptsRemaining <= 2
+          ? `${result.error}. ${result.attemptsRemaining} ${result.attemptsRemaining === 1 ? 'try' : 'tries'} left before a lockout.`
+          : `${result.error}. Please try again.`
+    );
   };
 
   const handlePinCancel = () => {
     setSelectedAdmin(null);
     setPin('');
-    setPinError(false);
+    setPinError(null);
+    setLockedUntil(null);
   };
 
-  // Generate a nice avatar color based on name
-  const getAvatarColor = (name: string) => {
-    const colors = [
-      'from-blue-400 to-blue-600',
-      'from-purple-400 to-purple-600',
-      'from-pink-400 to-pink-600',
-      'from-orange-400 to-orange-600',
-      'from-green-400 to-green-600',
-      'from-teal-400 to-teal-600',
-      'from-red-400 to-red-600',
-      'from-indigo-400 to-indigo-600',
-    ];
-    const index = name.charCodeAt(0) % colors.length;
-    return colors[index];
-  };
+  const lockoutSecondsLeft = lockedUntil ? Math.max(Math.ceil((lockedUntil.getTime() - now) / 1000), 0) : 0;
 
   if (loading) {
     return (
@@ -140,16 +156,13 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
 
             {/* Admin Avatar */}
             <div className="flex flex-col items-center mb-8">
-              <div className={`w-24 h-24 rounded-full bg-gradient-to-br ${getAvatarColor(selectedAdmin.displayName)} 
-                              flex items-center justify-center text-white text-3xl font-bold shadow-xl mb-4`}>
-                {selectedAdmin.avatarUrl ? (
-                  <img src={selectedAdmin.avatarUrl} alt="" className="w-full h-full rounded-full object-cover" />
-                ) : (
-                  selectedAdmin.displayName.charAt(0).toUpperCase()
-                )}
-              </div>
+              <Avatar
+                displayName={selectedAdmin.displayName}
+                avatarUrl={selectedAdmin.avatarUrl}
+                className="w-24 h-24 text-3xl shadow-xl mb-4"
+              />
               <h2 className="text-2xl font-bold text-white">{selectedAdmin.displayName}</h2>
-              <p className="text-amber-500 text-sm font-medium">Admin Account</p>
+              <p className="text-amber-500 text-sm font-medium">{ROLE_LABELS[selectedAdmin.role]} Account</p>
             </div>
 
             {/* PIN Form */}
@@ -163,8 +176,9 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
                 value={pin}
                 onChange={(e) => {
                   setPin(e.target.value);
-                  setPinError(false);
+                  if (!lockedUntil) setPinError(null);
                 }}
+                disabled={!!lockedUntil}
                 className={`w-full px-4 py-4 text-center text-2xl tracking-[0.5em] font-mono
                            bg-gray-900/50 border-2 rounded-xl text-white
                            focus:outline-none focus:ring-2 focus:ring-amber-500 transition-all
@@ -173,16 +187,19 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
                 autoFocus
               />
               {pinError && (
-                <p className="text-red-400 text-sm mt-2 text-center">Incorrect PIN. Please try again.</p>
+                <p className="text-red-400 text-sm mt-2 text-center">
+                  {pinError}
+                  {lockedUntil && ` Try again in ${formatCountdown(lockoutSecondsLeft)}.`}
+                </p>
               )}
               <button
                 type="submit"
-                disabled={pin.length < 4}
+                disabled={pin.length < 4 || checkingPin || !!lockedUntil}
                 className="w-full mt-6 px-6 py-4 bg-amber-500 text-gray-900 font-semibold text-lg rounded-xl
                          hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed
                          transition-all transform hover:scale-[1.02] active:scale-[0.98]"
               >
-                Continue
+                {checkingPin ? 'Checking...' : 'Continue'}
               </button>
             </form>
           </div>
@@ -223,16 +240,12 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
                        transition-all duration-300 transform hover:scale-105"
           >
             {/* Avatar */}
-            <div className={`w-20 h-20 md:w-24 md:h-24 rounded-full bg-gradient-to-br ${getAvatarColor(profile.displayName)}
-                           flex items-center justify-center text-white text-2xl md:text-3xl font-bold
-                           shadow-lg group-hover:shadow-xl group-hover:shadow-amber-500/20
-                           transition-all duration-300 mb-4`}>
-              {profile.avatarUrl ? (
-                <img src={profile.avatarUrl} alt="" className="w-full h-full rounded-full object-cover" />
-              ) : (
-                profile.displayName.charAt(0).toUpperCase()
-              )}
-            </div>
+            <Avatar
+              displayName={profile.displayName}
+              avatarUrl={profile.avatarUrl}
+              className="w-20 h-20 md:w-24 md:h-24 text-2xl md:text-3xl shadow-lg
+                         group-hover:shadow-xl group-hover:shadow-amber-500/20 transition-all duration-300 mb-4"
+            />
             
             {/* Name */}
             <span className="text-white font-semibold text-lg group-hover:text-amber-400 transition-colors">
@@ -240,21 +253,33 @@ export default function ProfileSwitcher({ onProfileSelected }: ProfileSwitcherPr
             </span>
             
             {/* Role Badge */}
-            {profile.role === 'admin' && (
+            {isGuardianRole(profile.role) && (
               <span className="mt-2 px-3 py-1 bg-amber-500/20 text-amber-400 text-xs font-medium rounded-full">
-                Admin
+                {ROLE_LABELS[profile.role]}
               </span>
             )}
           </button>
         ))}
       </div>
 
-      {profiles.length === 0 && (
-        <div className="text-center">
-          <p className="text-gray-400 text-lg mb-4">No profiles found.</p>
-          <p className="text-gray-500 text-sm">Run the seed script to create sample profiles.</p>
+      {/* New household - nobody can unlock the admin area to add profiles yet */}
+      {!profiles.some(profile => isGuardianRole(profile.role)) && (
+        <div className={profiles.length > 0 ? 'mt-12' : ''}>
+          <FirstGuardianSetup
+            onCreated={(profile) => {
+              setProfiles(current => [profile, ...current]);
+              handleProfileClick(profile);
+            }}
+          />
         </div>
       )}
     </div>
   );
 }
+
+// Helper to format a lockout countdown as M:SS
+function formatCountdown(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
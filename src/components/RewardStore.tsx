@@ -0,0 +1,144 @@
+/**
+ * RewardStore - Where a child spends their points on rewards their parents set up
+ * Asking for a reward sends a request; the points are held until a parent decides
+ */
+
+import { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Reward, RedemptionStatus } from '../types';
+import { $rewards, $redemptions, $pointsBalance, loadRewards, redeemReward } from '../stores/rewardStore';
+import { $currentProfile } from '../stores/profileStore';
+
+interface RewardStoreProps {
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<RedemptionStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting for a grown-up', className: 'text-amber-300' },
+  approved: { label: 'Yes!', className: 'text-green-400' },
+  declined: { label: 'Not this time', className: 'text-gray-500' },
+};
+
+export default function RewardStore({ onClose }: RewardStoreProps) {
+  const rewards = useStore($rewards);
+  const redemptions = useStore($redemptions);
+  const balance = useStore($pointsBalance);
+  const currentProfile = useStore($currentProfile);
+
+  const [requesting, setRequesting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up decisions made since the Dashboard loaded
+  useEffect(() => {
+    if (currentProfile) loadRewards(currentProfile.id);
+  }, [currentProfile?.id]);
+
+  const handleRedeem = async (reward: Reward) => {
+    if (!currentProfile) return;
+    if (!confirm(`Ask for "${reward.name}" for ${reward.cost} points?`)) return;
+
+    setRequesting(reward.id);
+    setError(null);
+    try {
+      await redeemReward(currentProfile.id, reward);
+    } catch (err) {
+      console.error('Failed to request reward:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4
+                 bg-black/80 backdrop-blur-sm animate-fadeIn"
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-lg w-full max-h-[90vh] overflow-y-auto
+                   bg-gradient-to-b from-gray-800 to-gray-900
+                   rounded-3xl border border-emerald-500/30 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-gray-800/95 backdrop-blur-sm p-6 border-b border-gray-700/50">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 rounded-full text-gray-500 hover:text-white hover:bg-gray-700 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-emerald-400 to-teal-500
+                           flex items-center justify-center text-3xl shadow-lg">
+              🎁
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-white">Reward Store</h2>
+              <p className="text-gray-400">
+                <span className="text-emerald-300 font-bold">{balance.available} points</span> to spend
+                {balance.held > 0 && ` • ${balance.held} waiting`}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+
+          {/* Rewards */}
+          {rewards.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No rewards yet - ask a grown-up to add some!</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {rewards.map((reward) => {
+                const affordable = balance.available >= reward.cost;
+                return (
+                  <button
+                    key={reward.id}
+                    onClick={() => handleRedeem(reward)}
+                    disabled={!affordable || requesting !== null}
+                    className={`p-4 rounded-2xl border text-left transition-all
+                      ${affordable
+                        ? 'bg-gradient-to-br from-emerald-500/20 to-teal-500/10 border-emerald-500/50 hover:scale-105'
+                        : 'bg-gray-800/50 border-gray-700/50 opacity-60 cursor-not-allowed'
+                      }`}
+                  >
+                    <div className="text-4xl mb-3">{reward.icon}</div>
+                    <h3 className="font-bold text-white mb-1">{reward.name}</h3>
+                    {reward.description && <p className="text-sm text-gray-400 mb-2">{reward.description}</p>}
+                    <p className={`text-sm font-bold ${affordable ? 'text-emerald-300' : 'text-gray-500'}`}>
+                      {requesting === reward.id ? 'Asking...' : `${reward.cost} points`}
+                    </p>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Requests */}
+          {redemptions.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-400 mb-2">My requests</h3>
+              <div className="space-y-2">
+                {redemptions.slice(0, 10).map((redemption) => (
+                  <div key={redemption.id} className="flex items-center gap-3 p-3 rounded-xl bg-gray-800/60">
+                    <span className="text-2xl">{redemption.rewardIcon}</span>
+                    <span className="flex-1 text-white text-sm">{redemption.rewardName}</span>
+                    <span className={`text-sm font-medium ${STATUS_LABELS[redemption.status].className}`}>
+                      {STATUS_LABELS[redemption.status].label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
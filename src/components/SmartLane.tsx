@@ -0,0 +1,56 @@
+/**
+ * SmartLane - A computed lane at the top of the Dashboard (Continue Watching,
+ * New for You, Watch Again). Items come from several lanes and open as part of their own
+ */
+
+import type { SmartLaneType, WatchRecord } from '../types';
+import type { SmartLaneEntry } from '../lib/smartLanes';
+import { openContent } from '../stores/contentStore';
+import LaneCard from './LaneCard';
+
+interface SmartLaneProps {
+  type: SmartLaneType;
+  title: string;
+  entries: SmartLaneEntry[];
+  watchProgressMap: Map<string, WatchRecord>;
+}
+
+const SMART_LANE_ICONS: Record<SmartLaneType, string> = {
+  continue_watching: '▶️',
+  new_for_you: '✨',
+  watch_again: '🔁',
+};
+
+export default function SmartLane({ type, title, entries, watchProgressMap }: SmartLaneProps) {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="relative py-4">
+      {/* Lane Header */}
+      <div className="flex items-center gap-3 px-6 md:px-12 mb-4">
+        <div className="w-9 h-9 rounded-lg bg-gray-800 flex items-center justify-center text-lg shadow-lg">
+          {SMART_LANE_ICONS[type]}
+        </div>
+        <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight">{title}</h2>
+      </div>
+
+      {/* Items */}
+      <div
+        className="flex gap-4 overflow-x-auto scroll-smooth snap-x snap-mandatory px-6 md:px-12 pb-4"
+        style={{ scrollbarWidth: 'thin' }}
+      >
+        {entries.map(({ item, lane }) => (
+          <div key={item.id} className="snap-start">
+            <LaneCard
+              item={item}
+              watchProgress={watchProgressMap.get(item.id)}
+              onSelect={() => openContent(item, lane.id, lane.title)}
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
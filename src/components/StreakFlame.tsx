@@ -0,0 +1,35 @@
+/**
+ * StreakFlame - Header badge with the child's run of days in a row
+ * Dims until something is completed today, and shows a snowflake when a freeze saved the run
+ */
+
+import { useStore } from '@nanostores/react';
+import { $streak } from '../stores/progressStore';
+
+export default function StreakFlame() {
+  const streak = useStore($streak);
+
+  if (streak.current === 0) return null;
+
+  const frozen = streak.frozenDays.length;
+  const title = [
+    `${streak.current} ${streak.current === 1 ? 'day' : 'days'} in a row`,
+    streak.completedToday ? null : 'Finish something today to keep it going!',
+    frozen > 0 ? `A streak freeze saved ${frozen} ${frozen === 1 ? 'day' : 'days'}` : null,
+  ].filter(Boolean).join(' • ');
+
+  return (
+    <span
+      title={title}
+      className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-bold border transition-all
+        ${streak.completedToday
+          ? 'bg-orange-500/20 border-orange-500/50 text-orange-300'
+          : 'bg-gray-800/60 border-gray-700/50 text-gray-400'
+        }`}
+    >
+      <span className={`text-lg ${streak.completedToday ? '' : 'grayscale opacity-70'}`}>🔥</span>
+      <span>{streak.current}</span>
+      {frozen > 0 && <span className="text-xs" aria-label="Streak freeze used">❄️</span>}
+    </span>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * SyncIndicator - Small header badge showing whether progress has reached the server
+ * Hidden while everything is synced, so children only see it when it matters
+ */
+
+import { useStore } from '@nanostores/react';
+import { $syncStatus, $syncQueue, flushSyncQueue } from '../stores/syncStore';
+
+export default function SyncIndicator() {
+  const status = useStore($syncStatus);
+  const queue = useStore($syncQueue);
+
+  if (status === 'synced') return null;
+
+  const waiting = queue.filter(event => event.type === 'progress').length;
+
+  if (status === 'offline') {
+    return (
+      <button
+        onClick={() => flushSyncQueue()}
+        title="Progress is saved on this device and will sync when you're back online"
+        className="flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium
+                  bg-orange-500/20 border border-orange-500/50 text-orange-300
+                  hover:bg-orange-500/30 transition-all"
+      >
+        <span className="w-2 h-2 rounded-full bg-orange-400" />
+        <span className="hidden sm:inline">Offline</span>
+        {waiting > 0 && <span className="text-xs opacity-80">{waiting} waiting</span>}
+      </button>
+    );
+  }
+
+  return (
+    <span
+      title="Saving progress..."
+      className="flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-medium
+                bg-gray-800/60 border border-gray-700/50 text-gray-300"
+    >
+      <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+      <span className="hidden sm:inline">Saving...</span>
+    </span>
+  );
+}
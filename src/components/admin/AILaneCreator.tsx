@@ -1,6 +1,8 @@
 // AI Lane Creator Component
 import { useState, useRef, useEffect } from 'react';
 import { createLane, createItem } from '../../lib/firestore';
+import { getAgeInYears } from '../../lib/ageLevel';
+import { adminApiRequest } from '../../stores/profileStore';
 import type { Profile, LaneCategory } from '../../types';
 
 interface GeneratedItem {
@@ -72,23 +74,13 @@ export default function AILaneCreator({ profile, onClose, onSuccess }: AILaneCre
     setGeneratedLane(null);
 
     try {
-      const response = await fetch('/api/generate-lane', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: prompt.trim(),
-          profileName: profile.displayName,
-          ageLevel: profile.ageLevel || 'elementary',
-          maxVideos,
-        }),
+      const data = await adminApiRequest<GeneratedLane>('/api/generate-lane', {
+        prompt: prompt.trim(),
+        profileName: profile.displayName,
+        ageLevel: profile.ageLevel || 'elementary',
+        targetAge: getAgeInYears(profile.birthdate) ?? undefined,
+        maxVideos,
       });
-
-      if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || 'Failed to generate lane');
-      }
-
-      const data = await response.json();
       
       // Add selected property to each item
       const laneWithSelections: GeneratedLane = {
@@ -136,6 +128,7 @@ export default function AILaneCreator({ profile, onClose, onSuccess }: AILaneCre
         category: generatedLane.category,
         isActive: true,
         sortOrder: 100, // Will be at the end
+        ageLevel: profile.ageLevel || 'elementary',
       });
 
       // Add each selected item
@@ -1,61 +1,113 @@
 /**
- * Admin Dashboard - Main admin interface for managing lanes and content
+ * Admin Dashboard - Main admin interface for managing lanes, content and profiles
  */
 
 import { useState, useEffect } from 'react';
 import { useStore } from '@nanostores/react';
-import { $currentProfile, $isAdmin, initializeProfileStore } from '../../stores/profileStore';
-import { getAllProfiles, clearWatchHistoryForProfile, clearBadgesForProfile } from '../../lib/firestore';
+import { $currentProfile, $isAdmin, $guardianRole, initializeProfileStore } from '../../stores/profileStore';
+import { $household, $householdReady, initializeHouseholdStore, signOutParent } from '../../stores/householdStore';
+import { initializeAutoLock } from '../../stores/lockStore';
+import { initializeClock } from '../../stores/clockStore';
+import { getAllProfiles, syncAgeLevels, clearWatchHistoryForProfile, clearBadgesForProfile } from '../../lib/firestore';
 import type { Profile } from '../../types';
+import { hasPermission, isGuardianRole, ROLE_LABELS, type Permission } from '../../lib/permissions';
 import ProfileLaneManager from './ProfileLaneManager';
+import ProfileManager from './ProfileManager';
+import SettingsPanel from './SettingsPanel';
+import QuietHoursSettings from './QuietHoursSettings';
+import PauseButton from './PauseButton';
+import ScreenTimeManager from './ScreenTimeManager';
+import WatchTimeline from './WatchTimeline';
+import XpLedger from './XpLedger';
+import ReportsPanel from './ReportsPanel';
+import DataExport from './DataExport';
+import SmartLaneSettings from './SmartLaneSettings';
+import StreakSettings from './StreakSettings';
+import BadgeManager from './BadgeManager';
+import BadgeRecalculation from './BadgeRecalculation';
+import RewardManager from './RewardManager';
+import AgeLevelReview from './AgeLevelReview';
+import Avatar from '../Avatar';
 import { clearProgress } from '../../stores/progressStore';
 
+type AdminTab = 'lanes' | 'profiles' | 'badges' | 'rewards' | 'activity' | 'reports' | 'screen_time' | 'settings';
+
+// Each tab is only shown to guardians whose role grants its permission
+const ADMIN_TABS: { id: AdminTab; label: string; permission: Permission }[] = [
+  { id: 'lanes', label: 'Lanes & Content', permission: 'edit_content' },
+  { id: 'profiles', label: 'Profiles', permission: 'manage_profiles' },
+  { id: 'badges', label: 'Badges', permission: 'edit_content' },
+  { id: 'rewards', label: 'Rewards', permission: 'manage_limits' },
+  { id: 'activity', label: 'Activity', permission: 'view_reports' },
+  { id: 'reports', label: 'Reports', permission: 'view_reports' },
+  { id: 'screen_time', label: 'Screen Time', permission: 'manage_limits' },
+  { id: 'settings', label: 'Settings', permission: 'manage_limits' },
+];
+
 export default function AdminDashboard() {
   const currentProfile = useStore($currentProfile);
   const isAdmin = useStore($isAdmin);
+  const guardianRole = useStore($guardianRole);
+  const household = useStore($household);
+  const householdReady = useStore($householdReady);
   const [profiles, setProfiles] = useState<Profile[]>([]);
   const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [initialized, setInitialized] = useState(false);
   const [devMessage, setDevMessage] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<AdminTab>('lanes');
+  const [reviewCount, setReviewCount] = useState(0); // Remounts the lane manager after an age level review
 
-  // Initialize profile store from localStorage
+  // Initialize auth state and profile store from localStorage
   useEffect(() => {
+    initializeHouseholdStore();
     initializeProfileStore();
+    initializeAutoLock();
+    initializeClock();
     setInitialized(true);
   }, []);
 
-  // Load profiles after initialization
-  useEffect(() => {
-    if (!initialized) return;
-    
-    async function loadProfiles() {
-      try {
-        const allProfiles = await getAllProfiles();
-        setProfiles(allProfiles);
-        // Default to first non-admin profile or first profile
+  // Load (or reload) the household's profiles
+  const loadProfiles = async () => {
+    try {
+      // Children whose birthdate crossed a level boundary move up here
+      const allProfiles = await syncAgeLevels(await getAllProfiles());
+      setProfiles(allProfiles);
+      // Keep the current selection if it still exists, else default to first child or first profile
+      setSelectedProfileId((selectedId) => {
+        if (selectedId && allProfiles.some(p => p.id === selectedId)) return selectedId;
         const defaultProfile = allProfiles.find(p => p.role === 'child') || allProfiles[0];
-        if (defaultProfile) {
-          setSelectedProfileId(defaultProfile.id);
-        }
-      } catch (error) {
-        console.error('Failed to load profiles:', error);
-      } finally {
-        setLoading(false);
-      }
+        return defaultProfile?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Failed to load profiles:', error);
+    } finally {
+      setLoading(false);
     }
+  };
+
+  // Load profiles once the household is known
+  useEffect(() => {
+    if (!initialized || !household) return;
     loadProfiles();
-  }, [initialized]);
+  }, [initialized, household?.id]);
 
-  // Redirect to home if not admin (must be before any early returns!)
+  // Redirect to home if not admin or signed out (must be before any early returns!)
   useEffect(() => {
-    if (initialized && !isAdmin) {
+    if (initialized && householdReady && (!isAdmin || !household)) {
       window.location.href = '/';
     }
-  }, [initialized, isAdmin]);
+  }, [initialized, householdReady, isAdmin, household]);
+
+  // Handle parent sign-out - back to the household sign-in screen
+  const handleSignOut = async () => {
+    if (!confirm('Sign out of this household on this device?')) return;
+    await signOutParent();
+    window.location.href = '/';
+  };
 
   // Show loading while initializing or if not admin (redirecting)
-  if (!initialized || !isAdmin) {
+  if (!initialized || !householdReady || !isAdmin || !household) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
         <div className="w-16 h-16 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
@@ -64,6 +116,7 @@ export default function AdminDashboard() {
   }
 
   const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+  const visibleTabs = ADMIN_TABS.filter(tab => hasPermission(guardianRole, tab.permission));
 
   return (
     <div className="min-h-screen bg-gray-900">
@@ -82,7 +135,7 @@ export default function AdminDashboard() {
             </a>
             <div>
               <h1 className="text-xl font-bold text-white">Admin Dashboard</h1>
-              <p className="text-sm text-gray-500">Manage lanes and content</p>
+              <p className="text-sm text-gray-500">{household.name}</p>
             </div>
           </div>
 
@@ -90,8 +143,9 @@ export default function AdminDashboard() {
           <div className="flex items-center gap-4">
             <div className="text-right hidden sm:block">
               <p className="text-white font-medium">{currentProfile?.displayName}</p>
-              <p className="text-amber-500 text-sm">Admin</p>
+              <p className="text-amber-500 text-sm">{guardianRole && ROLE_LABELS[guardianRole]}</p>
             </div>
+            {hasPermission(guardianRole, 'manage_limits') && <PauseButton />}
             <a
               href="/"
               className="flex items-center gap-2 px-4 py-2 rounded-xl
@@ -104,6 +158,19 @@ export default function AdminDashboard() {
               </svg>
               <span className="hidden sm:inline">Back to Dashboard</span>
             </a>
+            <button
+              onClick={handleSignOut}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl
+                        bg-gray-800/60 border border-gray-700/50
+                        text-gray-400 hover:text-red-400 hover:bg-gray-800
+                        hover:border-red-500/50 transition-all"
+              title="Sign out of household"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1" />
+              </svg>
+              <span className="hidden sm:inline">Sign Out</span>
+            </button>
           </div>
         </div>
       </header>
@@ -116,123 +183,201 @@ export default function AdminDashboard() {
           </div>
         ) : (
           <div className="max-w-7xl mx-auto">
-            {/* Profile Selector */}
-            <div className="mb-8">
-              <label className="block text-sm font-medium text-gray-400 mb-3">
-                Managing content for:
-              </label>
-              <div className="flex flex-wrap gap-3">
-                {profiles.map((profile) => (
-                  <button
+            {/* Section Tabs */}
+            <div className="flex gap-2 mb-8 border-b border-gray-800">
+              {visibleTabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-3 -mb-px border-b-2 font-medium transition-colors
+                    ${activeTab === tab.id
+                      ? 'border-amber-500 text-white'
+                      : 'border-transparent text-gray-500 hover:text-gray-300'
+                    }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {activeTab === 'profiles' && hasPermission(guardianRole, 'manage_profiles') && (
+              <ProfileManager profiles={profiles} onProfilesChanged={loadProfiles} />
+            )}
+
+            {activeTab === 'badges' && hasPermission(guardianRole, 'edit_content') && (
+              <div className="space-y-6">
+                <BadgeManager profiles={profiles} />
+                {hasPermission(guardianRole, 'reset_progress') && <BadgeRecalculation profiles={profiles} />}
+              </div>
+            )}
+
+            {activeTab === 'rewards' && hasPermission(guardianRole, 'manage_limits') && (
+              <RewardManager profiles={profiles} />
+            )}
+
+            {activeTab === 'activity' && hasPermission(guardianRole, 'view_reports') && (
+              <div className="space-y-6">
+                <WatchTimeline profiles={profiles} />
+                <XpLedger profiles={profiles} />
+              </div>
+            )}
+
+            {activeTab === 'reports' && hasPermission(guardianRole, 'view_reports') && (
+              <div className="space-y-6">
+                <ReportsPanel profiles={profiles} />
+                <DataExport profiles={profiles} />
+              </div>
+            )}
+
+            {activeTab === 'screen_time' && hasPermission(guardianRole, 'manage_limits') && (
+              <ScreenTimeManager profiles={profiles} onProfilesChanged={loadProfiles} />
+            )}
+
+            {activeTab === 'settings' && hasPermission(guardianRole, 'manage_limits') && (
+              <div className="space-y-6">
+                <QuietHoursSettings />
+                <SettingsPanel />
+              </div>
+            )}
+
+            {activeTab === 'lanes' && hasPermission(guardianRole, 'edit_content') && (
+              <>
+                {/* Children who moved up an age level */}
+                {profiles.filter(profile => profile.previousAgeLevel).map((profile) => (
+                  <AgeLevelReview
                     key={profile.id}
-                    onClick={() => setSelectedProfileId(profile.id)}
-                    className={`flex items-center gap-3 px-4 py-3 rounded-xl border transition-all
-                      ${selectedProfileId === profile.id
-                        ? 'bg-amber-500/20 border-amber-500 text-white'
-                        : 'bg-gray-800/40 border-gray-700/50 text-gray-400 hover:bg-gray-800/60 hover:text-white'
-                      }`}
-                  >
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg font-bold
-                      ${selectedProfileId === profile.id
-                        ? 'bg-amber-500 text-gray-900'
-                        : 'bg-gray-700 text-white'
-                      }`}
-                    >
-                      {profile.displayName.charAt(0).toUpperCase()}
-                    </div>
-                    <div className="text-left">
-                      <p className="font-medium">{profile.displayName}</p>
-                      <p className="text-xs text-gray-500">
-                        {profile.role === 'admin' ? 'Admin' : `Child • ${profile.ageLevel || 'No age set'}`}
-                      </p>
-                    </div>
-                  </button>
+                    profile={profile}
+                    onReviewed={() => {
+                      setReviewCount(count => count + 1);
+                      loadProfiles();
+                    }}
+                  />
                 ))}
-              </div>
-            </div>
 
-            {/* Dev Tools */}
-            {selectedProfile && selectedProfile.role === 'child' && (
-              <div className="mb-8 p-4 rounded-xl bg-red-500/10 border border-red-500/30">
-                <div className="flex items-center gap-2 mb-3">
-                  <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                  </svg>
-                  <h3 className="text-red-400 font-bold">Dev Tools</h3>
-                  <span className="text-red-400/60 text-xs">(for {selectedProfile.displayName})</span>
+                {/* Profile Selector */}
+                <div className="mb-8">
+                  <label className="block text-sm font-medium text-gray-400 mb-3">
+                    Managing content for:
+                  </label>
+                  <div className="flex flex-wrap gap-3">
+                    {profiles.map((profile) => (
+                      <button
+                        key={profile.id}
+                        onClick={() => setSelectedProfileId(profile.id)}
+                        className={`flex items-center gap-3 px-4 py-3 rounded-xl border transition-all
+                          ${selectedProfileId === profile.id
+                            ? 'bg-amber-500/20 border-amber-500 text-white'
+                            : 'bg-gray-800/40 border-gray-700/50 text-gray-400 hover:bg-gray-800/60 hover:text-white'
+                          }`}
+                      >
+                        <Avatar
+                          displayName={profile.displayName}
+                          avatarUrl={profile.avatarUrl}
+                          className={`w-10 h-10 text-lg ${selectedProfileId === profile.id ? 'ring-2 ring-amber-500' : ''}`}
+                        />
+                        <div className="text-left">
+                          <p className="font-medium">{profile.displayName}</p>
+                          <p className="text-xs text-gray-500">
+                            {isGuardianRole(profile.role) ? ROLE_LABELS[profile.role] : `Child • ${profile.ageLevel || 'No age set'}`}
+                          </p>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
                 </div>
+
+                {/* Dev Tools */}
+                {selectedProfile && selectedProfile.role === 'child' && hasPermission(guardianRole, 'reset_progress') && (
+                  <div className="mb-8 p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+                    <div className="flex items-center gap-2 mb-3">
+                      <svg className="w-5 h-5 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                      </svg>
+                      <h3 className="text-red-400 font-bold">Dev Tools</h3>
+                      <span className="text-red-400/60 text-xs">(for {selectedProfile.displayName})</span>
+                    </div>
                 
-                {devMessage && (
-                  <div className="mb-3 p-2 rounded-lg bg-green-500/20 text-green-400 text-sm">
-                    {devMessage}
-                  </div>
-                )}
+                    {devMessage && (
+                      <div className="mb-3 p-2 rounded-lg bg-green-500/20 text-green-400 text-sm">
+                        {devMessage}
+                      </div>
+                    )}
                 
-                <div className="flex flex-wrap gap-3">
-                  <button
-                    onClick={async () => {
-                      if (!confirm(`Clear ALL watch history for ${selectedProfile.displayName}?`)) return;
-                      const count = await clearWatchHistoryForProfile(selectedProfile.id);
-                      clearProgress(); // Clear local state too
-                      setDevMessage(`✅ Cleared ${count} watch records for ${selectedProfile.displayName}`);
-                      setTimeout(() => setDevMessage(null), 3000);
-                    }}
-                    className="px-4 py-2 rounded-lg bg-red-500/20 border border-red-500/50 
-                             text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all
-                             flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                    </svg>
-                    Clear Watch History
-                  </button>
+                    <div className="flex flex-wrap gap-3">
+                      <button
+                        onClick={async () => {
+                          if (!confirm(`Clear ALL watch history for ${selectedProfile.displayName}?`)) return;
+                          const count = await clearWatchHistoryForProfile(selectedProfile.id);
+                          clearProgress(); // Clear local state too
+                          setDevMessage(`✅ Cleared ${count} watch records for ${selectedProfile.displayName}`);
+                          setTimeout(() => setDevMessage(null), 3000);
+                        }}
+                        className="px-4 py-2 rounded-lg bg-red-500/20 border border-red-500/50 
+                                 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all
+                                 flex items-center gap-2"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                        Clear Watch History
+                      </button>
                   
-                  <button
-                    onClick={async () => {
-                      if (!confirm(`Clear ALL badges for ${selectedProfile.displayName}?`)) return;
-                      const count = await clearBadgesForProfile(selectedProfile.id);
-                      clearProgress(); // Clear local state too
-                      setDevMessage(`✅ Cleared ${count} badges for ${selectedProfile.displayName}`);
-                      setTimeout(() => setDevMessage(null), 3000);
-                    }}
-                    className="px-4 py-2 rounded-lg bg-red-500/20 border border-red-500/50 
-                             text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all
-                             flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z" />
-                    </svg>
-                    Clear Badges
-                  </button>
+                      <button
+                        onClick={async () => {
+                          if (!confirm(`Clear ALL badges for ${selectedProfile.displayName}?`)) return;
+                          const count = await clearBadgesForProfile(selectedProfile.id);
+                          clearProgress(); // Clear local state too
+                          setDevMessage(`✅ Cleared ${count} badges for ${selectedProfile.displayName}`);
+                          setTimeout(() => setDevMessage(null), 3000);
+                        }}
+                        className="px-4 py-2 rounded-lg bg-red-500/20 border border-red-500/50 
+                                 text-red-400 hover:bg-red-500/30 hover:text-red-300 transition-all
+                                 flex items-center gap-2"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4M7.835 4.697a3.42 3.42 0 001.946-.806 3.42 3.42 0 014.438 0 3.42 3.42 0 001.946.806 3.42 3.42 0 013.138 3.138 3.42 3.42 0 00.806 1.946 3.42 3.42 0 010 4.438 3.42 3.42 0 00-.806 1.946 3.42 3.42 0 01-3.138 3.138 3.42 3.42 0 00-1.946.806 3.42 3.42 0 01-4.438 0 3.42 3.42 0 00-1.946-.806 3.42 3.42 0 01-3.138-3.138 3.42 3.42 0 00-.806-1.946 3.42 3.42 0 010-4.438 3.42 3.42 0 00.806-1.946 3.42 3.42 0 013.138-3.138z" />
+                        </svg>
+                        Clear Badges
+                      </button>
                   
-                  <button
-                    onClick={async () => {
-                      if (!confirm(`Clear ALL progress (watches + badges) for ${selectedProfile.displayName}?`)) return;
-                      const watchCount = await clearWatchHistoryForProfile(selectedProfile.id);
-                      const badgeCount = await clearBadgesForProfile(selectedProfile.id);
-                      clearProgress(); // Clear local state too
-                      setDevMessage(`✅ Cleared ${watchCount} watches and ${badgeCount} badges for ${selectedProfile.displayName}`);
-                      setTimeout(() => setDevMessage(null), 3000);
-                    }}
-                    className="px-4 py-2 rounded-lg bg-red-600/30 border border-red-500/50 
-                             text-red-300 hover:bg-red-600/40 hover:text-red-200 transition-all
-                             flex items-center gap-2 font-medium"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-                    </svg>
-                    Reset All Progress
-                  </button>
-                </div>
-              </div>
-            )}
+                      <button
+                        onClick={async () => {
+                          if (!confirm(`Clear ALL progress (watches + badges) for ${selectedProfile.displayName}?`)) return;
+                          const watchCount = await clearWatchHistoryForProfile(selectedProfile.id);
+                          const badgeCount = await clearBadgesForProfile(selectedProfile.id);
+                          clearProgress(); // Clear local state too
+                          setDevMessage(`✅ Cleared ${watchCount} watches and ${badgeCount} badges for ${selectedProfile.displayName}`);
+                          setTimeout(() => setDevMessage(null), 3000);
+                        }}
+                        className="px-4 py-2 rounded-lg bg-red-600/30 border border-red-500/50 
+                                 text-red-300 hover:bg-red-600/40 hover:text-red-200 transition-all
+                                 flex items-center gap-2 font-medium"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                        </svg>
+                        Reset All Progress
+                      </button>
+                    </div>
+                  </div>
+                )}
 
-            {/* Lane Manager */}
-            {selectedProfile && (
-              <ProfileLaneManager 
-                profile={selectedProfile} 
-                key={selectedProfile.id} 
-              />
+                {/* Smart Lanes & Streaks */}
+                {selectedProfile && selectedProfile.role === 'child' && (
+                  <>
+                    <SmartLaneSettings profile={selectedProfile} onSaved={loadProfiles} />
+                    <StreakSettings profile={selectedProfile} onSaved={loadProfiles} />
+                  </>
+                )}
+
+                {/* Lane Manager */}
+                {selectedProfile && (
+                  <ProfileLaneManager 
+                    profile={selectedProfile} 
+                    key={`${selectedProfile.id}-${reviewCount}`}
+                  />
+                )}
+              </>
             )}
           </div>
         )}
@@ -0,0 +1,124 @@
+/**
+ * AgeLevelReview - Warns that a child moved up an age level and lists
+ * the lanes curated for their old level so a parent can keep or hide them
+ */
+
+import { useState, useEffect } from 'react';
+import type { Profile, Lane } from '../../types';
+import { getLanesForProfile, updateLane, updateProfile } from '../../lib/firestore';
+import { AGE_LEVEL_LABELS, getAgeInYears } from '../../lib/ageLevel';
+
+interface AgeLevelReviewProps {
+  profile: Profile;
+  onReviewed: () => void;
+}
+
+export default function AgeLevelReview({ profile, onReviewed }: AgeLevelReviewProps) {
+  const [lanes, setLanes] = useState<Lane[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const previousAgeLevel = profile.previousAgeLevel;
+  const age = getAgeInYears(profile.birthdate);
+
+  // Lanes tagged for the level the child just left
+  useEffect(() => {
+    async function loadLanes() {
+      setLoading(true);
+      try {
+        const profileLanes = await getLanesForProfile(profile.id, true);
+        setLanes(profileLanes.filter(lane => lane.isActive && lane.ageLevel === previousAgeLevel));
+      } catch (error) {
+        console.error('Failed to load lanes for review:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    loadLanes();
+  }, [profile.id, previousAgeLevel]);
+
+  // Keep: re-tag the lane for the new level
+  const handleKeep = async (lane: Lane) => {
+    try {
+      await updateLane(lane.id, { ageLevel: profile.ageLevel });
+      setLanes(lanes.filter(l => l.id !== lane.id));
+    } catch (error) {
+      console.error('Failed to keep lane:', error);
+    }
+  };
+
+  // Hide: deactivate the lane (it can be re-activated from the lane list)
+  const handleHide = async (lane: Lane) => {
+    try {
+      await updateLane(lane.id, { isActive: false });
+      setLanes(lanes.filter(l => l.id !== lane.id));
+    } catch (error) {
+      console.error('Failed to hide lane:', error);
+    }
+  };
+
+  const handleDone = async () => {
+    setSaving(true);
+    try {
+      await updateProfile(profile.id, { previousAgeLevel: undefined });
+      onReviewed();
+    } catch (error) {
+      console.error('Failed to finish age level review:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!previousAgeLevel) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/40">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-amber-400 font-bold">
+            🎂 {profile.displayName} moved up to {AGE_LEVEL_LABELS[profile.ageLevel]}
+          </h3>
+          <p className="text-sm text-gray-400">
+            {age !== null && `Now ${age} years old. `}
+            New AI lanes will use the {profile.ageLevel} guidelines.
+            {!loading && lanes.length > 0 && ` These lanes were picked for the ${previousAgeLevel} level - keep or hide them:`}
+          </p>
+        </div>
+        <button
+          onClick={handleDone}
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg flex-shrink-0
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Done Reviewing'}
+        </button>
+      </div>
+
+      {!loading && lanes.length > 0 && (
+        <div className="mt-3 divide-y divide-gray-700/50 rounded-lg bg-gray-900/40">
+          {lanes.map(lane => (
+            <div key={lane.id} className="p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-medium truncate">{lane.title}</p>
+                <p className="text-xs text-gray-500">{lane.category}</p>
+              </div>
+              <button
+                onClick={() => handleKeep(lane)}
+                className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                Keep
+              </button>
+              <button
+                onClick={() => handleHide(lane)}
+                className="px-3 py-1.5 text-sm bg-red-500/20 border border-red-500/50 text-red-400 rounded-lg
+                         hover:bg-red-500/30 transition-colors"
+              >
+                Hide
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * AvatarPicker - Choose a built-in illustrated avatar or upload a photo
+ */
+
+import { useRef, useState } from 'react';
+import { BUILT_IN_AVATARS, AVATAR_UPLOAD_TYPES, MAX_AVATAR_UPLOAD_BYTES } from '../../lib/avatars';
+import { adminApiUpload } from '../../stores/profileStore';
+import Avatar from '../Avatar';
+
+interface AvatarPickerProps {
+  displayName: string;
+  value: string;
+  onChange: (avatarUrl: string) => void;
+}
+
+export default function AvatarPicker({ displayName, value, onChange }: AvatarPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    if (!AVATAR_UPLOAD_TYPES[file.type]) {
+      setError('Photos must be PNG, JPEG, WebP or GIF');
+      return;
+    }
+    if (file.size > MAX_AVATAR_UPLOAD_BYTES) {
+      setError('Photos must be 2 MB or smaller');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const { url } = await adminApiUpload<{ url: string }>('/api/avatar-upload', file);
+      onChange(url);
+    } catch (err) {
+      console.error('Failed to upload avatar:', err);
+      setError('Upload failed. Please try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const isBuiltIn = BUILT_IN_AVATARS.some(avatar => avatar.url === value);
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-3">
+        <Avatar displayName={displayName || '?'} avatarUrl={value} className="w-16 h-16 text-2xl" />
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600
+                     disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {uploading ? 'Uploading...' : 'Upload Photo'}
+          </button>
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange('')}
+              className="px-3 py-1.5 text-sm text-gray-400 rounded-lg hover:text-white hover:bg-gray-700 transition-colors"
+            >
+              Use Initial
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={Object.keys(AVATAR_UPLOAD_TYPES).join(',')}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {BUILT_IN_AVATARS.map(avatar => (
+          <button
+            key={avatar.id}
+            type="button"
+            onClick={() => onChange(avatar.url)}
+            title={avatar.name}
+            className={`w-12 h-12 rounded-full overflow-hidden border-2 transition-all
+              ${value === avatar.url
+                ? 'border-amber-500 scale-110'
+                : 'border-transparent opacity-70 hover:opacity-100'
+              }`}
+          >
+            <img src={avatar.url} alt={avatar.name} className="w-full h-full" />
+          </button>
+        ))}
+      </div>
+      {value && !isBuiltIn && (
+        <p className="text-xs text-gray-500 mt-2">Using an uploaded photo</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,461 @@
+/**
+ * BadgeManager - The family's own badges (e.g. "Dinosaur Expert"), built from
+ * conditions like completion counts, a lane or category, streaks and time windows
+ * Built-in badges are listed read-only so parents can see how they're earned
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Profile, Lane, BadgeDefinition, BadgeCondition, LaneCategory } from '../../types';
+import { BADGE_DEFINITIONS, LANE_CATEGORIES } from '../../types';
+import { getCustomBadges, saveCustomBadge, deleteCustomBadge, getLanesForProfile } from '../../lib/firestore';
+import { describeCondition } from '../../lib/badgeRules';
+import { DAY_LABELS, WEEKDAYS } from '../../lib/schedule';
+import { hasPermission } from '../../lib/permissions';
+import { $guardianRole, adminApiUpload } from '../../stores/profileStore';
+import BadgeIcon from '../BadgeIcon';
+
+interface BadgeManagerProps {
+  profiles: Profile[];
+}
+
+type ConditionType = BadgeCondition['type'];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  completed_count: 'Items completed',
+  lane_complete: 'Finish a lane',
+  category_count: 'Items in a category',
+  categories_explored: 'Categories explored',
+  streak: 'Days in a row',
+  time_window: 'At certain times',
+};
+
+const DEFAULT_CONDITIONS: Record<ConditionType, BadgeCondition> = {
+  completed_count: { type: 'completed_count', count: 10 },
+  lane_complete: { type: 'lane_complete' },
+  category_count: { type: 'category_count', category: 'Science', count: 5 },
+  categories_explored: { type: 'categories_explored', count: 3 },
+  streak: { type: 'streak', days: 3 },
+  time_window: { type: 'time_window', window: { days: WEEKDAYS, start: '07:00', end: '09:00' }, count: 5 },
+};
+
+const emptyBadge = (): BadgeDefinition => ({
+  type: `custom-${uuidv4()}`,
+  name: '',
+  description: '',
+  icon: '🏅',
+  conditions: [{ type: 'category_count', category: 'Science', count: 5 }],
+});
+
+const inputClass = `px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+  placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500`;
+
+export default function BadgeManager({ profiles }: BadgeManagerProps) {
+  const guardianRole = useStore($guardianRole);
+  const canEdit = hasPermission(guardianRole, 'edit_content');
+  const canDelete = hasPermission(guardianRole, 'delete_content');
+
+  const [badges, setBadges] = useState<BadgeDefinition[]>([]);
+  const [lanes, setLanes] = useState<(Lane & { profileName: string })[]>([]);
+  const [editing, setEditing] = useState<BadgeDefinition | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBadges = async () => {
+    setBadges(await getCustomBadges());
+  };
+
+  useEffect(() => {
+    loadBadges();
+  }, []);
+
+  // Lanes across every child, for "finish a lane" conditions
+  useEffect(() => {
+    const children = profiles.filter(p => p.role === 'child');
+    Promise.all(children.map(async (child) =>
+      (await getLanesForProfile(child.id, true)).map(lane => ({ ...lane, profileName: child.displayName }))
+    ))
+      .then(results => setLanes(results.flat()))
+      .catch(err => console.error('Failed to load lanes for badges:', err));
+  }, [profiles]);
+
+  const laneTitles = new Map(lanes.map(lane => [lane.id, lane.title]));
+
+  const updateEditing = (updates: Partial<BadgeDefinition>) => {
+    if (editing) setEditing({ ...editing, ...updates });
+  };
+
+  const updateCondition = (index: number, condition: BadgeCondition) => {
+    if (!editing) return;
+    updateEditing({ conditions: editing.conditions.map((c, i) => i === index ? condition : c) });
+  };
+
+  const handleArtwork = async (file: File) => {
+    setUploading(true);
+    setError(null);
+    try {
+      const { url } = await adminApiUpload<{ url: string }>('/api/badge-art-upload', file);
+      updateEditing({ imageUrl: url });
+    } catch (err) {
+      console.error('Failed to upload badge artwork:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload artwork');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      setError('Give the badge a name');
+      return;
+    }
+    if (editing.conditions.length === 0) {
+      setError('Add at least one condition');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveCustomBadge({
+        ...editing,
+        name: editing.name.trim(),
+        description: editing.description.trim() || editing.conditions.map(c => describeCondition(c, laneTitles)).join(', '),
+        icon: editing.icon.trim() || '🏅',
+      });
+      setEditing(null);
+      await loadBadges();
+    } catch (err) {
+      console.error('Failed to save badge:', err);
+      setError('Failed to save badge. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (badge: BadgeDefinition) => {
+    if (!confirm(`Delete "${badge.name}"? Children who earned it will no longer see it.`)) return;
+    try {
+      await deleteCustomBadge(badge.type);
+      await loadBadges();
+    } catch (err) {
+      console.error('Failed to delete badge:', err);
+      setError('Failed to delete badge. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-700/50 flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Family Badges</h2>
+            <p className="text-sm text-gray-500">Badges of your own, earned automatically when their conditions are met.</p>
+          </div>
+          {canEdit && !editing && (
+            <button
+              onClick={() => { setError(null); setEditing(emptyBadge()); }}
+              className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg hover:bg-amber-400 transition-colors"
+            >
+              + New Badge
+            </button>
+          )}
+        </div>
+
+        {error && <p className="mx-4 mt-4 text-red-400 text-sm">{error}</p>}
+
+        {/* Editor */}
+        {editing && (
+          <div className="p-4 border-b border-gray-700/50 space-y-4">
+            <div className="flex flex-wrap gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Icon</label>
+                <input
+                  type="text"
+                  value={editing.icon}
+                  maxLength={4}
+                  onChange={(e) => updateEditing({ icon: e.target.value })}
+                  className={`${inputClass} w-20 text-center text-xl`}
+                />
+              </div>
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => updateEditing({ name: e.target.value })}
+                  placeholder="Dinosaur Expert"
+                  className={`${inputClass} w-full`}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Description</label>
+              <input
+                type="text"
+                value={editing.description}
+                onChange={(e) => updateEditing({ description: e.target.value })}
+                placeholder="Leave blank to describe the conditions"
+                className={`${inputClass} w-full`}
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <div className="w-16 h-16 rounded-xl bg-gray-900/60 flex items-center justify-center text-3xl">
+                <BadgeIcon badge={editing} className="w-14 h-14" />
+              </div>
+              <label className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors cursor-pointer">
+                {uploading ? 'Uploading...' : editing.imageUrl ? 'Replace artwork' : 'Upload artwork'}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp,image/gif"
+                  className="hidden"
+                  disabled={uploading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleArtwork(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {editing.imageUrl && (
+                <button
+                  onClick={() => updateEditing({ imageUrl: undefined })}
+                  className="text-sm text-gray-400 hover:text-red-400 transition-colors"
+                >
+                  Use icon instead
+                </button>
+              )}
+            </div>
+
+            {/* Conditions */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-2">Earned when all of these are true</label>
+              <div className="space-y-2">
+                {editing.conditions.map((condition, index) => (
+                  <ConditionEditor
+                    key={index}
+                    condition={condition}
+                    lanes={lanes}
+                    onChange={(updated) => updateCondition(index, updated)}
+                    onRemove={() => updateEditing({ conditions: editing.conditions.filter((_, i) => i !== index) })}
+                  />
+                ))}
+              </div>
+              <button
+                onClick={() => updateEditing({ conditions: [...editing.conditions, { ...DEFAULT_CONDITIONS.completed_count }] })}
+                className="mt-2 px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                + Add condition
+              </button>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={saving || uploading}
+                className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                         hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save Badge'}
+              </button>
+              <button
+                onClick={() => { setEditing(null); setError(null); }}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Custom Badges */}
+        <div className="divide-y divide-gray-700/50">
+          {badges.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No family badges yet.</div>
+          ) : (
+            badges.map((badge) => (
+              <BadgeRow key={badge.type} badge={badge} laneTitles={laneTitles}>
+                {canEdit && (
+                  <button
+                    onClick={() => { setError(null); setEditing(badge); }}
+                    className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => handleDelete(badge)}
+                    className="px-3 py-1.5 text-sm text-red-400 rounded-lg hover:bg-red-500/20 transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </BadgeRow>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Built-in Badges */}
+      <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+        <div className="p-4 border-b border-gray-700/50">
+          <h2 className="text-xl font-semibold text-white">Built-in Badges</h2>
+        </div>
+        <div className="divide-y divide-gray-700/50">
+          {BADGE_DEFINITIONS.map((badge) => (
+            <BadgeRow key={badge.type} badge={badge} laneTitles={laneTitles} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BadgeRow({ badge, laneTitles, children }: {
+  badge: BadgeDefinition;
+  laneTitles: Map<string, string>;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="p-4 flex items-center gap-4">
+      <div className="w-12 h-12 rounded-xl bg-gray-900/60 flex items-center justify-center text-2xl flex-shrink-0">
+        <BadgeIcon badge={badge} className="w-10 h-10" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <h4 className="text-white font-medium truncate">{badge.name}</h4>
+        <p className="text-xs text-gray-500">
+          {badge.conditions.map(condition => describeCondition(condition, laneTitles)).join(' • ')}
+        </p>
+      </div>
+      {children && <div className="flex items-center gap-2">{children}</div>}
+    </div>
+  );
+}
+
+function ConditionEditor({ condition, lanes, onChange, onRemove }: {
+  condition: BadgeCondition;
+  lanes: (Lane & { profileName: string })[];
+  onChange: (condition: BadgeCondition) => void;
+  onRemove: () => void;
+}) {
+  const numberInput = (value: number | undefined, update: (value: number) => void, placeholder?: string) => (
+    <input
+      type="number"
+      min={1}
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => update(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+      className={`${inputClass} w-20`}
+    />
+  );
+
+  return (
+    <div className="p-3 bg-gray-900/40 rounded-xl flex flex-wrap items-center gap-2">
+      <select
+        value={condition.type}
+        onChange={(e) => onChange({ ...DEFAULT_CONDITIONS[e.target.value as ConditionType] })}
+        className={inputClass}
+      >
+        {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(type => (
+          <option key={type} value={type}>{CONDITION_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {condition.type === 'completed_count' && (
+        <>{numberInput(condition.count, count => onChange({ ...condition, count }))}<span className="text-sm text-gray-400">items</span></>
+      )}
+
+      {condition.type === 'lane_complete' && (
+        <select
+          value={condition.laneId ?? ''}
+          onChange={(e) => onChange({ type: 'lane_complete', ...(e.target.value && { laneId: e.target.value }) })}
+          className={inputClass}
+        >
+          <option value="">Any lane</option>
+          {lanes.map(lane => (
+            <option key={lane.id} value={lane.id}>{lane.title} ({lane.profileName})</option>
+          ))}
+        </select>
+      )}
+
+      {condition.type === 'category_count' && (
+        <>
+          {numberInput(condition.count, count => onChange({ ...condition, count }))}
+          <span className="text-sm text-gray-400">in</span>
+          <select
+            value={condition.category}
+            onChange={(e) => onChange({ ...condition, category: e.target.value as LaneCategory })}
+            className={inputClass}
+          >
+            {LANE_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+          </select>
+        </>
+      )}
+
+      {condition.type === 'categories_explored' && (
+        <>{numberInput(condition.count, count => onChange({ ...condition, count }))}<span className="text-sm text-gray-400">categories</span></>
+      )}
+
+      {condition.type === 'streak' && (
+        <>{numberInput(condition.days, days => onChange({ ...condition, days }))}<span className="text-sm text-gray-400">days in a row</span></>
+      )}
+
+      {condition.type === 'time_window' && (
+        <>
+          {numberInput(condition.count, count => onChange({ ...condition, count }))}
+          <span className="text-sm text-gray-400">on</span>
+          <div className="flex gap-1">
+            {DAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => {
+                  const { days } = condition.window;
+                  onChange({
+                    ...condition,
+                    window: { ...condition.window, days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() },
+                  });
+                }}
+                className={`w-8 h-8 rounded-lg text-xs font-medium transition-colors
+                  ${condition.window.days.includes(day) ? 'bg-amber-500 text-gray-900' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+              >
+                {label.charAt(0)}
+              </button>
+            ))}
+          </div>
+          <input
+            type="time"
+            value={condition.window.start}
+            onChange={(e) => onChange({ ...condition, window: { ...condition.window, start: e.target.value } })}
+            className={inputClass}
+          />
+          <span className="text-sm text-gray-400">to</span>
+          <input
+            type="time"
+            value={condition.window.end}
+            onChange={(e) => onChange({ ...condition, window: { ...condition.window, end: e.target.value } })}
+            className={inputClass}
+          />
+        </>
+      )}
+
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-auto p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+        title="Remove"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * BadgeRecalculation - Bring a child's badges back in line with their watch history
+ * Replays every watch record against the current badge rules and shows what would
+ * change before anything is written (e.g. after editing a custom badge or clearing history)
+ */
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile } from '../../types';
+import { BADGE_DEFINITIONS } from '../../types';
+import {
+  getLanesForProfile,
+  getItemsForLane,
+  readWatchHistory,
+  getEarnedBadges,
+  readCustomBadges,
+  applyBadgeRecalculation,
+} from '../../lib/firestore';
+import { recalculateBadges, type BadgeRecalculation as Recalculation } from '../../lib/badgeRules';
+import { $household } from '../../stores/householdStore';
+import BadgeIcon from '../BadgeIcon';
+
+interface BadgeRecalculationProps {
+  profiles: Profile[];
+}
+
+export default function BadgeRecalculation({ profiles }: BadgeRecalculationProps) {
+  const household = useStore($household);
+  const children = profiles.filter(p => p.role === 'child');
+
+  const [profileId, setProfileId] = useState<string>(children[0]?.id ?? '');
+  const [recalculation, setRecalculation] = useState<Recalculation | null>(null);
+  const [definitionNames, setDefinitionNames] = useState<Map<string, string>>(new Map());
+  const [revoke, setRevoke] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = children.find(child => child.id === profileId);
+
+  const handleCheck = async () => {
+    if (!profile) return;
+
+    setWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      // Inactive lanes too - what was completed in them still counts
+      const laneList = await getLanesForProfile(profile.id, true);
+      const [lanes, history, earned, customBadges] = await Promise.all([
+        Promise.all(laneList.map(async (lane) => ({ ...lane, items: await getItemsForLane(lane.id) }))),
+        // Reads that fail throw rather than come back empty, which would propose revoking badges
+        readWatchHistory(profile.id),
+        getEarnedBadges(profile.id),
+        readCustomBadges(),
+      ]);
+      const definitions = [...BADGE_DEFINITIONS, ...customBadges];
+      setDefinitionNames(new Map(definitions.map(def => [def.type, def.name])));
+      setRecalculation(recalculateBadges(definitions, {
+        history,
+        lanes,
+        timeZone: household?.settings?.timeZone,
+        streakFreezes: profile.streakFreezes,
+      }, earned));
+      setRevoke(false);
+    } catch (err) {
+      console.error('Badge recalculation failed:', err);
+      setError('Failed to check badges. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!profile || !recalculation) return;
+    if (revoke && recalculation.toRevoke.length > 0 &&
+        !confirm(`Remove ${recalculation.toRevoke.length} badges from ${profile.displayName}?`)) {
+      return;
+    }
+
+    setWorking(true);
+    setError(null);
+    try {
+      const { awarded, revoked } = await applyBadgeRecalculation(profile.id, recalculation, revoke);
+      setMessage(`Awarded ${awarded.length} and removed ${revoked} badges for ${profile.displayName}`);
+      setRecalculation(null);
+    } catch (err) {
+      console.error('Applying badge recalculation failed:', err);
+      setError('Failed to update badges. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const hasChanges = !!recalculation && (recalculation.toAward.length > 0 || recalculation.toRevoke.length > 0);
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Recalculate Badges</h2>
+        <p className="text-sm text-gray-500">
+          Check a child's badges against their whole watch history and today's rules - nothing changes until you apply.
+        </p>
+      </div>
+
+      {children.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No child profiles yet.</div>
+      ) : (
+        <div className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={profileId}
+              onChange={(e) => { setProfileId(e.target.value); setRecalculation(null); setMessage(null); }}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            >
+              {children.map((child) => (
+                <option key={child.id} value={child.id}>{child.displayName}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCheck}
+              disabled={working || !profile}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg
+                       hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {working && !recalculation ? 'Checking...' : 'Check Badges'}
+            </button>
+          </div>
+
+          {recalculation && (
+            <div className="space-y-4">
+              {!hasChanges && (
+                <p className="text-green-400 text-sm">
+                  All {recalculation.unchanged.length} badges match {profile?.displayName}'s history.
+                </p>
+              )}
+
+              {recalculation.toAward.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-400 mb-2">Earned but missing - will be awarded</h3>
+                  <div className="space-y-2">
+                    {recalculation.toAward.map(({ definition, metadata }) => (
+                      <div key={definition.type} className="flex items-center gap-3 p-3 rounded-xl bg-green-500/10 border border-green-500/30">
+                        <span className="text-2xl"><BadgeIcon badge={definition} className="w-8 h-8" /></span>
+                        <span className="flex-1 text-white text-sm">
+                          {definition.name}
+                          {metadata?.laneTitle && <span className="text-gray-400"> ({metadata.laneTitle})</span>}
+                        </span>
+                        <span className="text-green-400 text-sm font-medium">+ Award</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {recalculation.toRevoke.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-400 mb-2">No longer justified by the history</h3>
+                  <div className="space-y-2">
+                    {recalculation.toRevoke.map(({ badge, reason }) => (
+                      <div key={badge.id} className="flex items-center gap-3 p-3 rounded-xl bg-red-500/10 border border-red-500/30">
+                        <span className="flex-1 text-white text-sm">
+                          {definitionNames.get(badge.badgeType) ?? badge.badgeType}
+                          <span className="text-gray-500">
+                            {' '}• {reason === 'removed' ? 'badge was deleted' : 'conditions not met'}
+                            {' '}• earned {badge.earnedAt.toLocaleDateString()}
+                          </span>
+                        </span>
+                        <span className={`text-sm font-medium ${revoke ? 'text-red-400' : 'text-gray-500'}`}>
+                          {revoke ? '− Remove' : 'Keep'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={revoke}
+                      onChange={(e) => setRevoke(e.target.checked)}
+                      className="rounded"
+                    />
+                    Also remove these badges
+                  </label>
+                </div>
+              )}
+
+              {hasChanges && (
+                <button
+                  onClick={handleApply}
+                  disabled={working || (recalculation.toAward.length === 0 && !revoke)}
+                  className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                           hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {working ? 'Applying...' : 'Apply Changes'}
+                </button>
+              )}
+            </div>
+          )}
+
+          {message && <p className="text-green-400 text-sm">{message}</p>}
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * DataExport - Download a profile's learning records (CSV for evaluators, JSON
+ * as a backup) and restore history from a JSON export
+ */
+
+import { useState, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile } from '../../types';
+import { BADGE_DEFINITIONS } from '../../types';
+import {
+  getLanesForProfile,
+  getItemsForLane,
+  getWatchHistory,
+  getEarnedBadges,
+  getCustomBadges,
+  restoreProfileHistory,
+} from '../../lib/firestore';
+import { getDateKey, shiftDateKey } from '../../lib/screenTime';
+import { buildProfileExport, watchHistoryToCsv, badgesToCsv, parseProfileExport } from '../../lib/historyExport';
+import { hasPermission } from '../../lib/permissions';
+import { $guardianRole } from '../../stores/profileStore';
+import { $household } from '../../stores/householdStore';
+import { $householdNow, getServerNow } from '../../stores/clockStore';
+
+interface DataExportProps {
+  profiles: Profile[];
+}
+
+type ExportFormat = 'history_csv' | 'badges_csv' | 'json';
+
+function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toFilePart(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+}
+
+export default function DataExport({ profiles }: DataExportProps) {
+  const guardianRole = useStore($guardianRole);
+  const household = useStore($household);
+  const todayKey = getDateKey(useStore($householdNow));
+  const canRestore = hasPermission(guardianRole, 'reset_progress');
+
+  const [profileId, setProfileId] = useState<string>(profiles.find(p => p.role === 'child')?.id ?? profiles[0]?.id ?? '');
+  const [from, setFrom] = useState(shiftDateKey(todayKey, -29));
+  const [to, setTo] = useState(todayKey);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const profile = profiles.find(p => p.id === profileId);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!profile) return;
+    if (from > to) {
+      setError('The start date must be before the end date');
+      return;
+    }
+
+    setError(null);
+    setMessage(null);
+    setWorking(true);
+    try {
+      const laneList = await getLanesForProfile(profile.id, true);
+      const [lanes, history, badges, customBadges] = await Promise.all([
+        Promise.all(laneList.map(async (lane) => ({ ...lane, items: await getItemsForLane(lane.id) }))),
+        getWatchHistory(profile.id),
+        getEarnedBadges(profile.id),
+        getCustomBadges(),
+      ]);
+      const data = buildProfileExport({
+        profile,
+        lanes,
+        history,
+        badges,
+        badgeDefinitions: [...BADGE_DEFINITIONS, ...customBadges],
+        from,
+        to,
+        timeZone: household?.settings?.timeZone,
+        exportedAt: new Date(getServerNow()),
+      });
+
+      const baseName = `${toFilePart(profile.displayName)}-${from}-to-${to}`;
+      if (format === 'history_csv') {
+        downloadFile(`${baseName}-watch-history.csv`, watchHistoryToCsv(data), 'text/csv');
+      } else if (format === 'badges_csv') {
+        downloadFile(`${baseName}-badges.csv`, badgesToCsv(data), 'text/csv');
+      } else {
+        downloadFile(`${baseName}.json`, JSON.stringify(data, null, 2), 'application/json');
+      }
+      setMessage(`Exported ${data.watchHistory.length} watch records and ${data.badges.length} badges`);
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError('Export failed. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (!profile) return;
+
+    setError(null);
+    setMessage(null);
+    try {
+      const { exportedFor, watchHistory, badges } = parseProfileExport(await file.text(), profile.id);
+      if (!confirm(`Restore ${watchHistory.length} watch records and ${badges.length} badges from ${exportedFor}'s export into ${profile.displayName}? Existing progress is kept and merged.`)) {
+        return;
+      }
+
+      setWorking(true);
+      const restored = await restoreProfileHistory(profile.id, watchHistory, badges);
+      setMessage(`Restored ${restored.records} watch records and ${restored.badges} new badges`);
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(err instanceof Error ? err.message : 'Import failed. Please try again.');
+    } finally {
+      setWorking(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Export & Restore</h2>
+        <p className="text-sm text-gray-500">
+          Learning records for evaluators, or a backup you can restore later.
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-1">Profile</label>
+            <select
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            >
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.displayName}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-400 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleExport('history_csv')}
+            disabled={working || !profile}
+            className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                     hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Watch History (CSV)
+          </button>
+          <button
+            onClick={() => handleExport('badges_csv')}
+            disabled={working || !profile}
+            className="px-4 py-2 bg-gray-700 text-white rounded-lg
+                     hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Badges (CSV)
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={working || !profile}
+            className="px-4 py-2 bg-gray-700 text-white rounded-lg
+                     hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Everything (JSON)
+          </button>
+        </div>
+
+        {canRestore && (
+          <div className="pt-4 border-t border-gray-700/50">
+            <p className="text-sm text-gray-400 mb-2">
+              Restore history from a JSON export into {profile?.displayName ?? 'this profile'}.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              disabled={working || !profile}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+              className="text-sm text-gray-400 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0
+                       file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+            />
+          </div>
+        )}
+
+        {message && <p className="text-green-400 text-sm">{message}</p>}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,20 @@
 /**
- * LaneItemManager - Manages items within a lane
+ * LaneItemManager - Manages items within a lane, their order, and whether the
+ * lane is a free shelf or a step-by-step path
  */
 
 import { useState } from 'react';
-import type { LaneWithItems, LaneItem, ContentType, YouTubeData, WebLinkData } from '../../types';
-import { createItem, updateItem, deleteItem, extractYouTubeVideoId, getYouTubeThumbnail } from '../../lib/firestore';
+import { useStore } from '@nanostores/react';
+import type { Lane, LaneWithItems, LaneItem, LaneMode, ContentType, YouTubeData, WebLinkData } from '../../types';
+import { createItem, updateItem, deleteItem, reorderItems, updateLane, extractYouTubeVideoId, getYouTubeThumbnail } from '../../lib/firestore';
+import { hasPermission } from '../../lib/permissions';
+import { DEFAULT_COMPLETION_THRESHOLD, isValidThreshold } from '../../lib/completion';
+import { $guardianRole } from '../../stores/profileStore';
 
 interface LaneItemManagerProps {
   lane: LaneWithItems;
   onItemsChanged: () => void;
+  onLaneUpdated: (updates: Partial<Lane>) => void;
 }
 
 const categoryColors: Record<string, string> = {
@@ -18,6 +24,9 @@ const categoryColors: Record<string, string> = {
   Creativity: 'from-green-500 to-teal-500',
 };
 
+// Lane-wide thresholds offered besides the default (items can use any value)
+const LANE_THRESHOLDS = [50, 60, 70, 75, 80, 95, 100];
+
 type ItemForm = {
   title: string;
   type: ContentType;
@@ -28,6 +37,7 @@ type ItemForm = {
   loop: boolean;
   allowNavigation: boolean;
   canEmbed: boolean;
+  completionThreshold: string; // '' = use the lane's threshold
 };
 
 const defaultForm: ItemForm = {
@@ -40,9 +50,12 @@ const defaultForm: ItemForm = {
   loop: false,
   allowNavigation: false,
   canEmbed: true, // Default to true - most sites allow embedding
+  completionThreshold: '',
 };
 
-export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManagerProps) {
+export default function LaneItemManager({ lane, onItemsChanged, onLaneUpdated }: LaneItemManagerProps) {
+  const guardianRole = useStore($guardianRole);
+  const canDelete = hasPermission(guardianRole, 'delete_content');
   const [showForm, setShowForm] = useState(false);
   const [editingItem, setEditingItem] = useState<LaneItem | null>(null);
   const [form, setForm] = useState<ItemForm>(defaultForm);
@@ -77,6 +90,7 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
         loop: ytData.loop || false,
         allowNavigation: false,
         canEmbed: true,
+        completionThreshold: item.completionThreshold?.toString() ?? '',
       });
     } else if (item.type === 'web_link') {
       const webData = item.data as WebLinkData;
@@ -90,6 +104,7 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
         loop: false,
         allowNavigation: webData.allowNavigation || false,
         canEmbed: webData.canEmbed !== false, // Default true if not specified
+        completionThreshold: '',
       });
     }
     
@@ -114,6 +129,12 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
       return;
     }
 
+    const completionThreshold = form.completionThreshold.trim() ? Number(form.completionThreshold) : undefined;
+    if (completionThreshold !== undefined && !isValidThreshold(completionThreshold)) {
+      setError('Completion threshold must be a whole percentage from 1 to 100');
+      return;
+    }
+
     setSaving(true);
     try {
       let itemData: Omit<LaneItem, 'id'>;
@@ -146,6 +167,7 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
           thumbnailUrl: getYouTubeThumbnail(videoId),
           type: 'youtube_video',
           data,
+          ...(completionThreshold !== undefined && { completionThreshold }),
         };
       } else if (form.type === 'web_link') {
         if (!form.webUrl.trim()) {
@@ -177,8 +199,8 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
       }
 
       if (isEditing && editingItem) {
-        // Update existing item
-        await updateItem(lane.id, editingItem.id, itemData);
+        // Update existing item (a cleared threshold falls back to the lane's)
+        await updateItem(lane.id, editingItem.id, { ...itemData, completionThreshold });
       } else {
         // Create new item
         await createItem(lane.id, itemData);
@@ -194,7 +216,44 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
     }
   };
 
+  const isPath = lane.mode === 'path';
+
+  const handleThresholdChange = async (value: string) => {
+    const completionThreshold = value ? Number(value) : undefined;
+    try {
+      await updateLane(lane.id, { completionThreshold });
+      onLaneUpdated({ completionThreshold });
+    } catch (err) {
+      console.error('Failed to change completion threshold:', err);
+    }
+  };
+
+  const handleModeChange = async (mode: LaneMode) => {
+    try {
+      await updateLane(lane.id, { mode });
+      onLaneUpdated({ mode });
+    } catch (err) {
+      console.error('Failed to change lane mode:', err);
+    }
+  };
+
+  // Move an item one place up (-1) or down (+1)
+  const handleMoveItem = async (index: number, direction: -1 | 1) => {
+    const itemIds = lane.items.map(item => item.id);
+    const target = index + direction;
+    if (target < 0 || target >= itemIds.length) return;
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+
+    try {
+      await reorderItems(lane.id, itemIds);
+      onItemsChanged();
+    } catch (err) {
+      console.error('Failed to reorder items:', err);
+    }
+  };
+
   const handleDeleteItem = async (item: LaneItem) => {
+    if (!canDelete) return;
     if (!confirm(`Delete "${item.title}"?`)) return;
 
     try {
@@ -220,16 +279,40 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
               </p>
             </div>
           </div>
-          <button
-            onClick={handleAddNew}
-            className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
-                     hover:bg-amber-400 transition-colors"
-          >
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Add Content
-          </button>
+          <div className="flex items-center gap-2">
+            <select
+              value={lane.completionThreshold ?? ''}
+              onChange={(e) => handleThresholdChange(e.target.value)}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white text-sm
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+              title="How much of each video must be watched to count as done"
+            >
+              <option value="">Done at {DEFAULT_COMPLETION_THRESHOLD}%</option>
+              {LANE_THRESHOLDS.map(threshold => (
+                <option key={threshold} value={threshold}>Done at {threshold}%</option>
+              ))}
+            </select>
+            <select
+              value={lane.mode ?? 'shelf'}
+              onChange={(e) => handleModeChange(e.target.value as LaneMode)}
+              className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white text-sm
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+              title="A path unlocks each item once the one before it is completed"
+            >
+              <option value="shelf">Any order</option>
+              <option value="path">Path (in order)</option>
+            </select>
+            <button
+              onClick={handleAddNew}
+              className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                       hover:bg-amber-400 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Add Content
+            </button>
+          </div>
         </div>
       </div>
 
@@ -351,6 +434,22 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
                 />
                 <span className="text-gray-400">Loop video</span>
               </label>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-400 mb-1">Counts as done at (% of the clip)</label>
+                <input
+                  type="number"
+                  value={form.completionThreshold}
+                  onChange={(e) => setForm({ ...form, completionThreshold: e.target.value })}
+                  placeholder={`Lane default (${lane.completionThreshold ?? DEFAULT_COMPLETION_THRESHOLD}%)`}
+                  min="1"
+                  max="100"
+                  className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white 
+                           placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Measured between the start and end times. Lower it for songs with long outros or videos with end credits.
+                </p>
+              </div>
             </>
           )}
 
@@ -433,8 +532,33 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
             </button>
           </div>
         ) : (
-          lane.items.map((item) => (
+          lane.items.map((item, index) => (
             <div key={item.id} className="p-4 flex items-center gap-4 hover:bg-gray-800/40 transition-colors">
+              {/* Order */}
+              <div className="flex flex-col items-center gap-0.5 flex-shrink-0">
+                <button
+                  onClick={() => handleMoveItem(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  title="Move up"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <span className="text-xs text-gray-500 font-medium">{isPath ? `Step ${index + 1}` : index + 1}</span>
+                <button
+                  onClick={() => handleMoveItem(index, 1)}
+                  disabled={index === lane.items.length - 1}
+                  className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                  title="Move down"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+              </div>
+
               {/* Thumbnail */}
               <div className="w-24 h-14 rounded-lg overflow-hidden bg-gray-900 flex-shrink-0">
                 <img
@@ -458,6 +582,9 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
                       {(item.data as YouTubeData).startTime && (
                         <span className="text-gray-500">• Starts at {(item.data as YouTubeData).startTime}s</span>
                       )}
+                      {item.completionThreshold !== undefined && (
+                        <span className="text-gray-500">• Done at {item.completionThreshold}%</span>
+                      )}
                     </>
                   )}
                   {item.type === 'web_link' && <span className="text-blue-400">Website</span>}
@@ -475,15 +602,17 @@ export default function LaneItemManager({ lane, onItemsChanged }: LaneItemManage
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                   </svg>
                 </button>
-                <button
-                  onClick={() => handleDeleteItem(item)}
-                  className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
-                  title="Delete"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                  </svg>
-                </button>
+                {canDelete && (
+                  <button
+                    onClick={() => handleDeleteItem(item)}
+                    className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                    title="Delete"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                )}
               </div>
             </div>
           ))
@@ -0,0 +1,208 @@
+/**
+ * LaneScheduleEditor - Weekly time windows for when a lane is available
+ */
+
+import { useState } from 'react';
+import type { Lane, LaneSchedule, TimeWindow } from '../../types';
+import { updateLane } from '../../lib/firestore';
+import { DAY_LABELS, WEEKDAYS, EVERY_DAY, formatWindow } from '../../lib/schedule';
+
+interface LaneScheduleEditorProps {
+  lane: Lane;
+  canEdit: boolean;
+  onSaved: (schedule: LaneSchedule | undefined) => void;
+}
+
+const defaultWindow: TimeWindow = { days: WEEKDAYS, start: '08:00', end: '15:00' };
+
+export default function LaneScheduleEditor({ lane, canEdit, onSaved }: LaneScheduleEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [windows, setWindows] = useState<TimeWindow[]>(lane.schedule?.windows ?? []);
+  const [whenClosed, setWhenClosed] = useState<LaneSchedule['whenClosed']>(lane.schedule?.whenClosed ?? 'grey');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scheduleWindows = lane.schedule?.windows ?? [];
+
+  const handleEdit = () => {
+    setWindows(scheduleWindows);
+    setWhenClosed(lane.schedule?.whenClosed ?? 'grey');
+    setError(null);
+    setEditing(true);
+  };
+
+  const updateWindow = (index: number, updates: Partial<TimeWindow>) => {
+    setWindows(windows.map((window, i) => i === index ? { ...window, ...updates } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const { days } = windows[index];
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const handleSave = async () => {
+    if (windows.some(window => window.days.length === 0)) {
+      setError('Each time window needs at least one day');
+      return;
+    }
+    if (windows.some(window => window.start === window.end)) {
+      setError('Start and end times must be different');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      // No windows = always available
+      const schedule = windows.length > 0 ? { windows, whenClosed } : undefined;
+      await updateLane(lane.id, { schedule });
+      onSaved(schedule);
+      setEditing(false);
+    } catch (err) {
+      console.error('Failed to save schedule:', err);
+      setError('Failed to save schedule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="mb-4 p-4 bg-gray-800/40 rounded-2xl border border-gray-700/50 flex items-center gap-3">
+        <svg className="w-5 h-5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <div className="flex-1 min-w-0 text-sm">
+          {scheduleWindows.length === 0 ? (
+            <p className="text-gray-400">Available any time</p>
+          ) : (
+            <>
+              <p className="text-white">{scheduleWindows.map(formatWindow).join(' • ')}</p>
+              <p className="text-gray-500 text-xs">
+                {lane.schedule?.whenClosed === 'hide' ? 'Hidden' : 'Greyed out'} outside these times
+              </p>
+            </>
+          )}
+        </div>
+        {canEdit && (
+          <button
+            onClick={handleEdit}
+            className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Edit Schedule
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-4 bg-gray-800/60 rounded-2xl border border-gray-700/50">
+      <h3 className="text-lg font-medium text-white mb-3">Schedule for {lane.title}</h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        {windows.length === 0 && (
+          <p className="text-gray-500 text-sm">No time windows - this lane is available any time.</p>
+        )}
+        {windows.map((window, index) => (
+          <div key={index} className="p-3 bg-gray-900/40 rounded-xl flex flex-wrap items-center gap-3">
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleDay(index, day)}
+                  className={`w-9 h-9 rounded-lg text-xs font-medium transition-colors
+                    ${window.days.includes(day)
+                      ? 'bg-amber-500 text-gray-900'
+                      : 'bg-gray-700 text-gray-400 hover:text-white'
+                    }`}
+                >
+                  {label.charAt(0)}
+                </button>
+              ))}
+            </div>
+            <input
+              type="time"
+              value={window.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              className="px-2 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="time"
+              value={window.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              className="px-2 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                       focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <button
+              type="button"
+              onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+              className="ml-auto p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+              title="Remove"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          type="button"
+          onClick={() => setWindows([...windows, { ...defaultWindow }])}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          + School hours
+        </button>
+        <button
+          type="button"
+          onClick={() => setWindows([...windows, { days: EVERY_DAY, start: '18:30', end: '20:00' }])}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          + After dinner
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-400 mb-1">Outside these times</label>
+        <select
+          value={whenClosed}
+          onChange={(e) => setWhenClosed(e.target.value as LaneSchedule['whenClosed'])}
+          className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                   focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          <option value="grey">Grey out and show when it opens</option>
+          <option value="hide">Hide the lane</option>
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Schedule'}
+        </button>
+        <button
+          onClick={() => setEditing(false)}
+          className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
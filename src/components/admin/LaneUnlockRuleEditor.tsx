@@ -0,0 +1,167 @@
+/**
+ * LaneUnlockRuleEditor - Earn-your-fun rule: keep a lane locked until items
+ * in another lane are completed
+ */
+
+import { useState } from 'react';
+import type { Lane, UnlockRule } from '../../types';
+import { updateLane } from '../../lib/firestore';
+import { describeUnlockRule } from '../../lib/unlockRules';
+
+interface LaneUnlockRuleEditorProps {
+  lane: Lane;
+  lanes: Lane[]; // The profile's other lanes - candidates for the requirement
+  canEdit: boolean;
+  onSaved: (unlockRule: UnlockRule | undefined) => void;
+}
+
+export default function LaneUnlockRuleEditor({ lane, lanes, canEdit, onSaved }: LaneUnlockRuleEditorProps) {
+  const otherLanes = lanes.filter(l => l.id !== lane.id);
+  const [editing, setEditing] = useState(false);
+  const [requiredLaneId, setRequiredLaneId] = useState('');
+  const [requiredCount, setRequiredCount] = useState('2');
+  const [period, setPeriod] = useState<UnlockRule['period']>('today');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rule = lane.unlockRule;
+  const requiredLane = rule ? lanes.find(l => l.id === rule.requiredLaneId) : undefined;
+
+  const handleEdit = () => {
+    setRequiredLaneId(rule?.requiredLaneId ?? otherLanes[0]?.id ?? '');
+    setRequiredCount(String(rule?.requiredCount ?? 2));
+    setPeriod(rule?.period ?? 'today');
+    setError(null);
+    setEditing(true);
+  };
+
+  const saveRule = async (unlockRule: UnlockRule | undefined) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await updateLane(lane.id, { unlockRule });
+      onSaved(unlockRule);
+      setEditing(false);
+    } catch (err) {
+      console.error('Failed to save unlock rule:', err);
+      setError('Failed to save unlock rule. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const count = Number(requiredCount);
+    if (!requiredLaneId) {
+      setError('Choose the lane that unlocks this one');
+      return;
+    }
+    if (!Number.isInteger(count) || count < 1) {
+      setError('Number of items must be a whole number of at least 1');
+      return;
+    }
+    saveRule({ requiredLaneId, requiredCount: count, period });
+  };
+
+  if (!editing) {
+    return (
+      <div className="mb-4 p-4 bg-gray-800/40 rounded-2xl border border-gray-700/50 flex items-center gap-3">
+        <svg className="w-5 h-5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2z" />
+        </svg>
+        <div className="flex-1 min-w-0 text-sm">
+          {!rule ? (
+            <p className="text-gray-400">Always unlocked</p>
+          ) : requiredLane ? (
+            <p className="text-white">{describeUnlockRule(rule, requiredLane.title)}</p>
+          ) : (
+            <p className="text-amber-400">Unlocks after a lane that no longer exists - this lane stays open</p>
+          )}
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            {rule && (
+              <button
+                onClick={() => saveRule(undefined)}
+                disabled={saving}
+                className="px-3 py-1.5 text-sm text-gray-400 rounded-lg hover:text-red-400 hover:bg-red-500/20 transition-colors"
+              >
+                Remove
+              </button>
+            )}
+            <button
+              onClick={handleEdit}
+              disabled={otherLanes.length === 0}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600
+                       disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title={otherLanes.length === 0 ? 'Add another lane first' : undefined}
+            >
+              {rule ? 'Edit Unlock Rule' : 'Add Unlock Rule'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-4 bg-gray-800/60 rounded-2xl border border-gray-700/50">
+      <h3 className="text-lg font-medium text-white mb-3">Unlock {lane.title}</h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-gray-300">
+        <span>After</span>
+        <input
+          type="number"
+          min={1}
+          value={requiredCount}
+          onChange={(e) => setRequiredCount(e.target.value)}
+          className="w-20 px-2 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                   focus:outline-none focus:ring-2 focus:ring-amber-500"
+        />
+        <span>items completed in</span>
+        <select
+          value={requiredLaneId}
+          onChange={(e) => setRequiredLaneId(e.target.value)}
+          className="px-3 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                   focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          {otherLanes.map(l => (
+            <option key={l.id} value={l.id}>{l.title}</option>
+          ))}
+        </select>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as UnlockRule['period'])}
+          className="px-3 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                   focus:outline-none focus:ring-2 focus:ring-amber-500"
+        >
+          <option value="today">today (re-locks each morning)</option>
+          <option value="ever">at any time</option>
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Rule'}
+        </button>
+        <button
+          onClick={() => setEditing(false)}
+          className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * PauseButton - Instantly pause (or resume) every child's lanes on every device
+ */
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { $household, setHouseholdPaused } from '../../stores/householdStore';
+
+export default function PauseButton() {
+  const household = useStore($household);
+  const [saving, setSaving] = useState(false);
+  const paused = !!household?.settings?.pausedAt;
+
+  const handleToggle = async () => {
+    setSaving(true);
+    try {
+      await setHouseholdPaused(!paused);
+    } catch (err) {
+      console.error('Failed to change pause:', err);
+      alert(err instanceof Error ? err.message : 'Failed to change pause. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={saving}
+      className={`flex items-center gap-2 px-4 py-2 rounded-xl border transition-all disabled:opacity-50
+        ${paused
+          ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300 hover:bg-indigo-500/30'
+          : 'bg-gray-800/60 border-gray-700/50 text-gray-300 hover:text-white hover:bg-gray-800 hover:border-indigo-500/50'
+        }`}
+      title={paused ? 'Let children use their lanes again' : 'Stop all children watching right now'}
+    >
+      <span>{paused ? '▶️' : '⏸️'}</span>
+      <span className="hidden sm:inline">{paused ? 'Resume Everything' : 'Pause Everything'}</span>
+    </button>
+  );
+}
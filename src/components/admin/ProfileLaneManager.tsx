@@ -3,20 +3,23 @@
  */
 
 import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
 import type { Profile, Lane, LaneWithItems, LaneCategory } from '../../types';
+import { LANE_CATEGORIES } from '../../types';
 import { getLanesForProfile, getLaneWithItems, createLane, updateLane, deleteLane } from '../../lib/firestore';
+import { hasPermission } from '../../lib/permissions';
+import { $guardianRole } from '../../stores/profileStore';
+import { formatWindow } from '../../lib/schedule';
+import { describeUnlockRule } from '../../lib/unlockRules';
 import LaneItemManager from './LaneItemManager';
+import LaneScheduleEditor from './LaneScheduleEditor';
+import LaneUnlockRuleEditor from './LaneUnlockRuleEditor';
 import AILaneCreator from './AILaneCreator';
 
 interface ProfileLaneManagerProps {
   profile: Profile;
 }
 
-const CATEGORIES: LaneCategory[] = [
-  'School', 'Music', 'Fun', 'Creativity', 
-  'Learning', 'Entertainment', 'Science', 'Math', 'Reading', 'Other'
-];
-
 const categoryColors: Record<LaneCategory, string> = {
   School: 'from-blue-500 to-blue-600',
   Music: 'from-purple-500 to-pink-500',
@@ -31,6 +34,10 @@ const categoryColors: Record<LaneCategory, string> = {
 };
 
 export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps) {
+  const guardianRole = useStore($guardianRole);
+  const canDelete = hasPermission(guardianRole, 'delete_content');
+  const canGenerate = hasPermission(guardianRole, 'generate_lanes');
+  const canSchedule = hasPermission(guardianRole, 'manage_limits');
   const [lanes, setLanes] = useState<Lane[]>([]);
   const [selectedLane, setSelectedLane] = useState<LaneWithItems | null>(null);
   const [loading, setLoading] = useState(true);
@@ -78,6 +85,7 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
         category: newLane.category,
         isActive: true,
         sortOrder: lanes.length + 1,
+        ageLevel: profile.ageLevel,
       });
       setLanes([...lanes, createdLane]);
       setNewLane({ title: '', category: 'School' });
@@ -104,6 +112,7 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
 
   // Delete lane
   const handleDeleteLane = async (lane: Lane) => {
+    if (!canDelete) return;
     if (!confirm(`Delete "${lane.title}" and all its items? This cannot be undone.`)) return;
 
     try {
@@ -117,6 +126,14 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
     }
   };
 
+  // Keep the list and the selected lane in step with saved lane settings (schedule, unlock rule, mode)
+  const handleLaneUpdated = (laneId: string, updates: Partial<Lane>) => {
+    setLanes(lanes.map(l => l.id === laneId ? { ...l, ...updates } : l));
+    if (selectedLane?.id === laneId) {
+      setSelectedLane({ ...selectedLane, ...updates });
+    }
+  };
+
   // Refresh lane items after changes
   const handleItemsChanged = async () => {
     if (selectedLane) {
@@ -152,17 +169,19 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
             </h2>
             <div className="flex items-center gap-2">
               {/* AI Lane Creator Button */}
-              <button
-                onClick={() => setShowAICreator(true)}
-                className="p-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-white 
-                         hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg shadow-purple-500/20"
-                title="Generate Lane with AI"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
-                        d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
-                </svg>
-              </button>
+              {canGenerate && (
+                <button
+                  onClick={() => setShowAICreator(true)}
+                  className="p-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 text-white 
+                           hover:from-purple-400 hover:to-pink-400 transition-all shadow-lg shadow-purple-500/20"
+                  title="Generate Lane with AI"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
+                          d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" />
+                  </svg>
+                </button>
+              )}
               {/* Manual Add Lane Button */}
               <button
                 onClick={() => setShowNewLaneForm(true)}
@@ -194,7 +213,7 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
                 className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white 
                          focus:outline-none focus:ring-2 focus:ring-amber-500 mb-3"
               >
-                {CATEGORIES.map(cat => (
+                {LANE_CATEGORIES.map(cat => (
                   <option key={cat} value={cat}>{cat}</option>
                 ))}
               </select>
@@ -240,7 +259,12 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
                     <div className={`w-3 h-3 rounded-full bg-gradient-to-br ${categoryColors[lane.category]}`} />
                     <div className="flex-1 min-w-0">
                       <h3 className="text-white font-medium truncate">{lane.title}</h3>
-                      <p className="text-xs text-gray-500">{lane.category}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {lane.category}
+                        {lane.mode === 'path' && ' • Path'}
+                        {lane.schedule && lane.schedule.windows.length > 0 && ` • ${lane.schedule.windows.map(formatWindow).join(', ')}`}
+                        {lane.unlockRule && ` • ${describeUnlockRule(lane.unlockRule, lanes.find(l => l.id === lane.unlockRule?.requiredLaneId)?.title ?? 'a deleted lane')}`}
+                      </p>
                     </div>
                     <div className="flex items-center gap-1">
                       <button
@@ -260,15 +284,17 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
                           )}
                         </svg>
                       </button>
-                      <button
-                        onClick={(e) => { e.stopPropagation(); handleDeleteLane(lane); }}
-                        className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
-                        title="Delete"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
+                      {canDelete && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleDeleteLane(lane); }}
+                          className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                          title="Delete"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -281,10 +307,26 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
       {/* Lane Items Editor */}
       <div className="lg:col-span-2">
         {selectedLane ? (
-          <LaneItemManager 
-            lane={selectedLane} 
-            onItemsChanged={handleItemsChanged}
-          />
+          <>
+            <LaneScheduleEditor
+              key={selectedLane.id}
+              lane={selectedLane}
+              canEdit={canSchedule}
+              onSaved={(schedule) => handleLaneUpdated(selectedLane.id, { schedule })}
+            />
+            <LaneUnlockRuleEditor
+              key={`unlock-${selectedLane.id}`}
+              lane={selectedLane}
+              lanes={lanes}
+              canEdit={canSchedule}
+              onSaved={(unlockRule) => handleLaneUpdated(selectedLane.id, { unlockRule })}
+            />
+            <LaneItemManager 
+              lane={selectedLane} 
+              onItemsChanged={handleItemsChanged}
+              onLaneUpdated={(updates) => handleLaneUpdated(selectedLane.id, updates)}
+            />
+          </>
         ) : (
           <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 p-12 text-center">
             <svg className="w-16 h-16 mx-auto mb-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -297,7 +339,7 @@ export default function ProfileLaneManager({ profile }: ProfileLaneManagerProps)
       </div>
 
       {/* AI Lane Creator Modal */}
-      {showAICreator && (
+      {showAICreator && canGenerate && (
         <AILaneCreator
           profile={profile}
           onClose={() => setShowAICreator(false)}
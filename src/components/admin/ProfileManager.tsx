@@ -0,0 +1,420 @@
+/**
+ * ProfileManager - Create, edit and delete family member profiles
+ */
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile, ProfileRole, AgeLevel } from '../../types';
+import { createProfile, updateProfile, deleteProfile } from '../../lib/firestore';
+import { BUILT_IN_AVATARS } from '../../lib/avatars';
+import { isGuardianRole, ROLE_LABELS } from '../../lib/permissions';
+import { AGE_LEVEL_LABELS, getAgeInYears, getAgeLevelForBirthdate } from '../../lib/ageLevel';
+import { $currentProfile, adminApiRequest } from '../../stores/profileStore';
+import Avatar from '../Avatar';
+import AvatarPicker from './AvatarPicker';
+
+interface ProfileManagerProps {
+  profiles: Profile[];
+  onProfilesChanged: () => void;
+}
+
+const AGE_LEVELS = Object.entries(AGE_LEVEL_LABELS).map(([value, label]) => ({ value: value as AgeLevel, label }));
+
+const ROLES: { value: ProfileRole; label: string }[] = [
+  { value: 'child', label: 'Child' },
+  { value: 'caregiver', label: 'Caregiver (approve content, see reports)' },
+  { value: 'coparent', label: 'Co-parent (everything except profiles)' },
+  { value: 'admin', label: 'Admin (parent)' },
+];
+
+type ProfileForm = {
+  displayName: string;
+  avatarUrl: string;
+  ageLevel: AgeLevel;
+  birthdate: string;
+  role: ProfileRole;
+  pin: string;
+  confirmPin: string;
+};
+
+const defaultForm: ProfileForm = {
+  displayName: '',
+  avatarUrl: BUILT_IN_AVATARS[0].url,
+  ageLevel: 'elementary',
+  birthdate: '',
+  role: 'child',
+  pin: '',
+  confirmPin: '',
+};
+
+export default function ProfileManager({ profiles, onProfilesChanged }: ProfileManagerProps) {
+  const currentProfile = useStore($currentProfile);
+  const [showForm, setShowForm] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
+  const [form, setForm] = useState<ProfileForm>(defaultForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = editingProfile !== null;
+  const formBirthdateLevel = form.role === 'child' ? getAgeLevelForBirthdate(form.birthdate) : null;
+  const adminCount = profiles.filter(p => p.role === 'admin').length;
+
+  // Open form for adding a new profile
+  const handleAddNew = () => {
+    setEditingProfile(null);
+    setForm(defaultForm);
+    setError(null);
+    setShowForm(true);
+  };
+
+  // Open form for editing an existing profile
+  const handleEdit = (profile: Profile) => {
+    setEditingProfile(profile);
+    setForm({
+      displayName: profile.displayName,
+      avatarUrl: profile.avatarUrl || '',
+      ageLevel: profile.ageLevel || 'elementary',
+      birthdate: profile.birthdate || '',
+      role: profile.role,
+      pin: '',
+      confirmPin: '',
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const handleCloseForm = () => {
+    setShowForm(false);
+    setEditingProfile(null);
+    setForm(defaultForm);
+    setError(null);
+  };
+
+  // Submit form (create or update)
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!form.displayName.trim()) {
+      setError('Please enter a name');
+      return;
+    }
+
+    const isGuardian = isGuardianRole(form.role);
+    const wasGuardian = isGuardianRole(editingProfile?.role);
+    const pinEntered = form.pin.length > 0;
+
+    // A new guardian can't unlock anything without a PIN
+    if (isGuardian && !wasGuardian && !pinEntered) {
+      setError('Guardians need a PIN');
+      return;
+    }
+    if (isGuardian && pinEntered) {
+      if (!/^\d{4,6}$/.test(form.pin)) {
+        setError('PIN must be 4-6 digits');
+        return;
+      }
+      if (form.pin !== form.confirmPin) {
+        setError('PINs do not match');
+        return;
+      }
+    }
+    if (editingProfile?.role === 'admin' && form.role !== 'admin' && adminCount <= 1) {
+      setError('The household needs at least one admin');
+      return;
+    }
+
+    // Children with a birthdate get their level from it
+    const birthdate = form.role === 'child' && form.birthdate ? form.birthdate : undefined;
+    const birthdateLevel = getAgeLevelForBirthdate(birthdate);
+    if (birthdate && !birthdateLevel) {
+      setError('Please enter a birthdate in the past');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const profileData: Omit<Profile, 'id'> = {
+        displayName: form.displayName.trim(),
+        avatarUrl: form.avatarUrl.trim(),
+        ageLevel: birthdateLevel ?? form.ageLevel,
+        role: form.role,
+        birthdate,
+      };
+
+      let profileId: string;
+      if (isEditing && editingProfile) {
+        // A parent changing the level by hand has nothing left to review
+        const previousAgeLevel = profileData.ageLevel === editingProfile.ageLevel ? editingProfile.previousAgeLevel : undefined;
+        await updateProfile(editingProfile.id, { ...profileData, previousAgeLevel });
+        profileId = editingProfile.id;
+      } else {
+        if (!birthdate) delete profileData.birthdate;
+        const created = await createProfile(profileData);
+        profileId = created.id;
+      }
+
+      if (isGuardian && pinEntered) {
+        try {
+          await adminApiRequest('/api/profile-pin', { profileId, pin: form.pin });
+        } catch (pinError) {
+          // A guardian without a PIN could never be unlocked - undo the create, or put the old role back
+          if (!editingProfile) {
+            await deleteProfile(profileId);
+          } else if (!wasGuardian) {
+            await updateProfile(profileId, { role: editingProfile.role });
+          }
+          throw pinError;
+        }
+      } else if (!isGuardian && wasGuardian) {
+        await adminApiRequest('/api/profile-pin', { profileId, pin: null });
+      }
+
+      handleCloseForm();
+      onProfilesChanged();
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      setError(`Failed to ${isEditing ? 'update' : 'create'} profile. Please try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: Profile) => {
+    if (profile.id === currentProfile?.id) {
+      alert("You can't delete the profile you're signed in as.");
+      return;
+    }
+    if (!confirm(`Delete ${profile.displayName} along with their lanes, watch history and badges? This cannot be undone.`)) return;
+
+    try {
+      if (isGuardianRole(profile.role)) {
+        await adminApiRequest('/api/profile-pin', { profileId: profile.id, pin: null });
+      }
+      await deleteProfile(profile.id);
+      if (editingProfile?.id === profile.id) {
+        handleCloseForm();
+      }
+      onProfilesChanged();
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Family Profiles</h2>
+          <p className="text-sm text-gray-500">
+            {profiles.length} {profiles.length === 1 ? 'profile' : 'profiles'}
+          </p>
+        </div>
+        <button
+          onClick={handleAddNew}
+          className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 transition-colors"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          Add Profile
+        </button>
+      </div>
+
+      {/* Add/Edit Profile Form */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="p-4 border-b border-gray-700/50 bg-gray-800/60">
+          <h3 className="text-lg font-medium text-white mb-4">
+            {isEditing ? `Edit ${editingProfile?.displayName}` : 'Add New Profile'}
+          </h3>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            {/* Display Name */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.displayName}
+                onChange={(e) => setForm({ ...form, displayName: e.target.value })}
+                placeholder="Display name..."
+                className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                autoFocus
+              />
+            </div>
+
+            {/* Birthdate - children only */}
+            {form.role === 'child' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Birthdate</label>
+                <input
+                  type="date"
+                  value={form.birthdate}
+                  max={new Date().toISOString().split('T')[0]}
+                  onChange={(e) => setForm({ ...form, birthdate: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                           focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {formBirthdateLevel
+                    ? `${getAgeInYears(form.birthdate)} years old - age level updates automatically`
+                    : 'Optional - sets the age level automatically as they grow'}
+                </p>
+              </div>
+            )}
+
+            {/* Age Level */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Age Level</label>
+              <select
+                value={formBirthdateLevel ?? form.ageLevel}
+                onChange={(e) => setForm({ ...form, ageLevel: e.target.value as AgeLevel })}
+                disabled={formBirthdateLevel !== null}
+                className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500 disabled:opacity-60"
+              >
+                {AGE_LEVELS.map(level => (
+                  <option key={level.value} value={level.value}>{level.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Role */}
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Role</label>
+              <select
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as ProfileRole })}
+                className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {ROLES.map(role => (
+                  <option key={role.value} value={role.value}>{role.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Avatar */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-400 mb-2">Avatar</label>
+            <AvatarPicker
+              displayName={form.displayName}
+              value={form.avatarUrl}
+              onChange={(avatarUrl) => setForm({ ...form, avatarUrl })}
+            />
+          </div>
+
+          {/* PIN - only for guardians */}
+          {isGuardianRole(form.role) && (
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">
+                  {isGuardianRole(editingProfile?.role) ? 'New PIN' : 'PIN'}
+                </label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={6}
+                  value={form.pin}
+                  onChange={(e) => setForm({ ...form, pin: e.target.value })}
+                  placeholder={isGuardianRole(editingProfile?.role) ? 'Leave blank to keep' : '4-6 digits'}
+                  className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                           placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Confirm PIN</label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  maxLength={6}
+                  value={form.confirmPin}
+                  onChange={(e) => setForm({ ...form, confirmPin: e.target.value })}
+                  className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                           placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Form Actions */}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                       hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {saving ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Profile'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCloseForm}
+              className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Profiles List */}
+      <div className="divide-y divide-gray-700/50">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="p-4 flex items-center gap-4 hover:bg-gray-800/40 transition-colors">
+            <Avatar
+              displayName={profile.displayName}
+              avatarUrl={profile.avatarUrl}
+              className="w-12 h-12 text-lg"
+            />
+
+            <div className="flex-1 min-w-0">
+              <h4 className="text-white font-medium truncate">
+                {profile.displayName}
+                {profile.id === currentProfile?.id && <span className="text-gray-500 text-sm ml-2">(you)</span>}
+              </h4>
+              <p className="text-xs text-gray-500">
+                {isGuardianRole(profile.role) ? ROLE_LABELS[profile.role] : `Child • ${profile.ageLevel || 'No age set'}`}
+              </p>
+            </div>
+
+            {/* Actions */}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => handleEdit(profile)}
+                className="p-2 rounded-lg text-gray-500 hover:text-amber-400 hover:bg-amber-500/20 transition-colors"
+                title="Edit"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => handleDelete(profile)}
+                disabled={profile.id === currentProfile?.id}
+                className="p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors
+                         disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:text-gray-500"
+                title={profile.id === currentProfile?.id ? "You can't delete yourself" : 'Delete'}
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
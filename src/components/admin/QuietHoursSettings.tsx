@@ -0,0 +1,200 @@
+/**
+ * QuietHoursSettings - Household time zone and bedtime windows when children
+ * can't open any lanes
+ */
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import type { TimeWindow } from '../../types';
+import { $household, saveHouseholdSettings } from '../../stores/householdStore';
+import { DEVICE_TIME_ZONE } from '../../lib/clock';
+import { DAY_LABELS, EVERY_DAY } from '../../lib/schedule';
+
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : [DEVICE_TIME_ZONE];
+
+// Windows start in the evening and run past midnight into the next morning
+const BEDTIME_PRESETS: { label: string; window: TimeWindow }[] = [
+  { label: 'School nights', window: { days: [0, 1, 2, 3, 4], start: '20:00', end: '07:00' } },
+  { label: 'Weekend nights', window: { days: [5, 6], start: '21:00', end: '08:00' } },
+  { label: 'Every night', window: { days: EVERY_DAY, start: '20:30', end: '07:00' } },
+];
+
+export default function QuietHoursSettings() {
+  const household = useStore($household);
+  const settings = household?.settings;
+  const [timeZone, setTimeZone] = useState(settings?.timeZone ?? DEVICE_TIME_ZONE);
+  const [enabled, setEnabled] = useState(settings?.quietHours?.enabled ?? false);
+  const [windows, setWindows] = useState<TimeWindow[]>(settings?.quietHours?.windows ?? []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const timeZoneOptions = TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES];
+
+  const updateWindow = (index: number, updates: Partial<TimeWindow>) => {
+    setWindows(windows.map((window, i) => i === index ? { ...window, ...updates } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const { days } = windows[index];
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    if (windows.some(window => window.days.length === 0)) {
+      setError('Each quiet time needs at least one day');
+      return;
+    }
+    if (windows.some(window => window.start === window.end)) {
+      setError('Start and end times must be different');
+      return;
+    }
+    if (enabled && windows.length === 0) {
+      setError('Add a quiet time, or turn quiet hours off');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveHouseholdSettings({ timeZone, quietHours: { enabled, windows } });
+      setMessage('Quiet hours saved');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err) {
+      console.error('Failed to save quiet hours:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save quiet hours. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Quiet Hours</h2>
+        <p className="text-sm text-gray-500">
+          Children see a bedtime screen during these times. Times follow the household time zone
+          and the server clock, so changing a device's clock won't skip them.
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-3 bg-green-500/20 border border-green-500/50 rounded-lg text-green-400 text-sm">
+            {message}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Household time zone</label>
+          <select
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            className="w-full sm:w-80 px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                     focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {timeZoneOptions.map(zone => (
+              <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Also used for lane schedules and daily screen time.</p>
+        </div>
+
+        <label className="flex items-center gap-3 text-gray-300">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="w-5 h-5 rounded accent-amber-500"
+          />
+          Turn on quiet hours
+        </label>
+
+        <div className="space-y-3">
+          {windows.length === 0 && (
+            <p className="text-gray-500 text-sm">No quiet times yet.</p>
+          )}
+          {windows.map((window, index) => (
+            <div key={index} className="p-3 bg-gray-900/40 rounded-xl flex flex-wrap items-center gap-3">
+              <div className="flex gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(index, day)}
+                    className={`w-9 h-9 rounded-lg text-xs font-medium transition-colors
+                      ${window.days.includes(day)
+                        ? 'bg-indigo-500 text-white'
+                        : 'bg-gray-700 text-gray-400 hover:text-white'
+                      }`}
+                    title={label}
+                  >
+                    {label.charAt(0)}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="time"
+                value={window.start}
+                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                className="px-2 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                value={window.end}
+                onChange={(e) => updateWindow(index, { end: e.target.value })}
+                className="px-2 py-1.5 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+              <button
+                type="button"
+                onClick={() => setWindows(windows.filter((_, i) => i !== index))}
+                className="ml-auto p-2 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/20 transition-colors"
+                title="Remove"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {BEDTIME_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => setWindows([...windows, { ...preset.window }])}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              + {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Quiet Hours'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * ReportsPanel - Parent insights for one child: viewing minutes, completions
+ * by category, re-watched and abandoned items, finished lanes (with certificates)
+ * and badge history
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile, LaneWithItems, ScreenTimeDay, WatchRecord, WatchSession, EarnedBadge, BadgeDefinition } from '../../types';
+import { BADGE_DEFINITIONS } from '../../types';
+import {
+  getLanesForProfile,
+  getItemsForLane,
+  getWatchHistory,
+  getWatchSessions,
+  getScreenTimeDays,
+  getEarnedBadges,
+  getCustomBadges,
+} from '../../lib/firestore';
+import { getDateKey } from '../../lib/screenTime';
+import {
+  ABANDONED_PERCENT,
+  ABANDONED_AFTER_DAYS,
+  getMinutesPerDay,
+  getMinutesPerWeek,
+  getCompletionsByCategory,
+  getMostRewatched,
+  getAbandonedItems,
+  type ChartPoint,
+} from '../../lib/reports';
+import { isLaneComplete } from '../../lib/badgeRules';
+import { $householdNow, getServerNow } from '../../stores/clockStore';
+import Avatar from '../Avatar';
+import CertificateButton from '../CertificateButton';
+
+interface ReportsPanelProps {
+  profiles: Profile[];
+}
+
+interface ReportData {
+  lanes: LaneWithItems[];
+  history: WatchRecord[];
+  sessions: WatchSession[];
+  screenTime: ScreenTimeDay[];
+  badges: EarnedBadge[];
+  definitions: BadgeDefinition[];
+}
+
+const DAYS_SHOWN = 14;
+const WEEKS_SHOWN = 8;
+const TOP_ITEMS = 5;
+
+export default function ReportsPanel({ profiles }: ReportsPanelProps) {
+  const children = profiles.filter(p => p.role === 'child');
+  const now = useStore($householdNow);
+  const todayKey = getDateKey(now);
+
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(children[0]?.id ?? null);
+  const [data, setData] = useState<ReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep a valid child selected as profiles change
+  useEffect(() => {
+    if (!children.some(child => child.id === selectedChildId)) {
+      setSelectedChildId(children[0]?.id ?? null);
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    if (!selectedChildId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const laneList = await getLanesForProfile(selectedChildId, true);
+        const [lanes, history, sessions, screenTime, badges, customBadges] = await Promise.all([
+          Promise.all(laneList.map(async (lane) => ({ ...lane, items: await getItemsForLane(lane.id) }))),
+          getWatchHistory(selectedChildId),
+          getWatchSessions(selectedChildId),
+          getScreenTimeDays(selectedChildId),
+          getEarnedBadges(selectedChildId),
+          getCustomBadges(),
+        ]);
+        if (!cancelled) {
+          setData({ lanes, history, sessions, screenTime, badges, definitions: [...BADGE_DEFINITIONS, ...customBadges] });
+        }
+      } catch (err) {
+        console.error('Failed to load reports:', err);
+        if (!cancelled) setError('Failed to load reports. Please try again.');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedChildId]);
+
+  const itemTitles = new Map(data?.lanes.flatMap(lane => lane.items.map(item => [item.id, item.title] as const)) ?? []);
+  const laneTitles = new Map(data?.lanes.map(lane => [lane.id, lane.title]) ?? []);
+  const completedItemIds = new Set(data?.history.filter(record => record.completed).map(record => record.itemId));
+  const finishedLanes = data?.lanes.filter(lane => isLaneComplete(lane, completedItemIds)) ?? [];
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Reports</h2>
+        <p className="text-sm text-gray-500">
+          How each child is spending their time and what they're finishing.
+        </p>
+      </div>
+
+      {children.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No child profiles yet.</div>
+      ) : (
+        <div className="p-4 space-y-6">
+          {/* Child Selector */}
+          <div className="flex flex-wrap gap-2">
+            {children.map((child) => (
+              <button
+                key={child.id}
+                onClick={() => setSelectedChildId(child.id)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all
+                  ${selectedChildId === child.id
+                    ? 'bg-amber-500/20 border-amber-500 text-white'
+                    : 'bg-gray-800/40 border-gray-700/50 text-gray-400 hover:bg-gray-800/60 hover:text-white'
+                  }`}
+              >
+                <Avatar displayName={child.displayName} avatarUrl={child.avatarUrl} className="w-8 h-8 text-sm" />
+                <span className="font-medium">{child.displayName}</span>
+              </button>
+            ))}
+          </div>
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          {loading || !data ? (
+            <div className="py-12 flex justify-center">
+              <div className="w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              {/* Viewing Time */}
+              <div className="grid md:grid-cols-2 gap-4">
+                <ReportCard title={`Minutes per day (last ${DAYS_SHOWN} days)`}>
+                  <BarChart
+                    points={getMinutesPerDay(data.screenTime, todayKey, DAYS_SHOWN)}
+                    formatLabel={(key) => key.slice(8)}
+                  />
+                </ReportCard>
+                <ReportCard title={`Minutes per week (last ${WEEKS_SHOWN} weeks)`}>
+                  <BarChart
+                    points={getMinutesPerWeek(data.screenTime, todayKey, WEEKS_SHOWN)}
+                    formatLabel={(key) => key.slice(5).replace('-', '/')}
+                  />
+                </ReportCard>
+              </div>
+
+              {/* Completions by Category */}
+              <ReportCard title="Completed by category">
+                <CategoryBars rows={getCompletionsByCategory(data.history, data.lanes)} />
+              </ReportCard>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                {/* Most Re-watched */}
+                <ReportCard title="Most re-watched">
+                  <ItemList
+                    empty="Nothing opened more than once yet."
+                    rows={getMostRewatched(data.sessions, TOP_ITEMS).map(entry => ({
+                      key: entry.itemId,
+                      title: itemTitles.get(entry.itemId) ?? entry.itemTitle,
+                      detail: entry.laneTitle,
+                      value: `${entry.sessions}×`,
+                    }))}
+                  />
+                </ReportCard>
+
+                {/* Abandoned */}
+                <ReportCard title={`Abandoned (under ${ABANDONED_PERCENT}%, idle ${ABANDONED_AFTER_DAYS}+ days)`}>
+                  <ItemList
+                    empty="No abandoned items."
+                    rows={getAbandonedItems(data.history, new Date(getServerNow())).map(record => ({
+                      key: record.id,
+                      title: itemTitles.get(record.itemId) ?? 'Removed item',
+                      detail: `${laneTitles.get(record.laneId) ?? 'Removed lane'} • last watched ${record.updatedAt.toLocaleDateString()}`,
+                      value: `${Math.round(record.progressPercent)}%`,
+                    }))}
+                  />
+                </ReportCard>
+              </div>
+
+              {/* Certificates */}
+              <ReportCard title="Finished lanes">
+                {finishedLanes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No lanes finished yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {finishedLanes.map((lane) => (
+                      <div key={lane.id} className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm text-white truncate">{lane.title}</p>
+                          <p className="text-xs text-gray-500">{lane.category} • {lane.items.length} items</p>
+                        </div>
+                        <CertificateButton
+                          profileId={selectedChildId!}
+                          laneId={lane.id}
+                          className="bg-gray-700 text-white hover:bg-gray-600"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </ReportCard>
+
+              {/* Badge History */}
+              <ReportCard title="Badge history">
+                <ItemList
+                  empty="No badges earned yet."
+                  rows={[...data.badges]
+                    .sort((a, b) => b.earnedAt.getTime() - a.earnedAt.getTime())
+                    .map(badge => {
+                      const definition = data.definitions.find(def => def.type === badge.badgeType);
+                      return {
+                        key: badge.id,
+                        title: `${definition?.icon ?? '🏅'} ${definition?.name ?? badge.badgeType}`,
+                        detail: definition?.description ?? '',
+                        value: badge.earnedAt.toLocaleDateString(),
+                      };
+                    })}
+                />
+              </ReportCard>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReportCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="p-4 bg-gray-900/40 rounded-xl border border-gray-700/50">
+      <h3 className="text-sm font-medium text-gray-400 mb-3">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function BarChart({ points, formatLabel }: { points: ChartPoint[]; formatLabel: (key: string) => string }) {
+  const peak = Math.max(...points.map(point => point.minutes), 0);
+  const max = Math.max(peak, 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-32">
+        {points.map((point) => (
+          <div key={point.key} className="flex-1 h-full flex items-end" title={`${point.key}: ${point.minutes} min`}>
+            <div
+              className="w-full bg-amber-500/80 rounded-t"
+              style={{ height: `${(point.minutes / max) * 100}%`, minHeight: point.minutes > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {points.map((point) => (
+          <span key={point.key} className="flex-1 text-center text-[10px] text-gray-600 truncate">
+            {formatLabel(point.key)}
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Total {points.reduce((sum, point) => sum + point.minutes, 0)} min • peak {peak} min
+      </p>
+    </div>
+  );
+}
+
+function CategoryBars({ rows }: { rows: { category: string; count: number }[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing completed yet.</p>;
+  }
+  const max = rows[0].count;
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.category} className="flex items-center gap-3">
+          <span className="w-28 text-sm text-gray-300 truncate">{row.category}</span>
+          <div className="flex-1 h-4 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-green-500/80 rounded-full" style={{ width: `${(row.count / max) * 100}%` }} />
+          </div>
+          <span className="w-8 text-right text-sm text-gray-400">{row.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ItemList({ rows, empty }: { rows: { key: string; title: string; detail: string; value: string }[]; empty: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">{empty}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-700/50">
+      {rows.map((row) => (
+        <li key={row.key} className="py-2 flex items-center gap-3">
+          <div className="flex-1 min-w-0">
+            <p className="text-white text-sm truncate">{row.title}</p>
+            {row.detail && <p className="text-xs text-gray-500 truncate">{row.detail}</p>}
+          </div>
+          <span className="text-sm text-gray-400 whitespace-nowrap">{row.value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
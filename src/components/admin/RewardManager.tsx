@@ -0,0 +1,364 @@
+/**
+ * RewardManager - The family's reward catalog and the requests waiting on a parent
+ * Children spend points (XP plus badge points, see lib/rewards.ts) in the Dashboard's reward store
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import { v4 as uuidv4 } from 'uuid';
+import type { Profile, Reward, RewardRedemption } from '../../types';
+import {
+  getRewards,
+  saveReward,
+  deleteReward,
+  getRedemptions,
+  decideRedemption,
+  getXpLedger,
+  getEarnedBadges,
+} from '../../lib/firestore';
+import { getPointsBalance, type PointsBalance } from '../../lib/rewards';
+import { getDateKey } from '../../lib/screenTime';
+import { toZonedDate } from '../../lib/clock';
+import { $household } from '../../stores/householdStore';
+import { getHouseholdNow } from '../../stores/clockStore';
+import Avatar from '../Avatar';
+
+interface RewardManagerProps {
+  profiles: Profile[];
+}
+
+const emptyReward = (): Reward => ({
+  id: uuidv4(),
+  name: '',
+  icon: '🎁',
+  cost: 100,
+  isActive: true,
+});
+
+const inputClass = `px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+  placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500`;
+
+export default function RewardManager({ profiles }: RewardManagerProps) {
+  const household = useStore($household);
+  const children = profiles.filter(p => p.role === 'child');
+
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [balances, setBalances] = useState<Map<string, PointsBalance>>(new Map());
+  const [editing, setEditing] = useState<Reward | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      const [catalog, requests] = await Promise.all([getRewards(), getRedemptions()]);
+      const childBalances = await Promise.all(children.map(async (child) => {
+        const [xpLedger, badges] = await Promise.all([getXpLedger(child.id), getEarnedBadges(child.id)]);
+        const childRequests = requests.filter(r => r.profileId === child.id);
+        return [child.id, getPointsBalance(xpLedger, badges, childRequests)] as const;
+      }));
+      setRewards(catalog);
+      setRedemptions(requests);
+      setBalances(new Map(childBalances));
+    } catch (err) {
+      console.error('Failed to load rewards:', err);
+      setError('Failed to load rewards. Please try again.');
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [profiles]);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (!editing.name.trim()) {
+      setError('Give the reward a name');
+      return;
+    }
+    if (!(editing.cost > 0)) {
+      setError('The cost must be at least 1 point');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveReward({
+        ...editing,
+        name: editing.name.trim(),
+        icon: editing.icon.trim() || '🎁',
+        description: editing.description?.trim() || undefined,
+      });
+      setEditing(null);
+      await loadData();
+    } catch (err) {
+      console.error('Failed to save reward:', err);
+      setError('Failed to save reward. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (reward: Reward) => {
+    if (!confirm(`Delete "${reward.name}"? Requests already made are kept.`)) return;
+    try {
+      await deleteReward(reward.id);
+      await loadData();
+    } catch (err) {
+      console.error('Failed to delete reward:', err);
+      setError('Failed to delete reward. Please try again.');
+    }
+  };
+
+  const handleDecide = async (redemption: RewardRedemption, status: 'approved' | 'declined') => {
+    setDeciding(redemption.id);
+    setError(null);
+    try {
+      await decideRedemption(redemption, status, getDateKey(getHouseholdNow()));
+      await loadData();
+    } catch (err) {
+      console.error('Failed to update request:', err);
+      setError('Failed to update the request. Please try again.');
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const profileById = new Map(profiles.map(p => [p.id, p]));
+  const pending = redemptions.filter(r => r.status === 'pending');
+  const decided = redemptions.filter(r => r.status !== 'pending').slice(0, 20);
+  const formatDate = (date: Date) =>
+    toZonedDate(date, household?.settings?.timeZone).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="space-y-6">
+      {/* Requests */}
+      <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+        <div className="p-4 border-b border-gray-700/50">
+          <h2 className="text-xl font-semibold text-white">Reward Requests</h2>
+          <p className="text-sm text-gray-500">Points stay held while a request waits; declining gives them back.</p>
+        </div>
+
+        {error && <p className="mx-4 mt-4 text-red-400 text-sm">{error}</p>}
+
+        {pending.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Nothing waiting.</div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {pending.map((redemption) => {
+              const child = profileById.get(redemption.profileId);
+              return (
+                <div key={redemption.id} className="p-4 flex items-center gap-4">
+                  {child && <Avatar displayName={child.displayName} avatarUrl={child.avatarUrl} className="w-10 h-10 text-sm" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-medium truncate">
+                      {redemption.rewardIcon} {redemption.rewardName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {child?.displayName ?? 'Deleted profile'} • {redemption.cost} points • asked {formatDate(redemption.requestedAt)}
+                      {redemption.screenTimeMinutes && ` • adds ${redemption.screenTimeMinutes} min today`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDecide(redemption, 'approved')}
+                    disabled={deciding !== null}
+                    className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-500 disabled:opacity-50 transition-colors"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleDecide(redemption, 'declined')}
+                    disabled={deciding !== null}
+                    className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                  >
+                    Decline
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {decided.length > 0 && (
+          <div className="p-4 border-t border-gray-700/50">
+            <h3 className="text-sm font-medium text-gray-400 mb-2">Recent decisions</h3>
+            <div className="space-y-1">
+              {decided.map((redemption) => (
+                <p key={redemption.id} className="text-sm text-gray-500">
+                  <span className={redemption.status === 'approved' ? 'text-green-400' : 'text-gray-400'}>
+                    {redemption.status === 'approved' ? 'Approved' : 'Declined'}
+                  </span>
+                  {' '}{redemption.rewardIcon} {redemption.rewardName} for {profileById.get(redemption.profileId)?.displayName ?? 'a deleted profile'}
+                  {redemption.decidedAt && ` • ${formatDate(redemption.decidedAt)}`}
+                </p>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Balances */}
+      {children.length > 0 && (
+        <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 p-4">
+          <h3 className="text-white font-medium mb-3">Points</h3>
+          <div className="flex flex-wrap gap-3">
+            {children.map((child) => {
+              const balance = balances.get(child.id);
+              return (
+                <div key={child.id} className="flex items-center gap-3 px-3 py-2 bg-gray-900/40 rounded-xl">
+                  <Avatar displayName={child.displayName} avatarUrl={child.avatarUrl} className="w-8 h-8 text-sm" />
+                  <div>
+                    <p className="text-sm text-white">{child.displayName}</p>
+                    <p className="text-xs text-gray-500">
+                      {balance ? `${balance.available} to spend • ${balance.spent} spent` : '...'}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Catalog */}
+      <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+        <div className="p-4 border-b border-gray-700/50 flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Reward Catalog</h2>
+            <p className="text-sm text-gray-500">Real-world rewards children can ask for with their points.</p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => { setError(null); setEditing(emptyReward()); }}
+              className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg hover:bg-amber-400 transition-colors"
+            >
+              + New Reward
+            </button>
+          )}
+        </div>
+
+        {/* Editor */}
+        {editing && (
+          <div className="p-4 border-b border-gray-700/50 space-y-4">
+            <div className="flex flex-wrap gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Icon</label>
+                <input
+                  type="text"
+                  value={editing.icon}
+                  maxLength={4}
+                  onChange={(e) => setEditing({ ...editing, icon: e.target.value })}
+                  className={`${inputClass} w-20 text-center text-xl`}
+                />
+              </div>
+              <div className="flex-1 min-w-[12rem]">
+                <label className="block text-sm font-medium text-gray-400 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  placeholder="Pick dinner"
+                  className={`${inputClass} w-full`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-400 mb-1">Cost (points)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.cost}
+                  onChange={(e) => setEditing({ ...editing, cost: Math.floor(Number(e.target.value)) })}
+                  className={`${inputClass} w-28`}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-400 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                value={editing.description ?? ''}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                className={`${inputClass} w-full`}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm text-gray-400">Extra screen time when approved</label>
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={editing.screenTimeMinutes ?? 0}
+                onChange={(e) => setEditing({ ...editing, screenTimeMinutes: Math.max(0, Math.floor(Number(e.target.value))) || undefined })}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-sm text-gray-500">minutes (0 for none)</span>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={editing.isActive}
+                onChange={(e) => setEditing({ ...editing, isActive: e.target.checked })}
+                className="rounded"
+              />
+              Show in the reward store
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                         hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save Reward'}
+              </button>
+              <button
+                onClick={() => { setEditing(null); setError(null); }}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-700/50">
+          {rewards.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No rewards yet.</div>
+          ) : (
+            rewards.map((reward) => (
+              <div key={reward.id} className={`p-4 flex items-center gap-4 ${reward.isActive ? '' : 'opacity-50'}`}>
+                <span className="text-3xl">{reward.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-white font-medium truncate">{reward.name}</h4>
+                  <p className="text-xs text-gray-500">
+                    {reward.cost} points
+                    {reward.screenTimeMinutes && ` • +${reward.screenTimeMinutes} min screen time`}
+                    {!reward.isActive && ' • hidden'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => { setError(null); setEditing(reward); }}
+                  className="px-3 py-1.5 text-sm bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(reward)}
+                  className="px-3 py-1.5 text-sm text-red-400 rounded-lg hover:bg-red-500/20 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * ScreenTimeManager - Daily screen-time budgets per child, today's usage,
+ * and extra time grants
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile, ScreenTimeDay } from '../../types';
+import { updateProfile, subscribeToScreenTimeDay, grantExtraScreenTime } from '../../lib/firestore';
+import { getDateKey, getRemainingSeconds, getDailyBudgetMinutes, formatTimeLeft } from '../../lib/screenTime';
+import { $householdNow } from '../../stores/clockStore';
+import Avatar from '../Avatar';
+
+interface ScreenTimeManagerProps {
+  profiles: Profile[];
+  onProfilesChanged: () => void;
+}
+
+const EXTRA_TIME_OPTIONS = [15, 30, 60];
+
+export default function ScreenTimeManager({ profiles, onProfilesChanged }: ScreenTimeManagerProps) {
+  const children = profiles.filter(p => p.role === 'child');
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Screen Time</h2>
+        <p className="text-sm text-gray-500">
+          Daily viewing budgets. Leave a day blank for no limit.
+        </p>
+      </div>
+
+      <div className="divide-y divide-gray-700/50">
+        {children.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No child profiles yet.</div>
+        ) : (
+          children.map(profile => (
+            <ChildScreenTime key={profile.id} profile={profile} onSaved={onProfilesChanged} />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ChildScreenTime({ profile, onSaved }: { profile: Profile; onSaved: () => void }) {
+  const [weekday, setWeekday] = useState(profile.screenTime?.weekdayMinutes?.toString() ?? '');
+  const [weekend, setWeekend] = useState(profile.screenTime?.weekendMinutes?.toString() ?? '');
+  const [today, setToday] = useState<ScreenTimeDay | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const now = useStore($householdNow);
+  const dateKey = getDateKey(now);
+
+  // Live usage for today
+  useEffect(() => {
+    return subscribeToScreenTimeDay(profile.id, dateKey, setToday);
+  }, [profile.id, dateKey]);
+
+  const parseMinutes = (value: string): number | null | undefined => {
+    if (!value.trim()) return null;
+    const minutes = Number(value);
+    return Number.isInteger(minutes) && minutes >= 0 ? minutes : undefined;
+  };
+
+  const handleSave = async () => {
+    const weekdayMinutes = parseMinutes(weekday);
+    const weekendMinutes = parseMinutes(weekend);
+    if (weekdayMinutes === undefined || weekendMinutes === undefined) {
+      setError('Budgets must be whole minutes');
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      const noBudget = weekdayMinutes === null && weekendMinutes === null;
+      await updateProfile(profile.id, {
+        screenTime: noBudget ? undefined : { weekdayMinutes, weekendMinutes },
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save screen time budget:', err);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGrant = async (minutes: number) => {
+    try {
+      await grantExtraScreenTime(profile.id, dateKey, minutes);
+    } catch (err) {
+      console.error('Failed to grant extra time:', err);
+    }
+  };
+
+  const budgetMinutes = getDailyBudgetMinutes(profile, now);
+  const remaining = getRemainingSeconds(profile, today, now);
+  const usedMinutes = Math.round((today?.secondsUsed ?? 0) / 60);
+
+  return (
+    <div className="p-4">
+      <div className="flex items-center gap-4 mb-4">
+        <Avatar displayName={profile.displayName} avatarUrl={profile.avatarUrl} className="w-12 h-12 text-lg" />
+        <div className="flex-1 min-w-0">
+          <h4 className="text-white font-medium truncate">{profile.displayName}</h4>
+          <p className="text-xs text-gray-500">
+            Today: {usedMinutes} min watched
+            {budgetMinutes !== null && ` of ${budgetMinutes} min`}
+            {!!today?.bonusMinutes && ` (+${today.bonusMinutes} min extra)`}
+            {remaining !== null && ` • ${remaining > 0 ? `${formatTimeLeft(remaining)} left` : 'out of time'}`}
+          </p>
+        </div>
+        {budgetMinutes !== null && (
+          <div className="flex items-center gap-1">
+            {EXTRA_TIME_OPTIONS.map(minutes => (
+              <button
+                key={minutes}
+                onClick={() => handleGrant(minutes)}
+                className="px-3 py-1.5 text-sm bg-green-500/20 border border-green-500/50 text-green-400 rounded-lg
+                         hover:bg-green-500/30 transition-colors"
+                title={`Grant ${minutes} extra minutes today`}
+              >
+                +{minutes}m
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Weekdays (min)</label>
+          <input
+            type="number"
+            min={0}
+            value={weekday}
+            onChange={(e) => setWeekday(e.target.value)}
+            placeholder="No limit"
+            className="w-32 px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                     placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-400 mb-1">Weekends (min)</label>
+          <input
+            type="number"
+            min={0}
+            value={weekend}
+            onChange={(e) => setWeekend(e.target.value)}
+            placeholder="No limit"
+            className="w-32 px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                     placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+          />
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Budget'}
+        </button>
+      </div>
+    </div>
+  );
+}
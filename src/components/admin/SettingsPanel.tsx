@@ -0,0 +1,129 @@
+/**
+ * SettingsPanel - Household-wide settings (auto-lock timeouts per role)
+ */
+
+import { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import type { LockSettings, ProfileRole } from '../../types';
+import { ROLE_LABELS } from '../../lib/permissions';
+import { saveHouseholdSettings } from '../../stores/householdStore';
+import { $lockSettings } from '../../stores/lockStore';
+
+const ROLE_ORDER: ProfileRole[] = ['child', 'caregiver', 'coparent', 'admin'];
+
+// Idle timeouts as typed into the form ('' = never)
+type IdleForm = Record<ProfileRole, string>;
+
+function toIdleForm(settings: LockSettings): IdleForm {
+  const form = {} as IdleForm;
+  for (const role of ROLE_ORDER) {
+    const minutes = settings.idleMinutes[role];
+    form[role] = minutes ? String(minutes) : '';
+  }
+  return form;
+}
+
+export default function SettingsPanel() {
+  const lockSettings = useStore($lockSettings);
+  const [idleForm, setIdleForm] = useState<IdleForm>(() => toIdleForm(lockSettings));
+  const [lockOnWake, setLockOnWake] = useState(lockSettings.lockOnWake);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+
+    const idleMinutes = {} as LockSettings['idleMinutes'];
+    for (const role of ROLE_ORDER) {
+      const value = idleForm[role].trim();
+      if (!value) {
+        idleMinutes[role] = null;
+        continue;
+      }
+      const minutes = Number(value);
+      if (!Number.isInteger(minutes) || minutes <= 0) {
+        setError(`${ROLE_LABELS[role]} timeout must be a whole number of minutes`);
+        return;
+      }
+      idleMinutes[role] = minutes;
+    }
+
+    setSaving(true);
+    try {
+      await saveHouseholdSettings({ lock: { idleMinutes, lockOnWake } });
+      setMessage('Settings saved');
+      setTimeout(() => setMessage(null), 3000);
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Auto-Lock</h2>
+        <p className="text-sm text-gray-500">
+          Return to the profile picker after a period of no activity. Guardians will need their PIN again.
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-3 bg-green-500/20 border border-green-500/50 rounded-lg text-green-400 text-sm">
+            {message}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {ROLE_ORDER.map(role => (
+            <div key={role}>
+              <label className="block text-sm font-medium text-gray-400 mb-1">
+                {ROLE_LABELS[role]} idle timeout (minutes)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={idleForm[role]}
+                onChange={(e) => setIdleForm({ ...idleForm, [role]: e.target.value })}
+                placeholder="Never"
+                className="w-full px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                         placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-3 text-gray-300">
+          <input
+            type="checkbox"
+            checked={lockOnWake}
+            onChange={(e) => setLockOnWake(e.target.checked)}
+            className="w-5 h-5 rounded accent-amber-500"
+          />
+          Lock when the device wakes up
+        </label>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-amber-500 text-gray-900 font-medium rounded-lg
+                   hover:bg-amber-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
+        </button>
+      </div>
+    </form>
+  );
+}
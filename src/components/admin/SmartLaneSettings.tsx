@@ -0,0 +1,64 @@
+/**
+ * SmartLaneSettings - Turn a child's computed Dashboard lanes on or off
+ */
+
+import { useState } from 'react';
+import type { Profile, SmartLaneType } from '../../types';
+import { updateProfile } from '../../lib/firestore';
+import { SMART_LANES, isSmartLaneEnabled } from '../../lib/smartLanes';
+
+interface SmartLaneSettingsProps {
+  profile: Profile;
+  onSaved: () => void;
+}
+
+export default function SmartLaneSettings({ profile, onSaved }: SmartLaneSettingsProps) {
+  const [saving, setSaving] = useState<SmartLaneType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = async (type: SmartLaneType) => {
+    setError(null);
+    setSaving(type);
+    try {
+      await updateProfile(profile.id, {
+        smartLanes: { ...profile.smartLanes, [type]: !isSmartLaneEnabled(profile, type) },
+      });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save smart lanes:', err);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-gray-800/40 rounded-xl border border-gray-700/50">
+      <h3 className="text-white font-medium">Smart lanes</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Shown above {profile.displayName}'s lanes, built from what they've watched. Locked lanes and path steps stay locked.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {SMART_LANES.map(({ type, title, description }) => {
+          const enabled = isSmartLaneEnabled(profile, type);
+          return (
+            <button
+              key={type}
+              onClick={() => handleToggle(type)}
+              disabled={saving !== null}
+              title={description}
+              className={`px-3 py-1.5 text-sm rounded-lg border transition-colors disabled:opacity-50
+                ${enabled
+                  ? 'bg-amber-500/20 border-amber-500/50 text-amber-300'
+                  : 'bg-gray-800/60 border-gray-700 text-gray-500 line-through'
+                }`}
+            >
+              {title}
+            </button>
+          );
+        })}
+      </div>
+      {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
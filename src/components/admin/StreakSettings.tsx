@@ -0,0 +1,60 @@
+/**
+ * StreakSettings - How many missed days a month a child's streak survives
+ */
+
+import { useState } from 'react';
+import type { Profile } from '../../types';
+import { updateProfile } from '../../lib/firestore';
+
+interface StreakSettingsProps {
+  profile: Profile;
+  onSaved: () => void;
+}
+
+const FREEZE_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+export default function StreakSettings({ profile, onSaved }: StreakSettingsProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const freezes = profile.streakFreezes ?? 0;
+
+  const handleChange = async (streakFreezes: number) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await updateProfile(profile.id, { streakFreezes });
+      onSaved();
+    } catch (err) {
+      console.error('Failed to save streak freezes:', err);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-gray-800/40 rounded-xl border border-gray-700/50">
+      <h3 className="text-white font-medium">Streak freezes</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Missed days each month that don't break {profile.displayName}'s streak - for weekends away or sick days.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {FREEZE_OPTIONS.map((count) => (
+          <button
+            key={count}
+            onClick={() => handleChange(count)}
+            disabled={saving || count === freezes}
+            className={`w-10 py-1.5 text-sm rounded-lg border transition-colors
+              ${count === freezes
+                ? 'bg-sky-500/20 border-sky-500/50 text-sky-300'
+                : 'bg-gray-800/60 border-gray-700 text-gray-400 hover:text-white disabled:opacity-50'
+              }`}
+          >
+            {count}
+          </button>
+        ))}
+      </div>
+      {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+/**
+ * WatchTimeline - Day-by-day log of what each child opened, when, and for how long
+ * Built from the viewing sessions the player logs (see saveWatchSession)
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile, WatchSession, ContentType } from '../../types';
+import { getWatchSessionsForDay } from '../../lib/firestore';
+import { getDateKey, shiftDateKey } from '../../lib/screenTime';
+import { toZonedDate } from '../../lib/clock';
+import { $householdNow } from '../../stores/clockStore';
+import { $household } from '../../stores/householdStore';
+import Avatar from '../Avatar';
+
+interface WatchTimelineProps {
+  profiles: Profile[];
+}
+
+const TYPE_ICONS: Record<ContentType, string> = {
+  youtube_video: '🎬',
+  web_link: '🌐',
+  static_image: '🖼️',
+};
+
+function formatDayLabel(dateKey: string, todayKey: string): string {
+  if (dateKey === todayKey) return 'Today';
+  if (dateKey === shiftDateKey(todayKey, -1)) return 'Yesterday';
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatMinutes(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export default function WatchTimeline({ profiles }: WatchTimelineProps) {
+  const children = profiles.filter(p => p.role === 'child');
+  const household = useStore($household);
+  const now = useStore($householdNow);
+  const todayKey = getDateKey(now);
+  const timeZone = household?.settings?.timeZone;
+
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(children[0]?.id ?? null);
+  const [dateKey, setDateKey] = useState(todayKey);
+  const [sessions, setSessions] = useState<WatchSession[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep a valid child selected as profiles change
+  useEffect(() => {
+    if (!children.some(child => child.id === selectedChildId)) {
+      setSelectedChildId(children[0]?.id ?? null);
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    if (!selectedChildId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getWatchSessionsForDay(selectedChildId, dateKey)
+      .then((daySessions) => {
+        if (!cancelled) setSessions(daySessions);
+      })
+      .catch((err) => {
+        console.error('Failed to load watch sessions:', err);
+        if (!cancelled) setError('Failed to load activity. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedChildId, dateKey]);
+
+  // Session times in household wall-clock time
+  const formatTime = (date: Date) =>
+    toZonedDate(date, timeZone).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const minuteOfDay = (date: Date) => {
+    const zoned = toZonedDate(date, timeZone);
+    return zoned.getHours() * 60 + zoned.getMinutes();
+  };
+
+  const totalSeconds = sessions.reduce((sum, session) => sum + session.secondsWatched, 0);
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50">
+        <h2 className="text-xl font-semibold text-white">Activity</h2>
+        <p className="text-sm text-gray-500">
+          Everything opened in the player, day by day.
+        </p>
+      </div>
+
+      {children.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No child profiles yet.</div>
+      ) : (
+        <div className="p-4 space-y-4">
+          {/* Child Selector */}
+          <div className="flex flex-wrap gap-2">
+            {children.map((child) => (
+              <button
+                key={child.id}
+                onClick={() => setSelectedChildId(child.id)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border transition-all
+                  ${selectedChildId === child.id
+                    ? 'bg-amber-500/20 border-amber-500 text-white'
+                    : 'bg-gray-800/40 border-gray-700/50 text-gray-400 hover:bg-gray-800/60 hover:text-white'
+                  }`}
+              >
+                <Avatar displayName={child.displayName} avatarUrl={child.avatarUrl} className="w-8 h-8 text-sm" />
+                <span className="font-medium">{child.displayName}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Day Navigation */}
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={() => setDateKey(shiftDateKey(dateKey, -1))}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              ← Previous
+            </button>
+            <div className="text-center">
+              <p className="text-white font-medium">{formatDayLabel(dateKey, todayKey)}</p>
+              <p className="text-xs text-gray-500">
+                {sessions.length} {sessions.length === 1 ? 'session' : 'sessions'} • {formatMinutes(totalSeconds)} watched
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {dateKey !== todayKey && (
+                <button
+                  onClick={() => setDateKey(todayKey)}
+                  className="px-3 py-1.5 text-sm text-amber-400 hover:text-amber-300 transition-colors"
+                >
+                  Today
+                </button>
+              )}
+              <button
+                onClick={() => setDateKey(shiftDateKey(dateKey, 1))}
+                disabled={dateKey >= todayKey}
+                className="px-3 py-1.5 text-sm bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600
+                         disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+
+          {/* Day Strip - where the sessions fall across 24 hours */}
+          <div className="relative h-3 bg-gray-900/60 rounded-full overflow-hidden">
+            {sessions.map((session) => {
+              const start = minuteOfDay(session.startedAt);
+              // Sessions that run past midnight stop at the end of the strip
+              const end = getDateKey(toZonedDate(session.endedAt, timeZone)) === session.date
+                ? minuteOfDay(session.endedAt)
+                : 24 * 60;
+              return (
+                <div
+                  key={session.id}
+                  className="absolute inset-y-0 bg-amber-500/80"
+                  style={{
+                    left: `${(start / (24 * 60)) * 100}%`,
+                    width: `max(2px, ${((end - start) / (24 * 60)) * 100}%)`,
+                  }}
+                  title={`${formatTime(session.startedAt)} ${session.itemTitle}`}
+                />
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-600 -mt-2">
+            <span>12am</span>
+            <span>6am</span>
+            <span>12pm</span>
+            <span>6pm</span>
+            <span>12am</span>
+          </div>
+
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+
+          {/* Sessions */}
+          {loading ? (
+            <div className="py-8 flex justify-center">
+              <div className="w-8 h-8 border-4 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="py-6 text-center text-gray-500">Nothing watched on this day.</p>
+          ) : (
+            <ol className="relative border-l border-gray-700/60 ml-2 space-y-4">
+              {sessions.map((session) => (
+                <li key={session.id} className="pl-5 relative">
+                  <span className="absolute -left-[7px] top-1.5 w-3 h-3 rounded-full bg-amber-500 ring-4 ring-gray-800" />
+                  <p className="text-xs text-gray-500">
+                    {formatTime(session.startedAt)} – {formatTime(session.endedAt)}
+                  </p>
+                  <p className="text-white font-medium">
+                    <span className="mr-2">{TYPE_ICONS[session.itemType]}</span>
+                    {session.itemTitle}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.laneTitle} • {formatMinutes(session.secondsWatched)} watched
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * XpLedger - Every XP award a child has had, with the option to take one back
+ * Reversed awards stay listed (struck through) and can be given back again
+ */
+
+import { useState, useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Profile, XpEntry, XpReason } from '../../types';
+import { getXpLedger, setXpEntryReversed } from '../../lib/firestore';
+import { getTotalXp, getLevel } from '../../lib/xp';
+import { toZonedDate } from '../../lib/clock';
+import { hasPermission } from '../../lib/permissions';
+import { $guardianRole } from '../../stores/profileStore';
+import { $household } from '../../stores/householdStore';
+
+interface XpLedgerProps {
+  profiles: Profile[];
+}
+
+const REASON_ICONS: Record<XpReason, string> = {
+  completion: '✅',
+  path_step: '🗺️',
+  streak: '🔥',
+};
+
+export default function XpLedger({ profiles }: XpLedgerProps) {
+  const children = profiles.filter(p => p.role === 'child');
+  const guardianRole = useStore($guardianRole);
+  const household = useStore($household);
+  const canReverse = hasPermission(guardianRole, 'reset_progress');
+
+  const [profileId, setProfileId] = useState<string>(children[0]?.id ?? '');
+  const [entries, setEntries] = useState<XpEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep a valid child selected as profiles change
+  useEffect(() => {
+    if (!children.some(child => child.id === profileId)) {
+      setProfileId(children[0]?.id ?? '');
+    }
+  }, [profiles]);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getXpLedger(profileId)
+      .then((ledger) => {
+        if (!cancelled) setEntries(ledger);
+      })
+      .catch((err) => {
+        console.error('Failed to load XP ledger:', err);
+        if (!cancelled) setError('Failed to load XP. Please try again.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const handleToggle = async (entry: XpEntry) => {
+    const reversed = !entry.reversedAt;
+    setUpdating(entry.id);
+    setError(null);
+    try {
+      await setXpEntryReversed(entry.id, reversed);
+      setEntries(entries.map(e => e.id === entry.id ? { ...e, reversedAt: reversed ? new Date() : undefined } : e));
+    } catch (err) {
+      console.error('Failed to update XP entry:', err);
+      setError('Failed to update. Please try again.');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const level = getLevel(getTotalXp(entries));
+  const formatDate = (date: Date) =>
+    toZonedDate(date, household?.settings?.timeZone).toLocaleString([], {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="bg-gray-800/40 rounded-2xl border border-gray-700/50 overflow-hidden">
+      {/* Header */}
+      <div className="p-4 border-b border-gray-700/50 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">XP Ledger</h2>
+          <p className="text-sm text-gray-500">Points earned for completions, path steps and streaks.</p>
+        </div>
+        {children.length > 0 && (
+          <select
+            value={profileId}
+            onChange={(e) => setProfileId(e.target.value)}
+            className="px-3 py-2 bg-gray-900/50 border border-gray-700 rounded-lg text-white
+                     focus:outline-none focus:ring-2 focus:ring-amber-500"
+          >
+            {children.map((child) => (
+              <option key={child.id} value={child.id}>{child.displayName}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {children.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No child profiles yet.</div>
+      ) : loading ? (
+        <div className="p-6 text-center text-gray-500">Loading...</div>
+      ) : (
+        <>
+          <div className="p-4 flex items-center gap-6 border-b border-gray-700/50">
+            <div>
+              <p className="text-2xl font-bold text-amber-400">Level {level.level}</p>
+              <p className="text-xs text-gray-500">{level.levelSpan - level.levelXp} XP to the next level</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-white">{level.totalXp}</p>
+              <p className="text-xs text-gray-500">XP in total</p>
+            </div>
+          </div>
+
+          {error && <p className="mx-4 mt-4 text-red-400 text-sm">{error}</p>}
+
+          {entries.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No XP earned yet.</div>
+          ) : (
+            <div className="divide-y divide-gray-700/50 max-h-[28rem] overflow-y-auto">
+              {entries.map((entry) => (
+                <div key={entry.id} className="px-4 py-3 flex items-center gap-3">
+                  <span className="text-lg">{REASON_ICONS[entry.reason]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${entry.reversedAt ? 'text-gray-500 line-through' : 'text-white'}`}>
+                      {entry.description}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(entry.createdAt)}
+                      {entry.reversedAt && ` • taken back ${formatDate(entry.reversedAt)}`}
+                    </p>
+                  </div>
+                  <span className={`text-sm font-medium ${entry.reversedAt ? 'text-gray-500' : 'text-amber-400'}`}>
+                    +{entry.amount} XP
+                  </span>
+                  {canReverse && (
+                    <button
+                      onClick={() => handleToggle(entry)}
+                      disabled={updating !== null}
+                      className="px-3 py-1.5 text-xs rounded-lg bg-gray-700 text-gray-300
+                               hover:bg-gray-600 hover:text-white disabled:opacity-50 transition-colors"
+                    >
+                      {entry.reversedAt ? 'Give back' : 'Take back'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Age Levels - Derive a child's AgeLevel from their birthdate
+ * Keeps LaneGenerator's age guidelines in step as children grow up
+ */
+
+import type { AgeLevel } from '../types';
+
+export const AGE_LEVEL_LABELS: Record<AgeLevel, string> = {
+  toddler: 'Toddler (0-3)',
+  preschool: 'Preschool (3-5)',
+  elementary: 'Elementary (6-12)',
+  teen: 'Teen (13-17)',
+  adult: 'Adult (18+)',
+};
+
+// Youngest age (in whole years) for each level, oldest first
+const AGE_LEVEL_MIN_AGES: { level: AgeLevel; minAge: number }[] = [
+  { level: 'adult', minAge: 18 },
+  { level: 'teen', minAge: 13 },
+  { level: 'elementary', minAge: 6 },
+  { level: 'preschool', minAge: 3 },
+  { level: 'toddler', minAge: 0 },
+];
+
+/**
+ * Whole years between a YYYY-MM-DD birthdate and today
+ * Returns null for a missing or unparseable birthdate
+ */
+export function getAgeInYears(birthdate: string | undefined, today = new Date()): number | null {
+  const match = birthdate?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  let age = today.getFullYear() - year;
+  const hadBirthdayThisYear =
+    today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+  if (!hadBirthdayThisYear) age -= 1;
+  return age >= 0 ? age : null;
+}
+
+export function getAgeLevelForAge(age: number): AgeLevel {
+  return AGE_LEVEL_MIN_AGES.find(({ minAge }) => age >= minAge)?.level ?? 'toddler';
+}
+
+/**
+ * Age level for a birthdate (null if no usable birthdate)
+ */
+export function getAgeLevelForBirthdate(birthdate: string | undefined, today = new Date()): AgeLevel | null {
+  const age = getAgeInYears(birthdate, today);
+  return age === null ? null : getAgeLevelForAge(age);
+}
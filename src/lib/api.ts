@@ -0,0 +1,99 @@
+/**
+ * API Client - Calls our server API routes as the signed-in parent
+ * Attaches the Firebase ID token and the active household to every request
+ */
+
+import { auth } from './firebase';
+import { getActiveHouseholdId } from './firestore';
+
+/**
+ * Error thrown for non-2xx API responses
+ */
+export class ApiRequestError extends Error {
+  status: number;
+  data: Record<string, unknown>;
+
+  constructor(status: number, data: Record<string, unknown>) {
+    super(typeof data.error === 'string' ? data.error : `Request failed (${status})`);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+async function buildHeaders(sessionToken?: string | null): Promise<Record<string, string>> {
+  const headers: Record<string, string> = {};
+
+  const idToken = await auth.currentUser?.getIdToken();
+  if (idToken) {
+    headers.Authorization = `Bearer ${idToken}`;
+  }
+  if (sessionToken) {
+    headers['X-Admin-Session'] = sessionToken;
+  }
+  return headers;
+}
+
+async function postJson(path: string, body: Record<string, unknown>, sessionToken?: string | null): Promise<Response> {
+  return fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await buildHeaders(sessionToken)) },
+    body: JSON.stringify({ householdId: getActiveHouseholdId(), ...body }),
+  });
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiRequestError(response.status, data);
+  }
+  return data as T;
+}
+
+/**
+ * POST JSON to an API route
+ * Pass a guardian session token for routes that require an unlocked admin
+ */
+export async function apiRequest<T>(
+  path: string,
+  body: Record<string, unknown> = {},
+  sessionToken?: string | null
+): Promise<T> {
+  return parseResponse<T>(await postJson(path, body, sessionToken));
+}
+
+/**
+ * POST JSON to an API route that answers with a page (e.g. a printable certificate)
+ * Errors still come back as JSON
+ */
+export async function apiRequestPage(
+  path: string,
+  body: Record<string, unknown> = {},
+  sessionToken?: string | null
+): Promise<string> {
+  const response = await postJson(path, body, sessionToken);
+  if (!response.ok) {
+    await parseResponse(response);
+  }
+  return response.text();
+}
+
+/**
+ * POST a file (multipart form) to an API route
+ */
+export async function apiUpload<T>(
+  path: string,
+  file: File,
+  sessionToken?: string | null
+): Promise<T> {
+  const formData = new FormData();
+  formData.set('householdId', getActiveHouseholdId() ?? '');
+  formData.set('file', file);
+
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: await buildHeaders(sessionToken),
+    body: formData,
+  });
+  return parseResponse<T>(response);
+}
@@ -0,0 +1,51 @@
+/**
+ * Avatars - Built-in illustrated avatars and the initial-letter fallback
+ * Pre-readers pick their profile by picture, so every profile should have one
+ */
+
+export interface BuiltInAvatar {
+  id: string;
+  name: string;
+  url: string;
+}
+
+/**
+ * Illustrated avatars shipped in public/avatars
+ */
+export const BUILT_IN_AVATARS: BuiltInAvatar[] = [
+  { id: 'fox', name: 'Fox', url: '/avatars/fox.svg' },
+  { id: 'owl', name: 'Owl', url: '/avatars/owl.svg' },
+  { id: 'bear', name: 'Bear', url: '/avatars/bear.svg' },
+  { id: 'cat', name: 'Cat', url: '/avatars/cat.svg' },
+  { id: 'dino', name: 'Dino', url: '/avatars/dino.svg' },
+  { id: 'bunny', name: 'Bunny', url: '/avatars/bunny.svg' },
+  { id: 'panda', name: 'Panda', url: '/avatars/panda.svg' },
+  { id: 'frog', name: 'Frog', url: '/avatars/frog.svg' },
+];
+
+// Uploaded photos: max size and accepted types
+export const MAX_AVATAR_UPLOAD_BYTES = 2 * 1024 * 1024;
+export const AVATAR_UPLOAD_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Generate a nice avatar color based on name (used when there's no picture)
+ */
+export function getAvatarColor(name: string): string {
+  const colors = [
+    'from-blue-400 to-blue-600',
+    'from-purple-400 to-purple-600',
+    'from-pink-400 to-pink-600',
+    'from-orange-400 to-orange-600',
+    'from-green-400 to-green-600',
+    'from-teal-400 to-teal-600',
+    'from-red-400 to-red-600',
+    'from-indigo-400 to-indigo-600',
+  ];
+  const index = name.charCodeAt(0) % colors.length;
+  return colors[index];
+}
@@ -0,0 +1,160 @@
+/**
+ * Badge Rules - Decides which badges a profile has earned from its watch history
+ * Badges are data (see BadgeDefinition); every condition on a badge must hold
+ */
+
+import type { BadgeCondition, BadgeDefinition, EarnedBadge, LaneCategory, LaneItem, LaneWithItems, WatchRecord } from '../types';
+import { isWithinWindow, formatWindow } from './schedule';
+import { toZonedDate } from './clock';
+import { getCompletionDays, getStreak } from './streaks';
+
+/**
+ * What badge checks need to know about a lane (small enough to queue offline)
+ */
+export type BadgeLane = Pick<LaneWithItems, 'id' | 'title' | 'category'> & { items: Pick<LaneItem, 'id'>[] };
+
+export interface BadgeContext {
+  history: WatchRecord[];
+  lanes: BadgeLane[];
+  timeZone?: string; // Household zone - streak days and time windows are read in it
+  streakFreezes?: number; // Missed days a month a streak survives (Profile.streakFreezes)
+}
+
+/**
+ * Has every item in a lane been completed? Empty lanes never count
+ */
+export function isLaneComplete(lane: { items: Pick<LaneItem, 'id'>[] }, completedItemIds: Set<string>): boolean {
+  return lane.items.length > 0 && lane.items.every(item => completedItemIds.has(item.id));
+}
+
+interface ConditionResult {
+  met: boolean;
+  metadata?: Record<string, string>; // Saved with the badge, e.g. which lane was finished
+}
+
+function evaluateCondition(condition: BadgeCondition, context: BadgeContext): ConditionResult {
+  const completed = context.history.filter(record => record.completed);
+  const completedItemIds = new Set(completed.map(record => record.itemId));
+  const categoryOf = (laneId: string) => context.lanes.find(lane => lane.id === laneId)?.category;
+
+  switch (condition.type) {
+    case 'completed_count':
+      return { met: completed.length >= condition.count };
+
+    case 'lane_complete': {
+      const lane = context.lanes.find(l =>
+        (!condition.laneId || l.id === condition.laneId) && isLaneComplete(l, completedItemIds)
+      );
+      return lane ? { met: true, metadata: { laneId: lane.id, laneTitle: lane.title } } : { met: false };
+    }
+
+    case 'category_count':
+      return { met: completed.filter(record => categoryOf(record.laneId) === condition.category).length >= condition.count };
+
+    case 'categories_explored': {
+      const explored = new Set(completed.map(record => categoryOf(record.laneId)).filter(Boolean));
+      if (condition.count !== undefined) {
+        return { met: explored.size >= condition.count };
+      }
+      // Every category the child has content in - needs at least two to be exploring
+      const available = new Set<LaneCategory>(context.lanes.filter(lane => lane.items.length > 0).map(lane => lane.category));
+      return { met: available.size >= 2 && [...available].every(category => explored.has(category)) };
+    }
+
+    case 'streak':
+      return {
+        met: getStreak(getCompletionDays(context.history, context.timeZone), {
+          freezesPerMonth: context.streakFreezes,
+        }).longest >= condition.days,
+      };
+
+    case 'time_window': {
+      const inWindow = completed.filter(record =>
+        record.completedAt && isWithinWindow(condition.window, toZonedDate(record.completedAt, context.timeZone))
+      );
+      return { met: inWindow.length >= condition.count };
+    }
+  }
+}
+
+/**
+ * Has this badge been earned? Badges without conditions are never earned
+ */
+export function evaluateBadge(
+  definition: BadgeDefinition,
+  context: BadgeContext
+): { earned: boolean; metadata?: Record<string, string> } {
+  if (definition.conditions.length === 0) return { earned: false };
+
+  let metadata: Record<string, string> | undefined;
+  for (const condition of definition.conditions) {
+    const result = evaluateCondition(condition, context);
+    if (!result.met) return { earned: false };
+    if (result.metadata) metadata = { ...metadata, ...result.metadata };
+  }
+  return { earned: true, metadata };
+}
+
+export interface BadgeRecalculation {
+  toAward: { definition: BadgeDefinition; metadata?: Record<string, string> }[];
+  toRevoke: { badge: EarnedBadge; reason: 'not_earned' | 'removed' }[]; // removed = its custom badge was deleted
+  unchanged: EarnedBadge[];
+}
+
+/**
+ * Replay a profile's whole history against the current badges and compare with
+ * what they hold - badges missing from the history are backfilled, and ones the
+ * history no longer supports can be revoked
+ */
+export function recalculateBadges(
+  definitions: BadgeDefinition[],
+  context: BadgeContext,
+  earned: EarnedBadge[]
+): BadgeRecalculation {
+  const earnedTypes = new Set<string>(earned.map(badge => badge.badgeType));
+  const definitionsByType = new Map(definitions.map(definition => [definition.type, definition]));
+  const results = new Map(definitions.map(definition => [definition.type, evaluateBadge(definition, context)]));
+  const recalculation: BadgeRecalculation = { toAward: [], toRevoke: [], unchanged: [] };
+
+  definitions.forEach((definition) => {
+    const result = results.get(definition.type);
+    if (result?.earned && !earnedTypes.has(definition.type)) {
+      recalculation.toAward.push({ definition, metadata: result.metadata });
+    }
+  });
+  earned.forEach((badge) => {
+    if (!definitionsByType.has(badge.badgeType)) {
+      recalculation.toRevoke.push({ badge, reason: 'removed' });
+    } else if (!results.get(badge.badgeType)?.earned) {
+      recalculation.toRevoke.push({ badge, reason: 'not_earned' });
+    } else {
+      recalculation.unchanged.push(badge);
+    }
+  });
+
+  return recalculation;
+}
+
+/**
+ * Plain-English summary of a condition, for the admin
+ */
+export function describeCondition(condition: BadgeCondition, laneTitles: Map<string, string>): string {
+  switch (condition.type) {
+    case 'completed_count':
+      return `Complete ${condition.count} ${condition.count === 1 ? 'item' : 'items'}`;
+    case 'lane_complete':
+      return condition.laneId
+        ? `Finish every item in ${laneTitles.get(condition.laneId) ?? 'a deleted lane'}`
+        : 'Finish every item in any lane';
+    case 'category_count':
+      return `Complete ${condition.count} in ${condition.category}`;
+    case 'categories_explored':
+      return condition.count !== undefined
+        ? `Complete something in ${condition.count} categories`
+        : 'Complete something in every category';
+    case 'streak':
+      return `Complete something ${condition.days} days in a row`;
+    case 'time_window':
+      return `Complete ${condition.count} during ${formatWindow(condition.window)}`;
+  }
+}
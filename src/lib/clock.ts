@@ -0,0 +1,49 @@
+/**
+ * Clock - Household wall-clock time that doesn't trust the device clock
+ * The server supplies the current instant; the household time zone turns it
+ * into the day and time that schedules, bedtimes and budgets are checked against
+ */
+
+export const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Is this a time zone the browser understands?
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Shift an instant so its local fields (getDay, getHours, ...) read as the
+ * wall-clock time in the given zone
+ */
+export function toZonedDate(date: Date, timeZone: string | undefined): Date {
+  if (!timeZone || !isValidTimeZone(timeZone)) return date;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return new Date(
+    field('year'),
+    field('month') - 1,
+    field('day'),
+    field('hour'),
+    field('minute'),
+    field('second'),
+    date.getMilliseconds()
+  );
+}
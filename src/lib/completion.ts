@@ -0,0 +1,66 @@
+/**
+ * Completion - When does watching an item count as done?
+ * Each lane sets a threshold (default 90%), items can override it, and the
+ * percentage is measured over the trimmed clip (startTime-endTime), not the full video
+ */
+
+import type { Lane, LaneItem, WatchedInterval } from '../types';
+import { isYouTubeData } from '../types';
+import { getWatchedSeconds } from './watchIntervals';
+
+export const DEFAULT_COMPLETION_THRESHOLD = 90;
+
+/**
+ * What counts as completing one item: the range that matters and the share of it to watch
+ */
+export interface CompletionRule {
+  start: number;     // Seconds
+  end: number;       // Seconds
+  threshold: number; // Percent of start-end
+}
+
+/**
+ * Threshold for an item - its own override, else the lane's, else the default
+ */
+export function getCompletionThreshold(lane: Pick<Lane, 'completionThreshold'> | undefined, item: LaneItem): number {
+  return item.completionThreshold ?? lane?.completionThreshold ?? DEFAULT_COMPLETION_THRESHOLD;
+}
+
+/**
+ * Completion rule for an item once the player knows the video's duration
+ */
+export function getCompletionRule(
+  lane: Pick<Lane, 'completionThreshold'> | undefined,
+  item: LaneItem,
+  duration: number
+): CompletionRule {
+  const data = item.data;
+  let start = 0;
+  let end = duration;
+  if (isYouTubeData(data)) {
+    start = Math.min(Math.max(data.startTime ?? 0, 0), duration);
+    end = data.endTime && data.endTime > start ? Math.min(data.endTime, duration) : duration;
+  }
+  return { start, end, threshold: getCompletionThreshold(lane, item) };
+}
+
+/**
+ * Percentage (0-100) of the rule's range covered by watched intervals
+ */
+export function getWatchedPercent(intervals: WatchedInterval[], rule: CompletionRule): number {
+  const length = rule.end - rule.start;
+  if (length <= 0) return 0;
+
+  const clipped = intervals.map(interval => ({
+    start: Math.max(interval.start, rule.start),
+    end: Math.min(interval.end, rule.end),
+  }));
+  return Math.min(Math.round((getWatchedSeconds(clipped) / length) * 100), 100);
+}
+
+/**
+ * Valid threshold input: a whole percentage from 1 to 100
+ */
+export function isValidThreshold(value: number): boolean {
+  return Number.isInteger(value) && value >= 1 && value <= 100;
+}
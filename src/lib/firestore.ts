@@ -1,6 +1,9 @@
 /**
  * Firestore Helper Functions
  * CRUD operations for profiles, lanes, and items
+ *
+ * All family data lives under households/{householdId}/... - call
+ * setActiveHousehold() once the signed-in parent's household is known.
  */
 
 import {
@@ -14,15 +17,114 @@ import {
   query,
   where,
   writeBatch,
+  runTransaction,
+  deleteField,
+  increment,
+  onSnapshot,
+  type Unsubscribe,
+  type DocumentReference,
+  type DocumentData,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { Profile, Lane, LaneItem, LaneWithItems, WatchRecord, EarnedBadge, BadgeType, LaneCategory } from '../types';
+import type { Household, Profile, Lane, LaneItem, LaneWithItems, WatchRecord, WatchSession, EarnedBadge, BadgeType, BadgeDefinition, XpEntry, Reward, RewardRedemption, ScreenTimeDay } from '../types';
+import { BADGE_DEFINITIONS } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { getAgeLevelForBirthdate } from './ageLevel';
+import { sortLaneItems } from './laneItems';
+import { applyWatchProgress, mergeWatchRecords, type WatchProgressUpdate } from './watchProgress';
+import { evaluateBadge, type BadgeLane, type BadgeContext, type BadgeRecalculation } from './badgeRules';
+
+// ============ HOUSEHOLD SCOPE ============
+
+let activeHouseholdId: string | null = null;
+
+/**
+ * Scope every helper below to a household (null when signed out)
+ */
+export function setActiveHousehold(householdId: string | null): void {
+  activeHouseholdId = householdId;
+}
+
+export function getActiveHouseholdId(): string | null {
+  return activeHouseholdId;
+}
+
+function requireHouseholdId(): string {
+  if (!activeHouseholdId) {
+    throw new Error('No household selected. Sign in first.');
+  }
+  return activeHouseholdId;
+}
+
+function householdCollection(...pathSegments: string[]) {
+  return collection(db, 'households', requireHouseholdId(), ...pathSegments);
+}
+
+function householdDoc(...pathSegments: string[]) {
+  return doc(db, 'households', requireHouseholdId(), ...pathSegments);
+}
+
+// ============ HOUSEHOLDS ============
+
+/**
+ * Find the household a signed-in parent belongs to
+ */
+export async function getHouseholdForUser(uid: string): Promise<Household | null> {
+  const householdsQuery = query(
+    collection(db, 'households'),
+    where('memberUids', 'array-contains', uid)
+  );
+  const snapshot = await getDocs(householdsQuery);
+  if (snapshot.empty) return null;
+
+  const householdDocSnap = snapshot.docs[0];
+  return toHousehold(householdDocSnap.id, householdDocSnap.data());
+}
+
+function toHousehold(id: string, data: DocumentData): Household {
+  return {
+    id,
+    name: data.name,
+    ownerUid: data.ownerUid,
+    memberUids: data.memberUids ?? [],
+    createdAt: new Date(data.createdAt),
+    ...(data.settings && { settings: data.settings }),
+  };
+}
+
+/**
+ * Listen to the active household so settings changed on another device
+ * (e.g. "pause everything") take effect right away
+ */
+export function subscribeToHousehold(callback: (household: Household | null) => void): Unsubscribe {
+  return onSnapshot(doc(db, 'households', requireHouseholdId()), (snapshot) => {
+    callback(snapshot.exists() ? toHousehold(snapshot.id, snapshot.data()) : null);
+  });
+}
+
+/**
+ * Create a new household owned by a parent account
+ */
+export async function createHousehold(name: string, ownerUid: string): Promise<Household> {
+  const id = `household-${uuidv4()}`;
+  const household: Household = {
+    id,
+    name,
+    ownerUid,
+    memberUids: [ownerUid],
+    createdAt: new Date(),
+  };
+  await setDoc(doc(db, 'households', id), {
+    ...household,
+    createdAt: household.createdAt.toISOString(),
+  });
+  return household;
+}
 
 // ============ PROFILES ============
 
 export async function getAllProfiles(): Promise<Profile[]> {
-  const profilesRef = collection(db, 'profiles');
+  const profilesRef = householdCollection('profiles');
   const snapshot = await getDocs(profilesRef);
   return snapshot.docs.map((doc) => ({
     id: doc.id,
@@ -31,16 +133,87 @@ export async function getAllProfiles(): Promise<Profile[]> {
 }
 
 export async function getProfile(profileId: string): Promise<Profile | null> {
-  const docRef = doc(db, 'profiles', profileId);
+  const docRef = householdDoc('profiles', profileId);
   const snapshot = await getDoc(docRef);
   if (!snapshot.exists()) return null;
   return { id: snapshot.id, ...snapshot.data() } as Profile;
 }
 
+export async function createProfile(profile: Omit<Profile, 'id'>): Promise<Profile> {
+  const id = `profile-${uuidv4()}`;
+  const profileWithId = { ...profile, id };
+  await setDoc(householdDoc('profiles', id), profileWithId);
+  return profileWithId as Profile;
+}
+
+// Turn undefined values into field deletes (Firestore rejects undefined)
+function withDeletedFields(updates: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+  );
+}
+
+/**
+ * Update a profile - fields set to undefined are removed
+ */
+export async function updateProfile(profileId: string, updates: Partial<Omit<Profile, 'id'>>): Promise<void> {
+  const profileRef = householdDoc('profiles', profileId);
+  await updateDoc(profileRef, withDeletedFields(updates));
+}
+
+/**
+ * Move children whose birthdate has crossed an age level boundary up to their new level
+ * Records the old level in previousAgeLevel so parents are asked to review its lanes
+ */
+export async function syncAgeLevels(profiles: Profile[]): Promise<Profile[]> {
+  const synced: Profile[] = [];
+  for (const profile of profiles) {
+    const ageLevel = profile.role === 'child' ? getAgeLevelForBirthdate(profile.birthdate) : null;
+    if (!ageLevel || ageLevel === profile.ageLevel) {
+      synced.push(profile);
+      continue;
+    }
+
+    // Keep the oldest unreviewed level if the child jumped twice before anyone looked
+    const previousAgeLevel = profile.previousAgeLevel ?? profile.ageLevel;
+    await updateProfile(profile.id, { ageLevel, previousAgeLevel });
+    synced.push({ ...profile, ageLevel, previousAgeLevel });
+  }
+  return synced;
+}
+
+/**
+ * Delete a profile along with its lanes (and their items), watch history, sessions,
+ * badges, XP, reward requests and screen time
+ * PIN secrets are server-only - clear them through /api/profile-pin first
+ */
+export async function deleteProfile(profileId: string): Promise<void> {
+  const refs: DocumentReference[] = [];
+  for (const collectionName of ['watchHistory', 'watchSessions', 'earnedBadges', 'xpLedger', 'rewardRedemptions', 'screenTime']) {
+    const snapshot = await getDocs(query(householdCollection(collectionName), where('profileId', '==', profileId)));
+    refs.push(...snapshot.docs.map((docSnapshot) => docSnapshot.ref));
+  }
+
+  // Batches hold at most 500 writes
+  for (let i = 0; i < refs.length; i += 500) {
+    const batch = writeBatch(db);
+    refs.slice(i, i + 500).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+
+  const lanes = await getLanesForProfile(profileId, true);
+  for (const lane of lanes) {
+    await deleteLane(lane.id);
+  }
+
+  // Last, so a delete that fails part-way leaves the profile there to try again
+  await deleteDoc(householdDoc('profiles', profileId));
+}
+
 // ============ LANES ============
 
 export async function getLanesForProfile(profileId: string, includeInactive = false): Promise<Lane[]> {
-  const lanesRef = collection(db, 'lanes');
+  const lanesRef = householdCollection('lanes');
   
   // Simple query without orderBy to avoid composite index requirement
   const lanesQuery = query(
@@ -71,19 +244,14 @@ export async function getLanesForProfile(profileId: string, includeInactive = fa
 }
 
 export async function getLaneWithItems(laneId: string): Promise<LaneWithItems | null> {
-  const laneRef = doc(db, 'lanes', laneId);
+  const laneRef = householdDoc('lanes', laneId);
   const laneSnapshot = await getDoc(laneRef);
   
   if (!laneSnapshot.exists()) return null;
   
   const lane = { id: laneSnapshot.id, ...laneSnapshot.data() } as Lane;
   
-  const itemsRef = collection(db, 'lanes', laneId, 'items');
-  const itemsSnapshot = await getDocs(itemsRef);
-  const items = itemsSnapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as LaneItem[];
+  const items = await getItemsForLane(laneId);
   
   return { ...lane, items };
 }
@@ -91,18 +259,21 @@ export async function getLaneWithItems(laneId: string): Promise<LaneWithItems |
 export async function createLane(lane: Omit<Lane, 'id'>): Promise<Lane> {
   const id = `lane-${uuidv4()}`;
   const laneWithId = { ...lane, id };
-  await setDoc(doc(db, 'lanes', id), laneWithId);
+  await setDoc(householdDoc('lanes', id), laneWithId);
   return laneWithId as Lane;
 }
 
+/**
+ * Update a lane - fields set to undefined are removed
+ */
 export async function updateLane(laneId: string, updates: Partial<Lane>): Promise<void> {
-  const laneRef = doc(db, 'lanes', laneId);
-  await updateDoc(laneRef, updates);
+  const laneRef = householdDoc('lanes', laneId);
+  await updateDoc(laneRef, withDeletedFields(updates));
 }
 
 export async function deleteLane(laneId: string): Promise<void> {
   // First delete all items in the lane
-  const itemsRef = collection(db, 'lanes', laneId, 'items');
+  const itemsRef = householdCollection('lanes', laneId, 'items');
   const itemsSnapshot = await getDocs(itemsRef);
   
   const batch = writeBatch(db);
@@ -111,35 +282,60 @@ export async function deleteLane(laneId: string): Promise<void> {
   });
   
   // Then delete the lane
-  batch.delete(doc(db, 'lanes', laneId));
+  batch.delete(householdDoc('lanes', laneId));
   await batch.commit();
 }
 
 // ============ ITEMS ============
 
+/**
+ * Get a lane's items in order
+ */
 export async function getItemsForLane(laneId: string): Promise<LaneItem[]> {
-  const itemsRef = collection(db, 'lanes', laneId, 'items');
+  const itemsRef = householdCollection('lanes', laneId, 'items');
   const snapshot = await getDocs(itemsRef);
-  return snapshot.docs.map((doc) => ({
+  return sortLaneItems(snapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-  })) as LaneItem[];
+  })) as LaneItem[]);
 }
 
+/**
+ * Add an item - it goes to the end of the lane unless a position is given
+ */
 export async function createItem(laneId: string, item: Omit<LaneItem, 'id'>): Promise<LaneItem> {
   const id = `item-${uuidv4()}`;
-  const itemWithId = { ...item, id };
-  await setDoc(doc(db, 'lanes', laneId, 'items', id), itemWithId);
+  let position = item.position;
+  if (position === undefined) {
+    const existing = await getItemsForLane(laneId);
+    position = Math.max(existing.length, ...existing.map(existingItem => (existingItem.position ?? -1) + 1));
+  }
+  const itemWithId = { ...item, id, position, addedAt: item.addedAt ?? new Date().toISOString() };
+  await setDoc(householdDoc('lanes', laneId, 'items', id), itemWithId);
   return itemWithId as LaneItem;
 }
 
+/**
+ * Update an item - fields set to undefined are removed
+ */
 export async function updateItem(laneId: string, itemId: string, updates: Partial<LaneItem>): Promise<void> {
-  const itemRef = doc(db, 'lanes', laneId, 'items', itemId);
-  await updateDoc(itemRef, updates);
+  const itemRef = householdDoc('lanes', laneId, 'items', itemId);
+  await updateDoc(itemRef, withDeletedFields(updates));
+}
+
+/**
+ * Save a new item order (item IDs first to last)
+ */
+export async function reorderItems(laneId: string, itemIds: string[]): Promise<void> {
+  const batch = writeBatch(db);
+  itemIds.forEach((itemId, position) => {
+    batch.update(householdDoc('lanes', laneId, 'items', itemId), { position });
+  });
+  await batch.commit();
 }
 
 export async function deleteItem(laneId: string, itemId: string): Promise<void> {
-  const itemRef = doc(db, 'lanes', laneId, 'items', itemId);
+  const itemRef = householdDoc('lanes', laneId, 'items', itemId);
   await deleteDoc(itemRef);
 }
 
@@ -173,99 +369,51 @@ export function getYouTubeThumbnail(videoId: string): string {
 
 /**
  * Update watch progress for an item (creates if doesn't exist)
+ * Newly watched intervals are merged with what's stored (see lib/watchProgress.ts),
+ * so replaying an update that may already have been written is harmless
+ * Read and written in a transaction so two devices replaying at once both keep their intervals
  * Returns the updated record and whether it was newly completed
  */
-export async function updateWatchProgress(
-  profileId: string, 
-  laneId: string, 
-  itemId: string,
-  currentPosition: number,
-  duration: number
-): Promise<{ record: WatchRecord; newlyCompleted: boolean }> {
-  const id = `${profileId}_${itemId}`;
-  const docRef = doc(db, 'watchHistory', id);
-  const now = new Date();
-  
-  // Calculate progress
-  const progressPercent = duration > 0 ? Math.round((currentPosition / duration) * 100) : 0;
-  const completed = progressPercent >= 90;
-  
-  // Check if record exists
-  const existing = await getDoc(docRef);
-  let newlyCompleted = false;
-  
-  if (existing.exists()) {
-    // Update existing record
-    const existingData = existing.data();
-    const wasCompleted = existingData.completed || false;
-    newlyCompleted = completed && !wasCompleted;
-    
-    const updates: Record<string, unknown> = {
-      lastPosition: currentPosition,
-      duration,
-      progressPercent,
-      completed,
-      updatedAt: now.toISOString(),
-    };
-    
-    // Only set completedAt if newly completed
-    if (newlyCompleted) {
-      updates.completedAt = now.toISOString();
-    }
-    
-    await updateDoc(docRef, updates);
-    
-    return {
-      record: {
-        id,
-        profileId,
-        laneId,
-        itemId,
-        lastPosition: currentPosition,
-        duration,
-        progressPercent,
-        completed,
-        startedAt: new Date(existingData.startedAt),
-        updatedAt: now,
-        completedAt: newlyCompleted ? now : (existingData.completedAt ? new Date(existingData.completedAt) : undefined),
-      },
-      newlyCompleted,
-    };
-  } else {
-    // Create new record
-    newlyCompleted = completed;
-    
-    const watchRecord: WatchRecord = {
-      id,
-      profileId,
-      laneId,
-      itemId,
-      lastPosition: currentPosition,
-      duration,
-      progressPercent,
-      completed,
-      startedAt: now,
-      updatedAt: now,
-    };
-    
-    if (completed) {
-      watchRecord.completedAt = now;
-    }
-    
+export async function updateWatchProgress(update: WatchProgressUpdate): Promise<{ record: WatchRecord; newlyCompleted: boolean }> {
+  const docRef = householdDoc('watchHistory', `${update.profileId}_${update.itemId}`);
+
+  return runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(docRef);
+    const { record, newlyCompleted } = applyWatchProgress(
+      existing.exists() ? toWatchRecord(existing.id, existing.data()) : null,
+      update
+    );
+
     const dataToSave: Record<string, unknown> = {
-      ...watchRecord,
-      startedAt: now.toISOString(),
-      updatedAt: now.toISOString(),
+      ...record,
+      startedAt: record.startedAt.toISOString(),
+      updatedAt: record.updatedAt.toISOString(),
     };
-    
-    if (completed) {
-      dataToSave.completedAt = now.toISOString();
+    if (record.completedAt) {
+      dataToSave.completedAt = record.completedAt.toISOString();
     }
-    
-    await setDoc(docRef, dataToSave);
-    
-    return { record: watchRecord, newlyCompleted };
-  }
+    transaction.set(docRef, dataToSave);
+
+    return { record, newlyCompleted };
+  });
+}
+
+function toWatchRecord(id: string, data: DocumentData): WatchRecord {
+  return {
+    id,
+    profileId: data.profileId,
+    laneId: data.laneId,
+    itemId: data.itemId,
+    lastPosition: data.lastPosition || 0,
+    duration: data.duration || 0,
+    progressPercent: data.progressPercent || 0,
+    completed: data.completed === true,
+    ...(data.watchedIntervals && { watchedIntervals: data.watchedIntervals }),
+    ...(data.watchedSeconds !== undefined && { watchedSeconds: data.watchedSeconds }),
+    startedAt: new Date(data.startedAt),
+    updatedAt: new Date(data.updatedAt),
+    completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
+  };
 }
 
 /**
@@ -273,40 +421,28 @@ export async function updateWatchProgress(
  */
 export async function getWatchRecord(profileId: string, itemId: string): Promise<WatchRecord | null> {
   const id = `${profileId}_${itemId}`;
-  const docRef = doc(db, 'watchHistory', id);
+  const docRef = householdDoc('watchHistory', id);
   const snapshot = await getDoc(docRef);
   
   if (!snapshot.exists()) return null;
-  
-  const data = snapshot.data();
-  return {
-    ...data,
-    id: snapshot.id,
-    startedAt: new Date(data.startedAt),
-    updatedAt: new Date(data.updatedAt),
-    completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
-  } as WatchRecord;
+  return toWatchRecord(snapshot.id, snapshot.data());
 }
 
 /**
- * Get all watch records for a profile
+ * Get all watch records for a profile - a failed read throws
+ * Use this when an empty history would be acted on (e.g. revoking badges)
+ */
+export async function readWatchHistory(profileId: string): Promise<WatchRecord[]> {
+  const snapshot = await getDocs(query(householdCollection('watchHistory'), where('profileId', '==', profileId)));
+  return snapshot.docs.map((docSnap) => toWatchRecord(docSnap.id, docSnap.data()));
+}
+
+/**
+ * Get all watch records for a profile (empty if the read fails)
  */
 export async function getWatchHistory(profileId: string): Promise<WatchRecord[]> {
-  const watchRef = collection(db, 'watchHistory');
-  const watchQuery = query(watchRef, where('profileId', '==', profileId));
-  
   try {
-    const snapshot = await getDocs(watchQuery);
-    return snapshot.docs.map((docSnap) => {
-      const data = docSnap.data();
-      return {
-        ...data,
-        id: docSnap.id,
-        startedAt: new Date(data.startedAt),
-        updatedAt: new Date(data.updatedAt),
-        completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
-      } as WatchRecord;
-    });
+    return await readWatchHistory(profileId);
   } catch (error) {
     console.error('Error fetching watch history:', error);
     return [];
@@ -329,13 +465,133 @@ export async function getWatchProgressMap(profileId: string): Promise<Map<string
   return new Map(history.map(w => [w.itemId, w]));
 }
 
+// ============ WATCH SESSIONS ============
+
+function toWatchSession(id: string, data: DocumentData): WatchSession {
+  return {
+    id,
+    profileId: data.profileId,
+    laneId: data.laneId,
+    laneTitle: data.laneTitle,
+    itemId: data.itemId,
+    itemTitle: data.itemTitle,
+    itemType: data.itemType,
+    date: data.date,
+    startedAt: new Date(data.startedAt),
+    endedAt: new Date(data.endedAt),
+    secondsWatched: data.secondsWatched || 0,
+    ...(data.completed === true && { completed: true }),
+  };
+}
+
+/**
+ * Log a viewing session (the id comes from the client, so a retried write is harmless)
+ */
+export async function recordWatchSession(session: WatchSession): Promise<void> {
+  await setDoc(householdDoc('watchSessions', session.id), {
+    ...session,
+    startedAt: session.startedAt.toISOString(),
+    endedAt: session.endedAt.toISOString(),
+  });
+}
+
+/**
+ * Get a profile's sessions on a day (YYYY-MM-DD), in the order they started
+ */
+export async function getWatchSessionsForDay(profileId: string, date: string): Promise<WatchSession[]> {
+  // Equality filters only - no composite index needed
+  const sessionsQuery = query(
+    householdCollection('watchSessions'),
+    where('profileId', '==', profileId),
+    where('date', '==', date)
+  );
+  const snapshot = await getDocs(sessionsQuery);
+  return snapshot.docs
+    .map((docSnap) => toWatchSession(docSnap.id, docSnap.data()))
+    .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
+
+/**
+ * Get every session a profile has logged (for reports)
+ */
+export async function getWatchSessions(profileId: string): Promise<WatchSession[]> {
+  const snapshot = await getDocs(query(householdCollection('watchSessions'), where('profileId', '==', profileId)));
+  return snapshot.docs.map((docSnap) => toWatchSession(docSnap.id, docSnap.data()));
+}
+
+// ============ SCREEN TIME ============
+
+function toScreenTimeDay(id: string, data: DocumentData): ScreenTimeDay {
+  return {
+    id,
+    profileId: data.profileId,
+    date: data.date,
+    secondsUsed: data.secondsUsed || 0,
+    bonusMinutes: data.bonusMinutes || 0,
+    updatedAt: new Date(data.updatedAt),
+  };
+}
+
+/**
+ * Get screen time used by a profile on a day (YYYY-MM-DD)
+ */
+export async function getScreenTimeDay(profileId: string, date: string): Promise<ScreenTimeDay | null> {
+  const snapshot = await getDoc(householdDoc('screenTime', `${profileId}_${date}`));
+  return snapshot.exists() ? toScreenTimeDay(snapshot.id, snapshot.data()) : null;
+}
+
+/**
+ * Get every day of screen time recorded for a profile (for reports)
+ */
+export async function getScreenTimeDays(profileId: string): Promise<ScreenTimeDay[]> {
+  const snapshot = await getDocs(query(householdCollection('screenTime'), where('profileId', '==', profileId)));
+  return snapshot.docs.map((docSnap) => toScreenTimeDay(docSnap.id, docSnap.data()));
+}
+
+/**
+ * Listen to a day's screen time so extra time granted elsewhere shows up right away
+ */
+export function subscribeToScreenTimeDay(
+  profileId: string,
+  date: string,
+  callback: (day: ScreenTimeDay | null) => void
+): Unsubscribe {
+  return onSnapshot(householdDoc('screenTime', `${profileId}_${date}`), (snapshot) => {
+    callback(snapshot.exists() ? toScreenTimeDay(snapshot.id, snapshot.data()) : null);
+  });
+}
+
+/**
+ * Add viewing time to a day (atomic, so several devices can count at once)
+ */
+export async function addScreenTimeUsage(profileId: string, date: string, seconds: number): Promise<void> {
+  await setDoc(householdDoc('screenTime', `${profileId}_${date}`), {
+    profileId,
+    date,
+    secondsUsed: increment(seconds),
+    updatedAt: new Date().toISOString(),
+  }, { merge: true });
+}
+
+/**
+ * Grant a profile extra minutes for a day
+ */
+export async function grantExtraScreenTime(profileId: string, date: string, minutes: number): Promise<void> {
+  await setDoc(householdDoc('screenTime', `${profileId}_${date}`), {
+    profileId,
+    date,
+    bonusMinutes: increment(minutes),
+    updatedAt: new Date().toISOString(),
+  }, { merge: true });
+}
+
 // ============ BADGES ============
 
 /**
  * Get earned badges for a profile
  */
 export async function getEarnedBadges(profileId: string): Promise<EarnedBadge[]> {
-  const badgesRef = collection(db, 'earnedBadges');
+  const badgesRef = householdCollection('earnedBadges');
   const badgesQuery = query(badgesRef, where('profileId', '==', profileId));
   
   try {
@@ -364,7 +620,7 @@ export async function awardBadge(
 ): Promise<EarnedBadge | null> {
   // Check if already earned
   const id = `${profileId}_${badgeType}`;
-  const existingRef = doc(db, 'earnedBadges', id);
+  const existingRef = householdDoc('earnedBadges', id);
   const existing = await getDoc(existingRef);
   
   if (existing.exists()) {
@@ -392,73 +648,287 @@ export async function awardBadge(
 }
 
 /**
- * Check and award badges based on COMPLETED videos only
+ * Check every badge (built-in and the household's own) against the watch history
+ * and award the ones newly earned (see lib/badgeRules.ts)
  * Returns array of newly earned badges
  */
 export async function checkAndAwardBadges(
   profileId: string,
   watchHistory: WatchRecord[],
-  lanes: LaneWithItems[]
+  lanes: BadgeLane[],
+  options: Pick<BadgeContext, 'timeZone' | 'streakFreezes'> = {}
 ): Promise<EarnedBadge[]> {
   const newBadges: EarnedBadge[] = [];
-  
-  // Only count COMPLETED videos for badges
-  const completedRecords = watchHistory.filter(w => w.completed);
-  const totalCompleted = completedRecords.length;
-  const completedItemIds = new Set(completedRecords.map(w => w.itemId));
-  
-  console.log(`Badge check: ${totalCompleted} completed videos out of ${watchHistory.length} total`);
-  
-  // First Watch badge - complete your first video
-  if (totalCompleted >= 1) {
-    const badge = await awardBadge(profileId, 'first_watch');
+  const definitions = [...BADGE_DEFINITIONS, ...await getCustomBadges()];
+  const context: BadgeContext = { history: watchHistory, lanes, ...options };
+
+  for (const definition of definitions) {
+    const { earned, metadata } = evaluateBadge(definition, context);
+    if (!earned) continue;
+    const badge = await awardBadge(profileId, definition.type, metadata);
     if (badge) newBadges.push(badge);
   }
-  
-  // 5 Videos badge
-  if (totalCompleted >= 5) {
-    const badge = await awardBadge(profileId, 'five_videos');
-    if (badge) newBadges.push(badge);
+
+  return newBadges;
+}
+
+/**
+ * Apply a badge recalculation (see recalculateBadges) - awards what's missing,
+ * and deletes the badges no longer justified when `revoke` is set
+ */
+export async function applyBadgeRecalculation(
+  profileId: string,
+  recalculation: BadgeRecalculation,
+  revoke: boolean
+): Promise<{ awarded: EarnedBadge[]; revoked: number }> {
+  const awarded: EarnedBadge[] = [];
+  for (const { definition, metadata } of recalculation.toAward) {
+    const badge = await awardBadge(profileId, definition.type, metadata);
+    if (badge) awarded.push(badge);
   }
-  
-  // 10 Videos badge
-  if (totalCompleted >= 10) {
-    const badge = await awardBadge(profileId, 'ten_videos');
-    if (badge) newBadges.push(badge);
+
+  if (!revoke || recalculation.toRevoke.length === 0) {
+    return { awarded, revoked: 0 };
   }
-  
-  // 25 Videos badge
-  if (totalCompleted >= 25) {
-    const badge = await awardBadge(profileId, 'twenty_five_videos');
-    if (badge) newBadges.push(badge);
+  const batch = writeBatch(db);
+  recalculation.toRevoke.forEach(({ badge }) => batch.delete(householdDoc('earnedBadges', badge.id)));
+  await batch.commit();
+  return { awarded, revoked: recalculation.toRevoke.length };
+}
+
+// ============ CUSTOM BADGES ============
+
+/**
+ * Badges created by the household's parents - a failed read throws
+ */
+export async function readCustomBadges(): Promise<BadgeDefinition[]> {
+  const snapshot = await getDocs(householdCollection('badgeDefinitions'));
+  return snapshot.docs
+    .map((docSnap) => ({ ...docSnap.data(), type: docSnap.id }) as BadgeDefinition)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Badges created by the household's parents (empty if the read fails)
+ */
+export async function getCustomBadges(): Promise<BadgeDefinition[]> {
+  try {
+    return await readCustomBadges();
+  } catch (error) {
+    console.error('Error fetching custom badges:', error);
+    return [];
   }
-  
-  // Lane Master badge - check if any lane is fully completed
-  for (const lane of lanes) {
-    if (lane.items.length > 0) {
-      const allCompleted = lane.items.every(item => completedItemIds.has(item.id));
-      if (allCompleted) {
-        const badge = await awardBadge(profileId, 'lane_master', { laneId: lane.id, laneTitle: lane.title });
-        if (badge) newBadges.push(badge);
-        break; // Only award once
-      }
-    }
+}
+
+/**
+ * Create or update a custom badge (its type is its document id)
+ */
+export async function saveCustomBadge(badge: BadgeDefinition): Promise<void> {
+  const { imageUrl, ...rest } = badge;
+  await setDoc(householdDoc('badgeDefinitions', badge.type), imageUrl ? { ...rest, imageUrl } : rest);
+}
+
+/**
+ * Delete a custom badge - children keep it if already earned, but it's no longer shown
+ */
+export async function deleteCustomBadge(type: BadgeType): Promise<void> {
+  await deleteDoc(householdDoc('badgeDefinitions', type));
+}
+
+// ============ XP ============
+
+function toXpEntry(id: string, data: DocumentData): XpEntry {
+  return {
+    id,
+    profileId: data.profileId,
+    amount: data.amount || 0,
+    reason: data.reason,
+    ...(data.laneId && { laneId: data.laneId }),
+    ...(data.itemId && { itemId: data.itemId }),
+    description: data.description ?? '',
+    createdAt: new Date(data.createdAt),
+    reversedAt: data.reversedAt ? new Date(data.reversedAt) : undefined,
+  };
+}
+
+/**
+ * A profile's XP ledger, newest first (reversed entries included)
+ */
+export async function getXpLedger(profileId: string): Promise<XpEntry[]> {
+  const snapshot = await getDocs(query(householdCollection('xpLedger'), where('profileId', '==', profileId)));
+  return snapshot.docs
+    .map((docSnap) => toXpEntry(docSnap.id, docSnap.data()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Add XP awards to the ledger - an entry already there is left alone
+ * Returns the entries actually added
+ */
+export async function awardXp(entries: XpEntry[]): Promise<XpEntry[]> {
+  const added: XpEntry[] = [];
+  for (const entry of entries) {
+    const entryRef = householdDoc('xpLedger', entry.id);
+    if ((await getDoc(entryRef)).exists()) continue;
+
+    const { reversedAt, ...rest } = entry;
+    await setDoc(entryRef, { ...rest, createdAt: entry.createdAt.toISOString() });
+    added.push(entry);
   }
-  
-  // Explorer badge - completed videos from all 4 categories
-  const categoriesCompleted = new Set<LaneCategory>();
-  for (const record of completedRecords) {
-    const lane = lanes.find(l => l.id === record.laneId);
-    if (lane) {
-      categoriesCompleted.add(lane.category);
-    }
+  return added;
+}
+
+/**
+ * Take an award's points back, or give them back again
+ */
+export async function setXpEntryReversed(entryId: string, reversed: boolean): Promise<void> {
+  await updateDoc(householdDoc('xpLedger', entryId), {
+    reversedAt: reversed ? new Date().toISOString() : deleteField(),
+  });
+}
+
+// ============ REWARDS ============
+
+/**
+ * The household's reward catalog, cheapest first
+ */
+export async function getRewards(): Promise<Reward[]> {
+  const snapshot = await getDocs(householdCollection('rewards'));
+  return snapshot.docs
+    .map((docSnap) => ({ ...docSnap.data(), id: docSnap.id }) as Reward)
+    .sort((a, b) => a.cost - b.cost || a.name.localeCompare(b.name));
+}
+
+/**
+ * Create or update a reward
+ */
+export async function saveReward(reward: Reward): Promise<void> {
+  const { id, description, screenTimeMinutes, ...rest } = reward;
+  await setDoc(householdDoc('rewards', id), {
+    ...rest,
+    ...(description && { description }),
+    ...(screenTimeMinutes && { screenTimeMinutes }),
+  });
+}
+
+export async function deleteReward(rewardId: string): Promise<void> {
+  await deleteDoc(householdDoc('rewards', rewardId));
+}
+
+function toRedemption(id: string, data: DocumentData): RewardRedemption {
+  return {
+    id,
+    profileId: data.profileId,
+    rewardId: data.rewardId,
+    rewardName: data.rewardName,
+    rewardIcon: data.rewardIcon,
+    cost: data.cost || 0,
+    ...(data.screenTimeMinutes && { screenTimeMinutes: data.screenTimeMinutes }),
+    status: data.status,
+    requestedAt: new Date(data.requestedAt),
+    decidedAt: data.decidedAt ? new Date(data.decidedAt) : undefined,
+  };
+}
+
+/**
+ * Reward requests, newest first - one profile's, or the whole household's
+ */
+export async function getRedemptions(profileId?: string): Promise<RewardRedemption[]> {
+  const redemptionsRef = householdCollection('rewardRedemptions');
+  const snapshot = await getDocs(profileId ? query(redemptionsRef, where('profileId', '==', profileId)) : redemptionsRef);
+  return snapshot.docs
+    .map((docSnap) => toRedemption(docSnap.id, docSnap.data()))
+    .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+}
+
+/**
+ * Ask for a reward - waits for a parent to approve or decline it
+ */
+export async function requestRedemption(profileId: string, reward: Reward, requestedAt: Date): Promise<RewardRedemption> {
+  const redemption: RewardRedemption = {
+    id: uuidv4(),
+    profileId,
+    rewardId: reward.id,
+    rewardName: reward.name,
+    rewardIcon: reward.icon,
+    cost: reward.cost,
+    status: 'pending',
+    requestedAt,
+  };
+  if (reward.screenTimeMinutes) {
+    redemption.screenTimeMinutes = reward.screenTimeMinutes;
   }
-  if (categoriesCompleted.size >= 4) {
-    const badge = await awardBadge(profileId, 'explorer');
-    if (badge) newBadges.push(badge);
+
+  const { id, ...data } = redemption;
+  await setDoc(householdDoc('rewardRedemptions', id), { ...data, requestedAt: requestedAt.toISOString() });
+  return redemption;
+}
+
+/**
+ * Approve or decline a request - approving a screen-time reward grants the
+ * minutes on `date` (the household's today)
+ */
+export async function decideRedemption(
+  redemption: RewardRedemption,
+  status: 'approved' | 'declined',
+  date: string
+): Promise<void> {
+  await updateDoc(householdDoc('rewardRedemptions', redemption.id), {
+    status,
+    decidedAt: new Date().toISOString(),
+  });
+  if (status === 'approved' && redemption.screenTimeMinutes) {
+    await grantExtraScreenTime(redemption.profileId, date, redemption.screenTimeMinutes);
   }
-  
-  return newBadges;
+}
+
+// ============ RESTORE ============
+
+/**
+ * Restore watch history and badges (e.g. from an export) into a profile
+ * Merges with what's there, so restoring the same file twice changes nothing
+ * Returns how many records and badges were written
+ */
+export async function restoreProfileHistory(
+  profileId: string,
+  records: WatchRecord[],
+  badges: EarnedBadge[]
+): Promise<{ records: number; badges: number }> {
+  // Read directly (not getWatchHistory) so a failed read stops the restore instead of overwriting
+  const [historySnapshot, badgesSnapshot] = await Promise.all([
+    getDocs(query(householdCollection('watchHistory'), where('profileId', '==', profileId))),
+    getDocs(query(householdCollection('earnedBadges'), where('profileId', '==', profileId))),
+  ]);
+  const existingRecords = new Map(historySnapshot.docs.map(docSnap => [docSnap.id, toWatchRecord(docSnap.id, docSnap.data())]));
+  const existingBadgeIds = new Set(badgesSnapshot.docs.map(docSnap => docSnap.id));
+
+  const writes: { id: string; collectionName: string; data: Record<string, unknown> }[] = [];
+  for (const restored of records) {
+    const record = mergeWatchRecords(existingRecords.get(restored.id), restored);
+    writes.push({
+      id: record.id,
+      collectionName: 'watchHistory',
+      data: {
+        ...record,
+        startedAt: record.startedAt.toISOString(),
+        updatedAt: record.updatedAt.toISOString(),
+        ...(record.completedAt && { completedAt: record.completedAt.toISOString() }),
+      },
+    });
+  }
+  const newBadges = badges.filter(badge => !existingBadgeIds.has(badge.id));
+  for (const badge of newBadges) {
+    writes.push({ id: badge.id, collectionName: 'earnedBadges', data: { ...badge, earnedAt: badge.earnedAt.toISOString() } });
+  }
+
+  // Batches hold at most 500 writes
+  for (let i = 0; i < writes.length; i += 500) {
+    const batch = writeBatch(db);
+    writes.slice(i, i + 500).forEach(({ id, collectionName, data }) => batch.set(householdDoc(collectionName, id), data));
+    await batch.commit();
+  }
+
+  return { records: records.length, badges: newBadges.length };
 }
 
 // ============ DEV TOOLS ============
@@ -467,7 +937,7 @@ export async function checkAndAwardBadges(
  * Clear all watch history for a profile (DEV ONLY)
  */
 export async function clearWatchHistoryForProfile(profileId: string): Promise<number> {
-  const watchRef = collection(db, 'watchHistory');
+  const watchRef = householdCollection('watchHistory');
   const watchQuery = query(watchRef, where('profileId', '==', profileId));
   
   const snapshot = await getDocs(watchQuery);
@@ -486,7 +956,7 @@ export async function clearWatchHistoryForProfile(profileId: string): Promise<nu
  * Clear all badges for a profile (DEV ONLY)
  */
 export async function clearBadgesForProfile(profileId: string): Promise<number> {
-  const badgesRef = collection(db, 'earnedBadges');
+  const badgesRef = householdCollection('earnedBadges');
   const badgesQuery = query(badgesRef, where('profileId', '==', profileId));
   
   const snapshot = await getDocs(badgesQuery);
@@ -0,0 +1,207 @@
+/**
+ * History Export - Learning records for evaluators (CSV) and backups (JSON)
+ * Watch records are joined with lane and item titles; the JSON file can be
+ * imported again to restore a profile's history
+ */
+
+import type { Profile, LaneCategory, LaneWithItems, WatchRecord, EarnedBadge, BadgeType, BadgeDefinition } from '../types';
+import { BADGE_DEFINITIONS } from '../types';
+import { getDateKey } from './screenTime';
+import { toZonedDate } from './clock';
+
+export const EXPORT_VERSION = 1;
+
+export interface ExportedWatchRecord extends Omit<WatchRecord, 'startedAt' | 'updatedAt' | 'completedAt'> {
+  laneTitle: string | null;    // null when the lane has since been deleted
+  laneCategory: LaneCategory | null;
+  itemTitle: string | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface ExportedBadge extends Omit<EarnedBadge, 'earnedAt'> {
+  name: string;
+  earnedAt: string;
+}
+
+export interface ProfileExport {
+  version: number;
+  exportedAt: string;
+  profile: { id: string; displayName: string };
+  range: { from: string; to: string }; // YYYY-MM-DD in the household time zone, inclusive
+  watchHistory: ExportedWatchRecord[];
+  badges: ExportedBadge[];
+}
+
+/**
+ * Build an export of everything a profile watched (last touched) or earned in a date range
+ */
+export function buildProfileExport(options: {
+  profile: Profile;
+  lanes: LaneWithItems[];
+  history: WatchRecord[];
+  badges: EarnedBadge[];
+  badgeDefinitions: BadgeDefinition[];
+  from: string;
+  to: string;
+  timeZone?: string;
+  exportedAt: Date;
+}): ProfileExport {
+  const { profile, lanes, history, badges, badgeDefinitions, from, to, timeZone, exportedAt } = options;
+  const inRange = (date: Date) => {
+    const key = getDateKey(toZonedDate(date, timeZone));
+    return key >= from && key <= to;
+  };
+  const laneById = new Map(lanes.map(lane => [lane.id, lane]));
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    profile: { id: profile.id, displayName: profile.displayName },
+    range: { from, to },
+    watchHistory: history
+      .filter(record => inRange(record.updatedAt))
+      .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+      .map((record) => {
+        const lane = laneById.get(record.laneId);
+        const { completedAt, ...rest } = record;
+        return {
+          ...rest,
+          laneTitle: lane?.title ?? null,
+          laneCategory: lane?.category ?? null,
+          itemTitle: lane?.items.find(item => item.id === record.itemId)?.title ?? null,
+          startedAt: record.startedAt.toISOString(),
+          updatedAt: record.updatedAt.toISOString(),
+          ...(completedAt && { completedAt: completedAt.toISOString() }),
+        };
+      }),
+    badges: badges
+      .filter(badge => inRange(badge.earnedAt))
+      .sort((a, b) => a.earnedAt.getTime() - b.earnedAt.getTime())
+      .map(badge => ({
+        ...badge,
+        name: badgeDefinitions.find(def => def.type === badge.badgeType)?.name ?? badge.badgeType,
+        earnedAt: badge.earnedAt.toISOString(),
+      })),
+  };
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function toCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Stop spreadsheets from running titles like "=1+1" as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Watch history as CSV - one row per item
+ */
+export function watchHistoryToCsv(data: ProfileExport): string {
+  return toCsv(
+    ['profile', 'lane', 'category', 'item', 'progress_percent', 'minutes_watched', 'completed', 'started_at', 'last_watched_at', 'completed_at'],
+    data.watchHistory.map(record => [
+      data.profile.displayName,
+      record.laneTitle ?? '(deleted lane)',
+      record.laneCategory,
+      record.itemTitle ?? '(deleted item)',
+      Math.round(record.progressPercent),
+      record.watchedSeconds !== undefined ? Math.round(record.watchedSeconds / 60) : null,
+      record.completed ? 'yes' : 'no',
+      record.startedAt,
+      record.updatedAt,
+      record.completedAt,
+    ])
+  );
+}
+
+/**
+ * Badges as CSV - metadata is flattened to key=value pairs
+ */
+export function badgesToCsv(data: ProfileExport): string {
+  return toCsv(
+    ['profile', 'badge', 'earned_at', 'details'],
+    data.badges.map(badge => [
+      data.profile.displayName,
+      badge.name,
+      badge.earnedAt,
+      Object.entries(badge.metadata ?? {}).map(([key, value]) => `${key}=${value}`).join('; '),
+    ])
+  );
+}
+
+/**
+ * Read an exported JSON file back into records for a profile
+ * Throws with a message fit for the admin UI when the file isn't an export
+ */
+export function parseProfileExport(
+  text: string,
+  profileId: string
+): { exportedFor: string; watchHistory: WatchRecord[]; badges: EarnedBadge[] } {
+  let data: ProfileExport;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('That file is not valid JSON');
+  }
+  if (!data || data.version !== EXPORT_VERSION || !Array.isArray(data.watchHistory) || !Array.isArray(data.badges)) {
+    throw new Error('That file is not a Learning Lanes export');
+  }
+
+  const toDate = (value: unknown): Date => {
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) {
+      throw new Error('The export contains an invalid date');
+    }
+    return date;
+  };
+
+  const watchHistory = data.watchHistory.map((record): WatchRecord => {
+    if (typeof record.itemId !== 'string' || typeof record.laneId !== 'string') {
+      throw new Error('The export contains a watch record without an item');
+    }
+    const restored: WatchRecord = {
+      id: `${profileId}_${record.itemId}`,
+      profileId,
+      laneId: record.laneId,
+      itemId: record.itemId,
+      lastPosition: Number(record.lastPosition) || 0,
+      duration: Number(record.duration) || 0,
+      progressPercent: Number(record.progressPercent) || 0,
+      completed: record.completed === true,
+      startedAt: toDate(record.startedAt),
+      updatedAt: toDate(record.updatedAt),
+    };
+    if (Array.isArray(record.watchedIntervals)) {
+      restored.watchedIntervals = record.watchedIntervals
+        .filter(interval => Number.isFinite(interval?.start) && Number.isFinite(interval?.end))
+        .map(({ start, end }) => ({ start, end }));
+    }
+    if (record.watchedSeconds !== undefined) restored.watchedSeconds = Number(record.watchedSeconds) || 0;
+    if (record.completedAt) restored.completedAt = toDate(record.completedAt);
+    return restored;
+  });
+
+  // Custom badges are kept even if this household doesn't have them (yet)
+  const badgeTypes = new Set<string>(BADGE_DEFINITIONS.map(def => def.type));
+  const badges = data.badges
+    .filter(badge => badgeTypes.has(badge.badgeType) || String(badge.badgeType).startsWith('custom-'))
+    .map((badge): EarnedBadge => ({
+      id: `${profileId}_${badge.badgeType}`,
+      profileId,
+      badgeType: badge.badgeType as BadgeType,
+      earnedAt: toDate(badge.earnedAt),
+      ...(badge.metadata && { metadata: badge.metadata }),
+    }));
+
+  return { exportedFor: data.profile?.displayName ?? 'unknown profile', watchHistory, badges };
+}
@@ -0,0 +1,18 @@
+/**
+ * Lane Items - The order items appear in within a lane
+ * Shared by the client helpers and the server (e.g. certificates) so both list items the same way
+ */
+
+import type { LaneItem } from '../types';
+
+/**
+ * Items in lane order - items saved before positions existed keep their stored order at the end
+ */
+export function sortLaneItems<T extends Pick<LaneItem, 'position'>>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      (a.item.position ?? Infinity) - (b.item.position ?? Infinity) || a.index - b.index
+    )
+    .map(({ item }) => item);
+}
@@ -0,0 +1,24 @@
+/**
+ * Learning Paths - Lanes taught in order, where each item unlocks once the one
+ * before it is completed (see lib/completion.ts)
+ */
+
+import type { Lane, LaneItem } from '../types';
+
+export type PathStepState = 'done' | 'current' | 'locked';
+
+export function isPathLane(lane: Pick<Lane, 'mode'>): boolean {
+  return lane.mode === 'path';
+}
+
+/**
+ * State of every step on a path, in item order
+ * Completed steps stay open for re-watching
+ */
+export function getPathSteps(items: LaneItem[], completedItemIds: Set<string>): PathStepState[] {
+  return items.map((item, index) => {
+    if (completedItemIds.has(item.id)) return 'done';
+    const previous = items[index - 1];
+    return !previous || completedItemIds.has(previous.id) ? 'current' : 'locked';
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Permissions - What each guardian role may do in the admin area
+ * Shared by the admin components and the server API routes
+ */
+
+import type { ProfileRole } from '../types';
+
+export type Permission =
+  | 'manage_profiles'  // Create/edit/delete profiles, set PINs and avatars
+  | 'edit_content'     // Add lanes, add/edit/approve items, show or hide lanes
+  | 'delete_content'   // Delete lanes and items
+  | 'generate_lanes'   // Use the AI lane generator
+  | 'reset_progress'   // Clear watch history and badges
+  | 'manage_limits'    // Screen time, schedules and other limits
+  | 'view_reports';    // Progress and activity reports
+
+/**
+ * Permission matrix - children never unlock the admin area
+ */
+export const ROLE_PERMISSIONS: Record<ProfileRole, Permission[]> = {
+  admin: [
+    'manage_profiles',
+    'edit_content',
+    'delete_content',
+    'generate_lanes',
+    'reset_progress',
+    'manage_limits',
+    'view_reports',
+  ],
+  coparent: [
+    'edit_content',
+    'delete_content',
+    'generate_lanes',
+    'reset_progress',
+    'manage_limits',
+    'view_reports',
+  ],
+  caregiver: [
+    'edit_content',
+    'view_reports',
+  ],
+  child: [],
+};
+
+export const ROLE_LABELS: Record<ProfileRole, string> = {
+  admin: 'Admin',
+  coparent: 'Co-parent',
+  caregiver: 'Caregiver',
+  child: 'Child',
+};
+
+/**
+ * Guardians (every role except child) unlock the admin area with a PIN
+ */
+export function isGuardianRole(role: ProfileRole | null | undefined): boolean {
+  return !!role && role !== 'child';
+}
+
+export function hasPermission(role: ProfileRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,96 @@
+/**
+ * Reports - Aggregations behind the parent insights dashboard
+ * Pure functions over data already in Firestore (screen time, watch history, sessions)
+ */
+
+import type { LaneCategory, LaneWithItems, ScreenTimeDay, WatchRecord, WatchSession } from '../types';
+import { shiftDateKey } from './screenTime';
+
+// An unfinished item is abandoned once it's below this percent...
+export const ABANDONED_PERCENT = 50;
+
+// ...and hasn't been touched for this many days
+export const ABANDONED_AFTER_DAYS = 7;
+
+export interface ChartPoint {
+  key: string; // Day key, or the first day of the week
+  minutes: number;
+}
+
+/**
+ * Minutes watched on each of the last `count` days, oldest first
+ */
+export function getMinutesPerDay(days: ScreenTimeDay[], todayKey: string, count: number): ChartPoint[] {
+  const secondsByDate = new Map(days.map(day => [day.date, day.secondsUsed]));
+  return Array.from({ length: count }, (_, index) => {
+    const key = shiftDateKey(todayKey, index - count + 1);
+    return { key, minutes: Math.round((secondsByDate.get(key) ?? 0) / 60) };
+  });
+}
+
+/**
+ * Minutes watched in each of the last `count` weeks (Sunday to Saturday), oldest first
+ */
+export function getMinutesPerWeek(days: ScreenTimeDay[], todayKey: string, count: number): ChartPoint[] {
+  const [year, month, day] = todayKey.split('-').map(Number);
+  const thisWeek = shiftDateKey(todayKey, -new Date(year, month - 1, day).getDay());
+
+  return Array.from({ length: count }, (_, index) => {
+    const weekStart = shiftDateKey(thisWeek, (index - count + 1) * 7);
+    const weekEnd = shiftDateKey(weekStart, 6);
+    const seconds = days
+      .filter(d => d.date >= weekStart && d.date <= weekEnd)
+      .reduce((sum, d) => sum + d.secondsUsed, 0);
+    return { key: weekStart, minutes: Math.round(seconds / 60) };
+  });
+}
+
+/**
+ * Completed items per lane category, most first
+ * Items from lanes that have since been deleted count as 'Other'
+ */
+export function getCompletionsByCategory(
+  history: WatchRecord[],
+  lanes: LaneWithItems[]
+): { category: LaneCategory; count: number }[] {
+  const categoryByLane = new Map(lanes.map(lane => [lane.id, lane.category]));
+  const counts = new Map<LaneCategory, number>();
+
+  for (const record of history.filter(r => r.completed)) {
+    const category = categoryByLane.get(record.laneId) ?? 'Other';
+    counts.set(category, (counts.get(category) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Items opened more than once, most opened first
+ */
+export function getMostRewatched(
+  sessions: WatchSession[],
+  limit: number
+): { itemId: string; itemTitle: string; laneTitle: string; sessions: number }[] {
+  const byItem = new Map<string, { itemId: string; itemTitle: string; laneTitle: string; sessions: number }>();
+  for (const session of sessions) {
+    const entry = byItem.get(session.itemId)
+      ?? { itemId: session.itemId, itemTitle: session.itemTitle, laneTitle: session.laneTitle, sessions: 0 };
+    entry.sessions += 1;
+    byItem.set(session.itemId, entry);
+  }
+  return [...byItem.values()]
+    .filter(entry => entry.sessions > 1)
+    .sort((a, b) => b.sessions - a.sessions)
+    .slice(0, limit);
+}
+
+/**
+ * Items started but left well short of the end, stalest first
+ */
+export function getAbandonedItems(history: WatchRecord[], now: Date): WatchRecord[] {
+  const cutoff = now.getTime() - ABANDONED_AFTER_DAYS * 24 * 60 * 60 * 1000;
+  return history
+    .filter(r => !r.completed && r.progressPercent < ABANDONED_PERCENT && r.updatedAt.getTime() < cutoff)
+    .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+}
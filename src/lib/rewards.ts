@@ -0,0 +1,31 @@
+/**
+ * Rewards - The points a child can spend in the reward store
+ * Points come from XP (see lib/xp.ts) plus a bonus for every badge; requests
+ * waiting for a parent hold their points, and declined ones give them back
+ */
+
+import type { XpEntry, EarnedBadge, RewardRedemption } from '../types';
+import { getTotalXp } from './xp';
+
+// Points each earned badge adds to the balance
+export const BADGE_POINTS = 25;
+
+export interface PointsBalance {
+  earned: number;    // XP plus badge points
+  spent: number;     // Approved rewards
+  held: number;      // Requests still waiting for a parent
+  available: number; // What's left to spend
+}
+
+export function getPointsBalance(
+  xpLedger: XpEntry[],
+  badges: EarnedBadge[],
+  redemptions: RewardRedemption[]
+): PointsBalance {
+  const earned = getTotalXp(xpLedger) + badges.length * BADGE_POINTS;
+  const costOf = (status: RewardRedemption['status']) =>
+    redemptions.filter(r => r.status === status).reduce((total, r) => total + r.cost, 0);
+  const spent = costOf('approved');
+  const held = costOf('pending');
+  return { earned, spent, held, available: Math.max(0, earned - spent - held) };
+}
@@ -0,0 +1,102 @@
+/**
+ * Lane Schedules - Is a lane open right now, and when does it open next?
+ */
+
+import type { Lane, TimeWindow } from '../types';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const WEEKEND = [0, 6];
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+// "HH:MM" -> minutes after midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Is a time window open at the given moment?
+ */
+export function isWithinWindow(window: TimeWindow, now = new Date()): boolean {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const minute = now.getHours() * 60 + now.getMinutes();
+  const day = now.getDay();
+
+  if (start < end) {
+    return window.days.includes(day) && minute >= start && minute < end;
+  }
+
+  // Runs past midnight: the late part belongs to today, the early part to yesterday
+  const yesterday = (day + 6) % 7;
+  return (window.days.includes(day) && minute >= start) || (window.days.includes(yesterday) && minute < end);
+}
+
+/**
+ * Is a lane available right now? Lanes without a schedule always are
+ */
+export function isLaneOpen(lane: Lane, now = new Date()): boolean {
+  if (!lane.schedule || lane.schedule.windows.length === 0) return true;
+  return lane.schedule.windows.some(window => isWithinWindow(window, now));
+}
+
+/**
+ * When a closed lane next opens (null if its schedule never opens)
+ */
+export function getNextOpening(lane: Lane, now = new Date()): Date | null {
+  let next: Date | null = null;
+
+  for (const window of lane.schedule?.windows ?? []) {
+    const start = toMinutes(window.start);
+    for (let offset = 0; offset <= 7; offset++) {
+      const candidate = new Date(now);
+      candidate.setDate(now.getDate() + offset);
+      candidate.setHours(Math.floor(start / 60), start % 60, 0, 0);
+      if (candidate > now && window.days.includes(candidate.getDay())) {
+        if (!next || candidate < next) next = candidate;
+        break;
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * "8:00 AM" from "08:00"
+ */
+export function formatTime(time: string): string {
+  const minutes = toMinutes(time);
+  const date = new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60);
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatDays(days: number[]): string {
+  const sorted = [...days].sort();
+  if (sorted.join() === EVERY_DAY.join()) return 'Every day';
+  if (sorted.join() === WEEKDAYS.join()) return 'Weekdays';
+  if (sorted.join() === WEEKEND.join()) return 'Weekends';
+  return sorted.map(day => DAY_LABELS[day]).join(', ');
+}
+
+/**
+ * "Weekdays 8:00 AM-3:00 PM"
+ */
+export function formatWindow(window: TimeWindow): string {
+  return `${formatDays(window.days)} ${formatTime(window.start)}–${formatTime(window.end)}`;
+}
+
+/**
+ * Child-friendly "opens ..." text for a closed lane
+ */
+export function formatNextOpening(opening: Date | null, now = new Date()): string {
+  if (!opening) return 'Not available right now';
+
+  const time = opening.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const tomorrow = new Date(now);
+  tomorrow.setDate(now.getDate() + 1);
+
+  if (opening.toDateString() === now.toDateString()) return `Opens at ${time}`;
+  if (opening.toDateString() === tomorrow.toDateString()) return `Opens tomorrow at ${time}`;
+  return `Opens ${opening.toLocaleDateString([], { weekday: 'long' })} at ${time}`;
+}
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tickViewingClock, STOPPED_VIEWING_CLOCK, MAX_TICK_SECONDS } from './screenTime';
+
+test('the first tick after a stop counts one second', () => {
+  const { clock, seconds } = tickViewingClock(STOPPED_VIEWING_CLOCK, 50_000);
+
+  assert.equal(seconds, 1);
+  assert.deepEqual(clock, { lastTickAt: 50_000, uncountedMs: 0 });
+});
+
+test('ticks count the time since the last one, carrying part-seconds', () => {
+  let clock = tickViewingClock(STOPPED_VIEWING_CLOCK, 0).clock;
+  let total = 0;
+  for (const now of [1_400, 2_800, 4_200]) {
+    const tick = tickViewingClock(clock, now);
+    clock = tick.clock;
+    total += tick.seconds;
+  }
+
+  // 4.2s elapsed - 4 whole seconds counted, 0.2s carried
+  assert.equal(total, 4);
+  assert.equal(clock.uncountedMs, 200);
+});
+
+test('a long gap between ticks is clamped', () => {
+  const clock = tickViewingClock(STOPPED_VIEWING_CLOCK, 0).clock;
+  const { seconds } = tickViewingClock(clock, 10 * 60 * 1000);
+
+  assert.equal(seconds, MAX_TICK_SECONDS);
+});
+
+test('a clock that moved backwards counts nothing', () => {
+  const clock = tickViewingClock(STOPPED_VIEWING_CLOCK, 10_000).clock;
+  const { seconds } = tickViewingClock(clock, 8_000);
+
+  assert.equal(seconds, 0);
+});
+
+test('resuming after a stop doesn\'t charge the pause', () => {
+  const playing = tickViewingClock(STOPPED_VIEWING_CLOCK, 0).clock;
+  assert.equal(tickViewingClock(playing, 60_000).seconds, MAX_TICK_SECONDS);
+  assert.equal(tickViewingClock(STOPPED_VIEWING_CLOCK, 60_000).seconds, 1);
+});
@@ -0,0 +1,92 @@
+/**
+ * Screen Time - Daily budget calculations shared by the player and the admin
+ */
+
+import type { Profile, ScreenTimeDay } from '../types';
+
+// Show the wind-down warning when this much time is left
+export const WIND_DOWN_SECONDS = 5 * 60;
+
+// Most one viewing tick can count - a longer gap means viewing stopped in between
+// (paused, hidden, device asleep) rather than time actually spent
+export const MAX_TICK_SECONDS = 5;
+
+/**
+ * Where viewing time was last measured from
+ */
+export interface ViewingClock {
+  lastTickAt: number | null; // Server time (ms) of the last tick, null while stopped
+  uncountedMs: number;       // Part-seconds carried to the next tick
+}
+
+export const STOPPED_VIEWING_CLOCK: ViewingClock = { lastTickAt: null, uncountedMs: 0 };
+
+/**
+ * Whole seconds viewed since the last tick (ticks come about once a second)
+ * The first tick after a stop counts the one second it took to arrive
+ */
+export function tickViewingClock(clock: ViewingClock, now: number): { clock: ViewingClock; seconds: number } {
+  const elapsedMs = clock.lastTickAt === null
+    ? 1000
+    : Math.min(Math.max(0, now - clock.lastTickAt), MAX_TICK_SECONDS * 1000);
+  const totalMs = clock.uncountedMs + elapsedMs;
+  const seconds = Math.floor(totalMs / 1000);
+  return { clock: { lastTickAt: now, uncountedMs: totalMs - seconds * 1000 }, seconds };
+}
+
+/**
+ * Day key (YYYY-MM-DD) from a date's local fields
+ * Pass household time (see stores/clockStore) so the day follows the household time zone
+ */
+export function getDateKey(date = new Date()): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Move a day key by whole days
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return getDateKey(new Date(year, month - 1, day + days));
+}
+
+export function isWeekend(date = new Date()): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Budget for a given day in minutes (null = unlimited)
+ */
+export function getDailyBudgetMinutes(profile: Profile, date = new Date()): number | null {
+  if (profile.role !== 'child' || !profile.screenTime) return null;
+  return isWeekend(date) ? profile.screenTime.weekendMinutes : profile.screenTime.weekdayMinutes;
+}
+
+/**
+ * Seconds left today, including extra time (null = unlimited)
+ */
+export function getRemainingSeconds(
+  profile: Profile,
+  day: Pick<ScreenTimeDay, 'secondsUsed' | 'bonusMinutes'> | null,
+  date = new Date()
+): number | null {
+  const budgetMinutes = getDailyBudgetMinutes(profile, date);
+  if (budgetMinutes === null) return null;
+
+  const allowedSeconds = (budgetMinutes + (day?.bonusMinutes ?? 0)) * 60;
+  return Math.max(allowedSeconds - (day?.secondsUsed ?? 0), 0);
+}
+
+/**
+ * Friendly countdown text, e.g. "12 min" or "45 sec"
+ */
+export function formatTimeLeft(seconds: number): string {
+  if (seconds >= 60) {
+    return `${Math.ceil(seconds / 60)} min`;
+  }
+  return `${seconds} sec`;
+}
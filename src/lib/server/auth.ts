@@ -0,0 +1,107 @@
+/**
+ * Request Authentication - Checks the parent's Firebase ID token and the
+ * guardian session token sent by src/lib/api.ts
+ */
+
+import { getAdminAuth, getAdminDb } from './firebaseAdmin';
+import { verifySessionToken, type AdminSessionClaims } from './session';
+import { hasPermission, type Permission } from '../permissions';
+import type { ProfileRole } from '../../types';
+
+export const SESSION_HEADER = 'X-Admin-Session';
+
+/**
+ * Error carrying the HTTP status an API route should respond with
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * Require a signed-in parent who belongs to the given household
+ * Returns the parent's Firebase Auth uid
+ */
+export async function requireHouseholdMember(request: Request, householdId: string): Promise<string> {
+  const header = request.headers.get('Authorization') || '';
+  const idToken = header.startsWith('Bearer ') ? header.slice(7) : null;
+  if (!idToken) {
+    throw new ApiError(401, 'Sign in required');
+  }
+
+  let uid: string;
+  try {
+    ({ uid } = await getAdminAuth().verifyIdToken(idToken));
+  } catch {
+    throw new ApiError(401, 'Sign in required');
+  }
+
+  const household = await getAdminDb().collection('households').doc(householdId).get();
+  const memberUids: string[] = household.data()?.memberUids ?? [];
+  if (!memberUids.includes(uid)) {
+    throw new ApiError(403, 'Not a member of this household');
+  }
+
+  return uid;
+}
+
+/**
+ * Require an unlocked guardian session for the household
+ */
+export async function requireAdminSession(request: Request, householdId: string): Promise<AdminSessionClaims> {
+  await requireHouseholdMember(request, householdId);
+
+  const token = request.headers.get(SESSION_HEADER);
+  const claims = token ? verifySessionToken(token) : null;
+  if (!claims || claims.householdId !== householdId) {
+    throw new ApiError(401, 'Admin PIN required');
+  }
+  return claims;
+}
+
+/**
+ * Require an unlocked guardian session whose role grants a permission
+ * The role is re-read from the profile so a demoted guardian loses access immediately
+ */
+export async function requirePermission(
+  request: Request,
+  householdId: string,
+  permission: Permission
+): Promise<AdminSessionClaims> {
+  const claims = await requireAdminSession(request, householdId);
+
+  const profile = await getAdminDb().doc(`households/${householdId}/profiles/${claims.profileId}`).get();
+  const role = profile.data()?.role as ProfileRole | undefined;
+  if (!hasPermission(role, permission)) {
+    throw new ApiError(403, 'Your role does not allow this');
+  }
+  return { ...claims, role: role! };
+}
+
+/**
+ * JSON response helper shared by API routes
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Turn a thrown error into a JSON error response
+ */
+export function errorResponse(error: unknown, fallbackMessage: string): Response {
+  if (error instanceof ApiError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+  console.error(fallbackMessage, error);
+  return jsonResponse({
+    error: error instanceof Error ? error.message : fallbackMessage,
+  }, 500);
+}
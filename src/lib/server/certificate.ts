@@ -0,0 +1,76 @@
+/**
+ * Lane Certificates - Print-ready page awarded for finishing every item in a lane
+ * Self-contained HTML (inline styles, no scripts beyond the print button) so it
+ * prints the same from any browser, or saves as a PDF from the print dialog
+ */
+
+export interface CertificateData {
+  childName: string;
+  laneTitle: string;
+  category: string;
+  householdName: string;
+  completedOn: string; // Already formatted in the household time zone
+  items: string[];     // Titles, in lane order
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderCertificateHtml(data: CertificateData): string {
+  const { childName, laneTitle, category, householdName, completedOn, items } = data;
+  const itemList = items.map(title => `<li>${escapeHtml(title)}</li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(childName)} - ${escapeHtml(laneTitle)} certificate</title>
+<style>
+  @page { size: A4 landscape; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; color: #1f2937; background: #f3f4f6; }
+  .certificate {
+    max-width: 273mm; min-height: 186mm; margin: 24px auto; padding: 16mm 20mm;
+    background: #fffdf7; border: 3mm double #d97706; text-align: center;
+    display: flex; flex-direction: column; justify-content: center;
+  }
+  .eyebrow { letter-spacing: 0.3em; text-transform: uppercase; font-size: 12pt; color: #b45309; margin: 0; }
+  h1 { font-size: 34pt; margin: 6mm 0 2mm; }
+  .presented { font-style: italic; margin: 0; }
+  .name { font-size: 30pt; font-weight: bold; margin: 4mm 0; border-bottom: 1px solid #d97706; display: inline-block; padding: 0 12mm 2mm; }
+  .lane { font-size: 16pt; margin: 2mm 0 6mm; }
+  .items { columns: 2; column-gap: 12mm; text-align: left; font-size: 10pt; margin: 0 auto; max-width: 220mm; padding-left: 5mm; }
+  .items li { break-inside: avoid; margin-bottom: 1mm; }
+  .footer { display: flex; justify-content: space-between; margin-top: 10mm; font-size: 11pt; }
+  .footer div { border-top: 1px solid #9ca3af; padding-top: 2mm; min-width: 60mm; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 10px 18px; font-size: 14px; border: 0; border-radius: 8px; background: #f59e0b; cursor: pointer; }
+  @media print {
+    body { background: none; }
+    .certificate { margin: 0 auto; }
+    .print { display: none; }
+  }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print</button>
+<main class="certificate">
+  <p class="eyebrow">Certificate of Completion</p>
+  <h1>Well done!</h1>
+  <p class="presented">This certifies that</p>
+  <p><span class="name">${escapeHtml(childName)}</span></p>
+  <p class="lane">completed every lesson in <strong>${escapeHtml(laneTitle)}</strong> (${escapeHtml(category)})</p>
+  <ol class="items">${itemList}</ol>
+  <div class="footer">
+    <div>Completed ${escapeHtml(completedOn)}</div>
+    <div>${escapeHtml(householdName)}</div>
+  </div>
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Firebase Admin - Server-only Firestore and Auth access
+ * Used by API routes for data the browser must never read (e.g. PIN hashes)
+ *
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT (service account JSON),
+ * falling back to Google application default credentials.
+ */
+
+import { initializeApp, getApps, cert, applicationDefault, type App } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+
+/**
+ * Shared Admin app instance (initialized on first use)
+ */
+export function getAdminApp(): App {
+  const existing = getApps()[0];
+  if (existing) return existing;
+
+  const serviceAccount = import.meta.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: import.meta.env.PUBLIC_FIREBASE_PROJECT_ID,
+  });
+}
+
+/**
+ * Admin Firestore instance (bypasses security rules - server use only)
+ */
+export function getAdminDb(): Firestore {
+  return getFirestore(getAdminApp());
+}
+
+/**
+ * Admin Auth instance for verifying parent ID tokens
+ */
+export function getAdminAuth(): Auth {
+  return getAuth(getAdminApp());
+}
@@ -0,0 +1,51 @@
+/**
+ * Image Uploads - Shared handling for the photo and artwork upload routes
+ * Files go through the storage provider (local disk in dev, Firebase Storage in production)
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { requirePermission, jsonResponse, errorResponse } from './auth';
+import { createStorageProvider } from '../storage';
+import { AVATAR_UPLOAD_TYPES, MAX_AVATAR_UPLOAD_BYTES } from '../avatars';
+import type { Permission } from '../permissions';
+
+export interface ImageUploadOptions {
+  prefix: string;          // Folder under households/{id}/, e.g. 'avatars'
+  permission: Permission;  // Needed by the guardian uploading
+  label: string;           // What the image is, for error messages ('Photos', 'Artwork')
+  failureMessage: string;
+}
+
+/**
+ * Store an image posted as multipart form data (householdId + file) and respond with its URL
+ */
+export async function handleImageUpload(request: Request, options: ImageUploadOptions): Promise<Response> {
+  const { prefix, permission, label, failureMessage } = options;
+  try {
+    const formData = await request.formData();
+    const householdId = formData.get('householdId');
+    const file = formData.get('file');
+
+    if (typeof householdId !== 'string' || !(file instanceof File)) {
+      return jsonResponse({ error: 'householdId and file are required' }, 400);
+    }
+
+    await requirePermission(request, householdId, permission);
+
+    const extension = AVATAR_UPLOAD_TYPES[file.type];
+    if (!extension) {
+      return jsonResponse({ error: `${label} must be PNG, JPEG, WebP or GIF` }, 400);
+    }
+    if (file.size > MAX_AVATAR_UPLOAD_BYTES) {
+      return jsonResponse({ error: `${label} must be 2 MB or smaller` }, 400);
+    }
+
+    const storage = createStorageProvider();
+    const path = `households/${householdId}/${prefix}/${uuidv4()}.${extension}`;
+    const url = await storage.upload(path, Buffer.from(await file.arrayBuffer()), file.type);
+
+    return jsonResponse({ url });
+  } catch (error) {
+    return errorResponse(error, failureMessage);
+  }
+}
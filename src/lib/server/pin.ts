@@ -0,0 +1,79 @@
+/**
+ * PIN Hashing & Lockout
+ * PINs are stored as salted scrypt hashes in households/{id}/pinSecrets,
+ * a collection only the server can read
+ */
+
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+const KEY_LENGTH = 64;
+
+// Failed attempts allowed before lockouts start
+const FREE_ATTEMPTS = 3;
+
+// Lockout after each further failure, escalating (seconds)
+const LOCKOUT_STEPS_SECONDS = [30, 60, 5 * 60, 15 * 60, 60 * 60];
+
+/**
+ * Stored PIN secret for a guardian profile
+ */
+export interface PinSecret {
+  hash: string;          // hex-encoded scrypt hash
+  salt: string;          // hex-encoded random salt
+  failedAttempts: number;
+  lockedUntil: string | null; // ISO timestamp
+  updatedAt: string;
+}
+
+/**
+ * Hash a PIN with a fresh random salt
+ */
+export function hashPin(pin: string): Pick<PinSecret, 'hash' | 'salt'> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(pin, salt, KEY_LENGTH).toString('hex');
+  return { hash, salt };
+}
+
+/**
+ * Check a PIN against a stored hash (constant-time comparison)
+ */
+export function verifyPinHash(pin: string, secret: Pick<PinSecret, 'hash' | 'salt'>): boolean {
+  const expected = Buffer.from(secret.hash, 'hex');
+  const actual = scryptSync(pin, secret.salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build a fresh secret record for a new PIN
+ */
+export function createPinSecret(pin: string): PinSecret {
+  return {
+    ...hashPin(pin),
+    failedAttempts: 0,
+    lockedUntil: null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * PINs are 4-6 digits
+ */
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{4,6}$/.test(pin);
+}
+
+/**
+ * How long to lock out after this many consecutive failures (0 = no lockout)
+ */
+export function getLockoutSeconds(failedAttempts: number): number {
+  if (failedAttempts <= FREE_ATTEMPTS) return 0;
+  const step = Math.min(failedAttempts - FREE_ATTEMPTS - 1, LOCKOUT_STEPS_SECONDS.length - 1);
+  return LOCKOUT_STEPS_SECONDS[step];
+}
+
+/**
+ * Attempts left before the next lockout kicks in
+ */
+export function getAttemptsRemaining(failedAttempts: number): number {
+  return Math.max(FREE_ATTEMPTS - failedAttempts, 0);
+}
@@ -0,0 +1,62 @@
+/**
+ * Admin Sessions - Short-lived, HMAC-signed tokens issued after a PIN check
+ * API routes trust these instead of whatever profile the browser claims to be
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { ProfileRole } from '../../types';
+
+// How long a PIN unlock lasts
+const DEFAULT_SESSION_SECONDS = 60 * 60;
+
+export interface AdminSessionClaims {
+  householdId: string;
+  profileId: string;
+  role: ProfileRole;
+  exp: number; // Expiry, milliseconds since epoch
+}
+
+function getSessionSecret(): string {
+  const secret = import.meta.env.ADMIN_SESSION_SECRET;
+  if (!secret) {
+    throw new Error('Server configuration error: Missing ADMIN_SESSION_SECRET');
+  }
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a signed session token for a guardian profile
+ */
+export function createSessionToken(
+  claims: Omit<AdminSessionClaims, 'exp'>,
+  ttlSeconds: number = DEFAULT_SESSION_SECONDS
+): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + ttlSeconds * 1000;
+  const payload = Buffer.from(JSON.stringify({ ...claims, exp: expiresAt })).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/**
+ * Verify a session token - returns null if tampered with or expired
+ */
+export function verifySessionToken(token: string): AdminSessionClaims | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AdminSessionClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
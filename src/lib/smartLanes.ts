@@ -0,0 +1,75 @@
+/**
+ * Smart Lanes - Dashboard rows computed from progress instead of built by a parent
+ * Only items the child can open right now are passed in, so these rows never
+ * get around schedules, unlock rules or path order
+ */
+
+import type { Profile, LaneItem, LaneWithItems, SmartLaneType, WatchRecord } from '../types';
+
+export interface SmartLaneEntry {
+  item: LaneItem;
+  lane: LaneWithItems; // The item opens as part of its own lane
+}
+
+export const SMART_LANES: { type: SmartLaneType; title: string; description: string }[] = [
+  { type: 'continue_watching', title: 'Continue Watching', description: 'Started but not finished, most recent first' },
+  { type: 'new_for_you', title: 'New for You', description: 'Added since the last visit' },
+  { type: 'watch_again', title: 'Watch Again', description: 'Finished favourites, most re-watched first' },
+];
+
+// Most items shown in one smart lane
+export const SMART_LANE_LIMIT = 10;
+
+export function isSmartLaneEnabled(profile: Profile, type: SmartLaneType): boolean {
+  return profile.smartLanes?.[type] ?? true;
+}
+
+/**
+ * Partly watched items, most recently watched first
+ */
+export function getContinueWatching(
+  entries: SmartLaneEntry[],
+  progressMap: Map<string, WatchRecord>
+): SmartLaneEntry[] {
+  return entries
+    .filter(({ item }) => {
+      const record = progressMap.get(item.id);
+      return !!record && !record.completed && record.progressPercent > 0;
+    })
+    .sort((a, b) => progressMap.get(b.item.id)!.updatedAt.getTime() - progressMap.get(a.item.id)!.updatedAt.getTime())
+    .slice(0, SMART_LANE_LIMIT);
+}
+
+/**
+ * Unopened items added since the last visit, newest first
+ * Nothing is new on a first visit
+ */
+export function getNewForYou(
+  entries: SmartLaneEntry[],
+  progressMap: Map<string, WatchRecord>,
+  lastVisitAt: Date | null
+): SmartLaneEntry[] {
+  if (!lastVisitAt) return [];
+  const since = lastVisitAt.toISOString();
+  return entries
+    .filter(({ item }) => !!item.addedAt && item.addedAt > since && !progressMap.has(item.id))
+    .sort((a, b) => (b.item.addedAt ?? '').localeCompare(a.item.addedAt ?? ''))
+    .slice(0, SMART_LANE_LIMIT);
+}
+
+/**
+ * Finished items, most opened first (then most recently finished)
+ */
+export function getWatchAgain(
+  entries: SmartLaneEntry[],
+  progressMap: Map<string, WatchRecord>,
+  openCounts: Map<string, number>
+): SmartLaneEntry[] {
+  const completedAt = (entry: SmartLaneEntry) => progressMap.get(entry.item.id)?.completedAt?.getTime() ?? 0;
+  return entries
+    .filter(({ item }) => progressMap.get(item.id)?.completed)
+    .sort((a, b) =>
+      (openCounts.get(b.item.id) ?? 0) - (openCounts.get(a.item.id) ?? 0) || completedAt(b) - completedAt(a)
+    )
+    .slice(0, SMART_LANE_LIMIT);
+}
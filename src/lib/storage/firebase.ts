@@ -0,0 +1,27 @@
+// Firebase Storage provider - used in production
+import { randomUUID } from 'node:crypto';
+import { getStorage } from 'firebase-admin/storage';
+import { getAdminApp } from '../server/firebaseAdmin';
+import type { StorageProvider } from './types';
+
+export class FirebaseStorageProvider implements StorageProvider {
+  name = 'firebase';
+
+  private get bucket() {
+    return getStorage(getAdminApp()).bucket(import.meta.env.PUBLIC_FIREBASE_STORAGE_BUCKET);
+  }
+
+  async upload(path: string, data: Buffer, contentType: string): Promise<string> {
+    // Download token makes the URL unguessable without making the bucket public
+    const token = randomUUID();
+    await this.bucket.file(path).save(data, {
+      contentType,
+      metadata: { metadata: { firebaseStorageDownloadTokens: token } },
+    });
+    return `https://firebasestorage.googleapis.com/v0/b/${this.bucket.name}/o/${encodeURIComponent(path)}?alt=media&token=${token}`;
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.bucket.file(path).delete({ ignoreNotFound: true });
+  }
+}
@@ -0,0 +1,24 @@
+// Storage provider factory - local disk in development, Firebase Storage otherwise
+import type { StorageProvider } from './types';
+import { LocalStorageProvider } from './local';
+import { FirebaseStorageProvider } from './firebase';
+
+export type StorageProviderType = 'local' | 'firebase';
+
+export function createStorageProvider(
+  type: StorageProviderType = import.meta.env.STORAGE_PROVIDER || (import.meta.env.DEV ? 'local' : 'firebase')
+): StorageProvider {
+  switch (type) {
+    case 'local':
+      return new LocalStorageProvider();
+
+    case 'firebase':
+      return new FirebaseStorageProvider();
+
+    default:
+      throw new Error(`Unknown storage provider: ${type}`);
+  }
+}
+
+// Re-export types
+export * from './types';
@@ -0,0 +1,46 @@
+// Local filesystem storage - development stand-in for Firebase Storage
+// Files are written under .uploads/ and served by /api/uploads/[...path]
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { dirname, join, relative, isAbsolute, sep } from 'node:path';
+import type { StorageProvider } from './types';
+
+export const LOCAL_UPLOAD_DIR = join(process.cwd(), '.uploads');
+
+/**
+ * Resolve a storage path inside the upload dir (rejects ../ escapes)
+ */
+export function resolveLocalPath(path: string): string {
+  const resolved = join(LOCAL_UPLOAD_DIR, path);
+  // relative() catches siblings like .uploads-old/ that a prefix check would let through
+  const inside = relative(LOCAL_UPLOAD_DIR, resolved);
+  if (!inside || inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+    throw new Error(`Invalid storage path: ${path}`);
+  }
+  return resolved;
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  name = 'local';
+
+  async upload(path: string, data: Buffer): Promise<string> {
+    const filePath = resolveLocalPath(path);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return `/api/uploads/${path}`;
+  }
+
+  async delete(path: string): Promise<void> {
+    await rm(resolveLocalPath(path), { force: true });
+  }
+}
+
+/**
+ * Read a previously uploaded file (null if missing)
+ */
+export async function readLocalUpload(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(resolveLocalPath(path));
+  } catch {
+    return null;
+  }
+}
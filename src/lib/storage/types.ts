@@ -0,0 +1,8 @@
+// Storage provider abstraction - swap between local disk (dev) and Firebase Storage
+
+export interface StorageProvider {
+  name: string;
+  /** Store a file and return a URL the browser can load it from */
+  upload(path: string, data: Buffer, contentType: string): Promise<string>;
+  delete(path: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getStreak } from './streaks';
+
+test('a gap longer than the freezes left breaks the streak without spending them', () => {
+  const days = ['2026-03-01', '2026-03-02', '2026-03-07', '2026-03-08', '2026-03-10', '2026-03-11'];
+  const streak = getStreak(days, { freezesPerMonth: 2 });
+
+  assert.equal(streak.current, 4);
+  assert.deepEqual(streak.frozenDays, ['2026-03-09']);
+});
+
+test('freezes cover a gap that fits the month\'s allowance', () => {
+  const days = ['2026-03-01', '2026-03-02', '2026-03-05'];
+  const streak = getStreak(days, { today: '2026-03-06', freezesPerMonth: 2 });
+
+  assert.equal(streak.current, 3);
+  assert.deepEqual(streak.frozenDays, ['2026-03-03', '2026-03-04']);
+  assert.equal(streak.completedToday, false);
+});
+
+test('without freezes a missed day breaks the streak', () => {
+  const streak = getStreak(['2026-03-01', '2026-03-02', '2026-03-04'], { today: '2026-03-04' });
+
+  assert.equal(streak.current, 1);
+  assert.equal(streak.longest, 2);
+  assert.equal(streak.completedToday, true);
+});
@@ -0,0 +1,80 @@
+/**
+ * Streaks - Runs of consecutive days with at least one completed item
+ * Days follow the household time zone, like schedules and budgets
+ */
+
+import type { WatchRecord } from '../types';
+import { getDateKey, shiftDateKey } from './screenTime';
+import { toZonedDate } from './clock';
+
+/**
+ * Days (YYYY-MM-DD, sorted) on which something was completed
+ */
+export function getCompletionDays(history: WatchRecord[], timeZone?: string): string[] {
+  const days = new Set(
+    history
+      .filter(record => record.completed && record.completedAt)
+      .map(record => getDateKey(toZonedDate(record.completedAt!, timeZone)))
+  );
+  return [...days].sort();
+}
+
+export interface Streak {
+  current: number;        // Days in the run still going (today counts once something is done)
+  longest: number;        // Best run ever
+  frozenDays: string[];   // Missed days in the current run that a freeze covered
+  completedToday: boolean;
+}
+
+/**
+ * Runs of consecutive days in a sorted list of day keys
+ * Today doesn't break a streak until it's over. A parent can allow a few streak
+ * freezes a month: each covers one missed day, which keeps the run going without
+ * adding to it. Freezes are only spent when they cover a whole gap - a longer gap
+ * breaks the streak and leaves the month's freezes for later
+ */
+export function getStreak(
+  days: string[],
+  options: { today?: string; freezesPerMonth?: number } = {}
+): Streak {
+  const { today, freezesPerMonth = 0 } = options;
+  const completed = new Set(days);
+  const last = today ?? days[days.length - 1];
+  const freezesUsed = new Map<string, number>(); // YYYY-MM -> freezes used
+  let current = 0;
+  let longest = 0;
+  let frozenDays: string[] = [];
+
+  let day = days[0];
+  while (day && day <= last) {
+    if (completed.has(day) || day === today) {
+      if (completed.has(day)) {
+        current += 1;
+        longest = Math.max(longest, current);
+      }
+      day = shiftDateKey(day, 1);
+      continue;
+    }
+
+    // Every missed day up to the next completion (or today)
+    const gap: string[] = [];
+    for (let missed = day; missed <= last && missed !== today && !completed.has(missed); missed = shiftDateKey(missed, 1)) {
+      gap.push(missed);
+    }
+    const needed = new Map<string, number>();
+    gap.forEach(missed => needed.set(missed.slice(0, 7), (needed.get(missed.slice(0, 7)) ?? 0) + 1));
+
+    const covered = current > 0 &&
+      [...needed].every(([month, count]) => (freezesUsed.get(month) ?? 0) + count <= freezesPerMonth);
+    if (covered) {
+      needed.forEach((count, month) => freezesUsed.set(month, (freezesUsed.get(month) ?? 0) + count));
+      frozenDays.push(...gap);
+    } else {
+      current = 0;
+      frozenDays = [];
+    }
+    day = shiftDateKey(gap[gap.length - 1], 1);
+  }
+
+  return { current, longest, frozenDays, completedToday: today !== undefined && completed.has(today) };
+}
@@ -0,0 +1,65 @@
+/**
+ * Unlock Rules - Earn-your-fun lanes that open once another lane's items are completed
+ */
+
+import type { LaneWithItems, UnlockRule, WatchRecord } from '../types';
+import { toZonedDate } from './clock';
+import { getDateKey } from './screenTime';
+
+export interface UnlockStatus {
+  unlocked: boolean;
+  completed: number; // Items counted towards the rule so far
+  remaining: number;
+}
+
+/**
+ * How far a child is towards unlocking a lane
+ * `now` is household time; completions are compared in the household time zone.
+ * For a "today" rule, an item finished before today counts again once it's played
+ * through in a session today (`sessionCompletionDays`, itemId -> household days).
+ * A rule pointing at a lane the child can't see never locks them out
+ */
+export function getUnlockStatus(
+  rule: UnlockRule,
+  requiredLane: LaneWithItems | undefined,
+  completedItemIds: Set<string>,
+  watchProgressMap: Map<string, WatchRecord>,
+  sessionCompletionDays: Map<string, Set<string>>,
+  now: Date,
+  timeZone?: string
+): UnlockStatus {
+  if (!requiredLane || requiredLane.items.length === 0) {
+    return { unlocked: true, completed: 0, remaining: 0 };
+  }
+
+  const today = getDateKey(now);
+  const completed = requiredLane.items.filter(item => {
+    if (!completedItemIds.has(item.id)) return false;
+    if (rule.period === 'ever') return true;
+    if (sessionCompletionDays.get(item.id)?.has(today)) return true;
+    const completedAt = watchProgressMap.get(item.id)?.completedAt;
+    return !!completedAt && getDateKey(toZonedDate(completedAt, timeZone)) === today;
+  }).length;
+
+  // Never ask for more items than the lane has
+  const required = Math.min(rule.requiredCount, requiredLane.items.length);
+  const remaining = Math.max(required - completed, 0);
+  return { unlocked: remaining === 0, completed, remaining };
+}
+
+/**
+ * Kid-friendly requirement, e.g. "Finish 2 more in School today to unlock!"
+ */
+export function formatUnlockRequirement(rule: UnlockRule, requiredLaneTitle: string, status: UnlockStatus): string {
+  const things = status.remaining === 1 ? 'video' : 'videos';
+  const more = status.completed > 0 ? ' more' : '';
+  const when = rule.period === 'today' ? ' today' : '';
+  return `Finish ${status.remaining}${more} ${things} in ${requiredLaneTitle}${when} to unlock!`;
+}
+
+/**
+ * Short admin summary, e.g. "Unlocks after 2 from School each day"
+ */
+export function describeUnlockRule(rule: UnlockRule, requiredLaneTitle: string): string {
+  return `Unlocks after ${rule.requiredCount} from ${requiredLaneTitle}${rule.period === 'today' ? ' each day' : ''}`;
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createWatchTracker, mergeIntervals, getWatchedSeconds } from './watchIntervals';
+
+// Report positions as the player would, one sample apart
+function play(tracker: ReturnType<typeof createWatchTracker>, from: number, to: number) {
+  for (let time = from; time <= to; time++) {
+    tracker.tick(time);
+  }
+}
+
+test('touching intervals merge, ones with a gap stay apart', () => {
+  assert.deepEqual(mergeIntervals([{ start: 10, end: 20 }, { start: 0, end: 10 }]), [{ start: 0, end: 20 }]);
+  assert.deepEqual(
+    mergeIntervals([{ start: 0, end: 10 }, { start: 11, end: 20 }]),
+    [{ start: 0, end: 10 }, { start: 11, end: 20 }]
+  );
+  assert.deepEqual(mergeIntervals([{ start: 0, end: 15 }, { start: 5, end: 12 }]), [{ start: 0, end: 15 }]);
+  assert.equal(getWatchedSeconds([{ start: 0, end: 10 }, { start: 11, end: 20 }]), 19);
+});
+
+test('pausing and resuming at the same spot is one stretch', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 10);
+  assert.deepEqual(tracker.takeIntervals(), [{ start: 0, end: 10 }]);
+
+  // Resumed after the pause - the next save picks up where the last left off
+  play(tracker, 10, 20);
+  const intervals = tracker.takeIntervals();
+  assert.deepEqual(intervals, [{ start: 10, end: 20 }]);
+  assert.deepEqual(mergeIntervals([{ start: 0, end: 10 }, ...intervals]), [{ start: 0, end: 20 }]);
+});
+
+test('a seek forward skips the seconds jumped over', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 10);
+  play(tracker, 60, 70);
+
+  assert.deepEqual(tracker.takeIntervals(), [{ start: 0, end: 10 }, { start: 60, end: 70 }]);
+});
+
+test('a forward jump of two samples counts as a seek', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 10);
+  play(tracker, 12, 20);
+
+  assert.deepEqual(tracker.takeIntervals(), [{ start: 0, end: 10 }, { start: 12, end: 20 }]);
+});
+
+test('a seek back to rewatch doesn\'t count the same seconds twice', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 30);
+  play(tracker, 10, 40);
+
+  const intervals = tracker.takeIntervals();
+  assert.deepEqual(intervals, [{ start: 0, end: 40 }]);
+  assert.equal(getWatchedSeconds(intervals), 40);
+});
+
+test('looping back to the start keeps what was already watched', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 60);
+  play(tracker, 0, 5);
+
+  assert.deepEqual(tracker.takeIntervals(), [{ start: 0, end: 60 }]);
+});
+
+test('peeking includes the open stretch without closing it', () => {
+  const tracker = createWatchTracker();
+  play(tracker, 0, 5);
+
+  assert.deepEqual(tracker.peekIntervals(), [{ start: 0, end: 5 }]);
+  play(tracker, 6, 8);
+  assert.deepEqual(tracker.takeIntervals(), [{ start: 0, end: 8 }]);
+});
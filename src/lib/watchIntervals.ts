@@ -0,0 +1,90 @@
+/**
+ * Watch Intervals - Which seconds of a video were actually played
+ * Completion is based on unique seconds watched, so scrubbing to the end
+ * doesn't count as finishing a video
+ */
+
+import type { WatchedInterval } from '../types';
+
+// How often the player position is sampled while playing
+export const WATCH_SAMPLE_INTERVAL_MS = 1000;
+
+// A forward jump bigger than one sample is a seek, not playback
+// (with a little slack for timers that fire late)
+const MAX_PLAYBACK_STEP_SECONDS = WATCH_SAMPLE_INTERVAL_MS / 1000 + 0.25;
+
+/**
+ * Sort and merge overlapping (or touching) intervals - a gap of any size stays a gap
+ */
+export function mergeIntervals(intervals: WatchedInterval[]): WatchedInterval[] {
+  const sorted = intervals
+    .filter(interval => interval.end > interval.start)
+    .map(interval => ({ ...interval }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: WatchedInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push(interval);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Unique seconds covered by a set of intervals
+ */
+export function getWatchedSeconds(intervals: WatchedInterval[]): number {
+  return mergeIntervals(intervals).reduce((total, interval) => total + (interval.end - interval.start), 0);
+}
+
+export interface WatchTracker {
+  /** Report the player position while it's playing */
+  tick(time: number): void;
+  /** Intervals played since the last take, including the one still open */
+  peekIntervals(): WatchedInterval[];
+  /** Intervals played since the last call (the open one is closed first) */
+  takeIntervals(): WatchedInterval[];
+}
+
+/**
+ * Turn periodic player positions into watched intervals
+ */
+export function createWatchTracker(): WatchTracker {
+  let segmentStart: number | null = null;
+  let lastTime = 0;
+  let pending: WatchedInterval[] = [];
+
+  const closeSegment = () => {
+    if (segmentStart !== null && lastTime > segmentStart) {
+      pending.push({ start: Math.round(segmentStart), end: Math.round(lastTime) });
+    }
+    segmentStart = null;
+  };
+
+  return {
+    tick(time: number) {
+      const isPlaybackStep = segmentStart !== null && time >= lastTime && time - lastTime <= MAX_PLAYBACK_STEP_SECONDS;
+      if (!isPlaybackStep) {
+        closeSegment();
+        segmentStart = time;
+      }
+      lastTime = time;
+    },
+    peekIntervals() {
+      const open = segmentStart !== null && lastTime > segmentStart
+        ? [{ start: Math.round(segmentStart), end: Math.round(lastTime) }]
+        : [];
+      return mergeIntervals([...pending, ...open]);
+    },
+    takeIntervals() {
+      closeSegment();
+      const intervals = mergeIntervals(pending);
+      pending = [];
+      return intervals;
+    },
+  };
+}
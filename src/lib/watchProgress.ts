@@ -0,0 +1,94 @@
+/**
+ * Watch Progress - Folds a progress update into a watch record
+ * Shared by the local (optimistic) update and the Firestore write, so both agree
+ */
+
+import type { WatchRecord, WatchedInterval } from '../types';
+import { mergeIntervals, getWatchedSeconds } from './watchIntervals';
+import { DEFAULT_COMPLETION_THRESHOLD, getWatchedPercent, type CompletionRule } from './completion';
+
+export interface WatchProgressUpdate {
+  profileId: string;
+  laneId: string;
+  itemId: string;
+  position: number;
+  duration: number;
+  intervals: WatchedInterval[];
+  completion?: CompletionRule;
+  recordedAt: Date; // When it was watched - may be long before it reaches Firestore
+}
+
+/**
+ * Apply an update to the existing record (if any)
+ * Conflicts keep the furthest progress: intervals are unioned, completion never
+ * resets, and an update older than the record can't move the resume point back
+ */
+export function applyWatchProgress(
+  existing: WatchRecord | null | undefined,
+  update: WatchProgressUpdate
+): { record: WatchRecord; newlyCompleted: boolean } {
+  const { profileId, laneId, itemId, duration, recordedAt } = update;
+  const completion = update.completion ?? { start: 0, end: duration, threshold: DEFAULT_COMPLETION_THRESHOLD };
+
+  // Calculate progress from everything watched so far
+  const watchedIntervals = mergeIntervals([...(existing?.watchedIntervals ?? []), ...update.intervals]);
+  const watchedSeconds = Math.min(getWatchedSeconds(watchedIntervals), duration);
+  const progressPercent = getWatchedPercent(watchedIntervals, completion);
+
+  const wasCompleted = existing?.completed ?? false;
+  const completed = wasCompleted || progressPercent >= completion.threshold;
+  const newlyCompleted = completed && !wasCompleted;
+
+  const isStale = !!existing && existing.updatedAt > recordedAt;
+  const lastPosition = isStale ? Math.max(existing.lastPosition, update.position) : update.position;
+
+  const record: WatchRecord = {
+    id: `${profileId}_${itemId}`,
+    profileId,
+    laneId,
+    itemId,
+    lastPosition,
+    duration,
+    progressPercent,
+    completed,
+    watchedIntervals,
+    watchedSeconds,
+    startedAt: existing?.startedAt ?? recordedAt,
+    updatedAt: isStale ? existing.updatedAt : recordedAt,
+  };
+
+  const completedAt = newlyCompleted ? recordedAt : existing?.completedAt;
+  if (completedAt) {
+    record.completedAt = completedAt;
+  }
+  return { record, newlyCompleted };
+}
+
+/**
+ * Combine a stored record with one restored from an export
+ * Keeps the furthest of both: intervals are unioned, completion sticks, and the
+ * newer record supplies the resume point. Without the completion rule the percent
+ * can't be recomputed, so the higher of the two is kept
+ */
+export function mergeWatchRecords(existing: WatchRecord | null | undefined, restored: WatchRecord): WatchRecord {
+  if (!existing) return restored;
+
+  const newer = restored.updatedAt > existing.updatedAt ? restored : existing;
+  const watchedIntervals = mergeIntervals([...(existing.watchedIntervals ?? []), ...(restored.watchedIntervals ?? [])]);
+  const completedAts = [existing.completedAt, restored.completedAt].filter((date): date is Date => !!date);
+
+  const record: WatchRecord = {
+    ...newer,
+    id: existing.id,
+    progressPercent: Math.max(existing.progressPercent, restored.progressPercent),
+    completed: existing.completed || restored.completed,
+    watchedIntervals,
+    watchedSeconds: Math.min(getWatchedSeconds(watchedIntervals), newer.duration),
+    startedAt: existing.startedAt < restored.startedAt ? existing.startedAt : restored.startedAt,
+  };
+  delete record.completedAt;
+  if (completedAts.length > 0) {
+    record.completedAt = new Date(Math.min(...completedAts.map(date => date.getTime())));
+  }
+  return record;
+}
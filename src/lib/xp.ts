@@ -0,0 +1,139 @@
+/**
+ * XP - Points for completing items, and the levels they add up to
+ * Awards are entries in a ledger (see XpEntry) with ids fixed by what earned them,
+ * so retrying an award never counts it twice
+ */
+
+import type { LaneCategory, LaneMode, XpEntry } from '../types';
+
+// Every completion earns this much, plus a little per minute of content
+const BASE_COMPLETION_XP = 10;
+const XP_PER_MINUTE = 1;
+const MAX_MINUTES_COUNTED = 30;
+
+// Learning-heavy categories are worth more than pure entertainment
+const CATEGORY_XP_WEIGHTS: Record<LaneCategory, number> = {
+  School: 1.5,
+  Math: 1.5,
+  Science: 1.5,
+  Reading: 1.5,
+  Learning: 1.25,
+  Creativity: 1.25,
+  Music: 1,
+  Other: 1,
+  Fun: 0.75,
+  Entertainment: 0.75,
+};
+
+// Finishing a step on a learning path
+export const PATH_STEP_BONUS_XP = 10;
+
+// First completion of the day, per day in the streak (up to a week's worth)
+const STREAK_BONUS_XP_PER_DAY = 5;
+const MAX_STREAK_BONUS_DAYS = 7;
+
+// Each level needs this much more XP than the one before (100, 200, 300...)
+const XP_LEVEL_STEP = 100;
+
+/**
+ * XP for completing an item - weighted by its length and its lane's category
+ */
+export function getCompletionXp(durationSeconds: number, category: LaneCategory): number {
+  const minutes = Math.min(Math.max(0, durationSeconds) / 60, MAX_MINUTES_COUNTED);
+  return Math.round((BASE_COMPLETION_XP + minutes * XP_PER_MINUTE) * (CATEGORY_XP_WEIGHTS[category] ?? 1));
+}
+
+/**
+ * Bonus XP for keeping a streak going (none until it's at least two days)
+ */
+export function getStreakBonusXp(streakDays: number): number {
+  return streakDays < 2 ? 0 : Math.min(streakDays, MAX_STREAK_BONUS_DAYS) * STREAK_BONUS_XP_PER_DAY;
+}
+
+/**
+ * Everything a completion earns - the item itself, then any path and streak bonuses
+ */
+export function buildCompletionXp(options: {
+  profileId: string;
+  laneId: string;
+  laneMode?: LaneMode;
+  category: LaneCategory;
+  itemId: string;
+  itemTitle: string;
+  durationSeconds: number;
+  streakDays: number;
+  dateKey: string; // Household day of the completion - one streak bonus per day
+  now: Date;
+}): XpEntry[] {
+  const { profileId, laneId, laneMode, category, itemId, itemTitle, durationSeconds, streakDays, dateKey, now } = options;
+  const entries: XpEntry[] = [{
+    id: `${profileId}_completion_${itemId}`,
+    profileId,
+    amount: getCompletionXp(durationSeconds, category),
+    reason: 'completion',
+    laneId,
+    itemId,
+    description: `Completed ${itemTitle}`,
+    createdAt: now,
+  }];
+
+  if (laneMode === 'path') {
+    entries.push({
+      id: `${profileId}_path_${itemId}`,
+      profileId,
+      amount: PATH_STEP_BONUS_XP,
+      reason: 'path_step',
+      laneId,
+      itemId,
+      description: `Path step: ${itemTitle}`,
+      createdAt: now,
+    });
+  }
+
+  const streakBonus = getStreakBonusXp(streakDays);
+  if (streakBonus > 0) {
+    entries.push({
+      id: `${profileId}_streak_${dateKey}`,
+      profileId,
+      amount: streakBonus,
+      reason: 'streak',
+      description: `${streakDays}-day streak`,
+      createdAt: now,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Total XP - reversed entries don't count
+ */
+export function getTotalXp(entries: XpEntry[]): number {
+  return entries.reduce((total, entry) => entry.reversedAt ? total : total + entry.amount, 0);
+}
+
+/**
+ * XP needed to reach a level (level 1 starts at 0)
+ */
+export function getXpForLevel(level: number): number {
+  return (XP_LEVEL_STEP * (level - 1) * level) / 2;
+}
+
+export interface XpLevel {
+  level: number;
+  totalXp: number;
+  levelXp: number;     // XP earned since reaching this level
+  levelSpan: number;   // XP between this level and the next
+}
+
+/**
+ * Level reached with this much XP, and progress toward the next
+ */
+export function getLevel(totalXp: number): XpLevel {
+  let level = 1;
+  while (totalXp >= getXpForLevel(level + 1)) {
+    level += 1;
+  }
+  const start = getXpForLevel(level);
+  return { level, totalXp, levelXp: totalXp - start, levelSpan: getXpForLevel(level + 1) - start };
+}
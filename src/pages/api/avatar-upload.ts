@@ -0,0 +1,14 @@
+// API endpoint for uploading a profile photo
+// Stored through the storage provider (local disk in dev, Firebase Storage in production)
+import type { APIRoute } from 'astro';
+import { handleImageUpload } from '../../lib/server/imageUpload';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = ({ request }) => handleImageUpload(request, {
+  prefix: 'avatars',
+  permission: 'manage_profiles',
+  label: 'Photos',
+  failureMessage: 'Failed to upload avatar',
+});
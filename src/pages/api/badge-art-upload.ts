@@ -0,0 +1,14 @@
+// API endpoint for uploading artwork for a custom badge
+// Stored through the storage provider, like profile photos
+import type { APIRoute } from 'astro';
+import { handleImageUpload } from '../../lib/server/imageUpload';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = ({ request }) => handleImageUpload(request, {
+  prefix: 'badges',
+  permission: 'edit_content',
+  label: 'Artwork',
+  failureMessage: 'Failed to upload badge artwork',
+});
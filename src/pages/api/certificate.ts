@@ -0,0 +1,72 @@
+// API endpoint for printable lane certificates
+// Returns an HTML page once a child has completed every item in a lane
+// Any signed-in parent of the household may ask (children print theirs from the Dashboard)
+import type { APIRoute } from 'astro';
+import { getAdminDb } from '../../lib/server/firebaseAdmin';
+import { requireHouseholdMember, jsonResponse, errorResponse } from '../../lib/server/auth';
+import { renderCertificateHtml } from '../../lib/server/certificate';
+import { isLaneComplete } from '../../lib/badgeRules';
+import { sortLaneItems } from '../../lib/laneItems';
+import type { LaneItem } from '../../types';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { householdId, profileId, laneId } = await request.json();
+
+    if (!householdId || !profileId || !laneId) {
+      return jsonResponse({ error: 'householdId, profileId and laneId are required' }, 400);
+    }
+
+    await requireHouseholdMember(request, householdId);
+
+    const db = getAdminDb();
+    const base = `households/${householdId}`;
+    const [household, profile, lane, itemsSnapshot] = await Promise.all([
+      db.doc(base).get(),
+      db.doc(`${base}/profiles/${profileId}`).get(),
+      db.doc(`${base}/lanes/${laneId}`).get(),
+      db.collection(`${base}/lanes/${laneId}/items`).get(),
+    ]);
+
+    if (!profile.exists || !lane.exists || lane.data()?.profileId !== profileId) {
+      return jsonResponse({ error: 'Lane not found' }, 404);
+    }
+
+    // Same order as the lane
+    const items = sortLaneItems(itemsSnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id }) as LaneItem));
+
+    const records = items.length > 0
+      ? await db.getAll(...items.map(item => db.doc(`${base}/watchHistory/${profileId}_${item.id}`)))
+      : [];
+    const completed = records.map(record => record.data()).filter(data => data?.completed === true);
+    if (!isLaneComplete({ items }, new Set(completed.map(data => data!.itemId as string)))) {
+      return jsonResponse({ error: 'This lane isn\'t finished yet' }, 400);
+    }
+
+    // The lane was finished when its last item was
+    const finishedAt = completed
+      .map(data => new Date(data!.completedAt ?? data!.updatedAt))
+      .filter(date => !Number.isNaN(date.getTime()))
+      .reduce((latest, date) => date > latest ? date : latest, new Date(0));
+    const timeZone: string | undefined = household.data()?.settings?.timeZone;
+
+    const html = renderCertificateHtml({
+      childName: profile.data()?.displayName ?? '',
+      laneTitle: lane.data()?.title ?? '',
+      category: lane.data()?.category ?? '',
+      householdName: household.data()?.name ?? '',
+      completedOn: finishedAt.toLocaleDateString('en-US', { timeZone, year: 'numeric', month: 'long', day: 'numeric' }),
+      items: items.map(item => item.title),
+    });
+
+    return new Response(html, {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create certificate');
+  }
+};
@@ -0,0 +1,57 @@
+// API endpoint for creating a new household's first admin profile and its PIN
+// Only allowed while the household has no guardian - after that, profiles are
+// managed from the admin area (which needs an unlocked admin)
+import type { APIRoute } from 'astro';
+import { v4 as uuidv4 } from 'uuid';
+import { getAdminDb } from '../../lib/server/firebaseAdmin';
+import { requireHouseholdMember, jsonResponse, errorResponse, ApiError } from '../../lib/server/auth';
+import { createPinSecret, isValidPin } from '../../lib/server/pin';
+import { isGuardianRole } from '../../lib/permissions';
+import type { Profile } from '../../types';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { householdId, displayName, pin } = await request.json();
+
+    if (!householdId || typeof displayName !== 'string' || !displayName.trim()) {
+      return jsonResponse({ error: 'householdId and displayName are required' }, 400);
+    }
+    if (!isValidPin(pin)) {
+      return jsonResponse({ error: 'PIN must be 4-6 digits' }, 400);
+    }
+
+    await requireHouseholdMember(request, householdId);
+
+    const db = getAdminDb();
+    const base = `households/${householdId}`;
+    const profile: Profile = {
+      id: `profile-${uuidv4()}`,
+      displayName: displayName.trim(),
+      avatarUrl: '',
+      role: 'admin',
+      ageLevel: 'adult',
+    };
+
+    // Checked and written together so two tablets can't both claim the household
+    await db.runTransaction(async (tx) => {
+      const [secrets, profiles] = await Promise.all([
+        tx.get(db.collection(`${base}/pinSecrets`).limit(1)),
+        tx.get(db.collection(`${base}/profiles`)),
+      ]);
+      // PIN secrets are server-only, so a guardian deleted from the browser still blocks this
+      if (!secrets.empty || profiles.docs.some(doc => isGuardianRole(doc.data().role))) {
+        throw new ApiError(409, 'This household already has a guardian');
+      }
+
+      tx.set(db.doc(`${base}/profiles/${profile.id}`), profile);
+      tx.set(db.doc(`${base}/pinSecrets/${profile.id}`), createPinSecret(pin));
+    });
+
+    return jsonResponse({ profile });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create the admin profile');
+  }
+};
@@ -2,6 +2,7 @@
 // This runs server-side to keep API keys secure
 import type { APIRoute } from 'astro';
 import { LaneGenerator } from '../../lib/laneGenerator';
+import { requirePermission, ApiError } from '../../lib/server/auth';
 
 // Disable prerendering - this must be server-rendered
 export const prerender = false;
@@ -9,7 +10,10 @@ export const prerender = false;
 export const POST: APIRoute = async ({ request }) => {
   try {
     const body = await request.json();
-    const { prompt, profileName, targetAge, ageLevel, maxVideos } = body;
+    const { householdId, prompt, profileName, targetAge, ageLevel, maxVideos } = body;
+
+    // Only an unlocked guardian may spend our API quota
+    await requirePermission(request, householdId, 'generate_lanes');
 
     if (!prompt || typeof prompt !== 'string') {
       return new Response(JSON.stringify({ error: 'Prompt is required' }), {
@@ -50,6 +54,12 @@ export const POST: APIRoute = async ({ request }) => {
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
+    if (error instanceof ApiError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: error.status,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
     console.error('Lane generation error:', error);
     return new Response(JSON.stringify({ 
       error: error instanceof Error ? error.message : 'Failed to generate lane' 
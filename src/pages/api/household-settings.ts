@@ -0,0 +1,115 @@
+// API endpoint for updating household-wide settings (auto-lock, quiet hours, pause, ...)
+// Settings are limits, so only guardians allowed to manage limits may change them
+// Send any of lock, quietHours, timeZone or paused - other settings are left alone
+import type { APIRoute } from 'astro';
+import { getAdminDb } from '../../lib/server/firebaseAdmin';
+import { requirePermission, jsonResponse, errorResponse } from '../../lib/server/auth';
+import { isValidTimeZone } from '../../lib/clock';
+import type { HouseholdSettings, LockSettings, ProfileRole, QuietHours, TimeWindow } from '../../types';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+const ROLES: ProfileRole[] = ['admin', 'coparent', 'caregiver', 'child'];
+
+// Longest idle timeout we accept (one day)
+const MAX_IDLE_MINUTES = 24 * 60;
+
+function parseLockSettings(value: unknown): LockSettings | null {
+  if (!value || typeof value !== 'object') return null;
+  const { idleMinutes, lockOnWake } = value as Record<string, unknown>;
+  if (!idleMinutes || typeof idleMinutes !== 'object' || typeof lockOnWake !== 'boolean') return null;
+
+  const parsed = {} as LockSettings['idleMinutes'];
+  for (const role of ROLES) {
+    const minutes = (idleMinutes as Record<string, unknown>)[role];
+    if (minutes === null || minutes === undefined) {
+      parsed[role] = null;
+    } else if (typeof minutes === 'number' && Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_IDLE_MINUTES) {
+      parsed[role] = minutes;
+    } else {
+      return null;
+    }
+  }
+  return { idleMinutes: parsed, lockOnWake };
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function parseTimeWindow(value: unknown): TimeWindow | null {
+  if (!value || typeof value !== 'object') return null;
+  const { days, start, end } = value as Record<string, unknown>;
+  if (!Array.isArray(days) || days.length === 0) return null;
+  if (!days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) return null;
+  if (typeof start !== 'string' || typeof end !== 'string') return null;
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start === end) return null;
+  return { days: [...new Set(days as number[])].sort(), start, end };
+}
+
+function parseQuietHours(value: unknown): QuietHours | null {
+  if (!value || typeof value !== 'object') return null;
+  const { enabled, windows } = value as Record<string, unknown>;
+  if (typeof enabled !== 'boolean' || !Array.isArray(windows)) return null;
+
+  const parsed = windows.map(parseTimeWindow);
+  if (parsed.some(window => window === null)) return null;
+  return { enabled, windows: parsed as TimeWindow[] };
+}
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { householdId, lock, quietHours, timeZone, paused } = await request.json();
+
+    if (!householdId) {
+      return jsonResponse({ error: 'householdId is required' }, 400);
+    }
+
+    await requirePermission(request, householdId, 'manage_limits');
+
+    const update: HouseholdSettings = {};
+
+    if (lock !== undefined) {
+      const lockSettings = parseLockSettings(lock);
+      if (!lockSettings) {
+        return jsonResponse({ error: `Idle timeouts must be whole minutes between 1 and ${MAX_IDLE_MINUTES}` }, 400);
+      }
+      update.lock = lockSettings;
+    }
+
+    if (quietHours !== undefined) {
+      const parsedQuietHours = parseQuietHours(quietHours);
+      if (!parsedQuietHours) {
+        return jsonResponse({ error: 'Quiet hours need at least one day and a start and end time (HH:MM)' }, 400);
+      }
+      update.quietHours = parsedQuietHours;
+    }
+
+    if (timeZone !== undefined) {
+      if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+        return jsonResponse({ error: 'Unknown time zone' }, 400);
+      }
+      update.timeZone = timeZone;
+    }
+
+    if (paused !== undefined) {
+      if (typeof paused !== 'boolean') {
+        return jsonResponse({ error: 'paused must be true or false' }, 400);
+      }
+      // Stamped with server time so a device clock can't fake it
+      update.pausedAt = paused ? new Date().toISOString() : null;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return jsonResponse({ error: 'No settings to update' }, 400);
+    }
+
+    // Merge replaces each section sent as a whole (windows are an array)
+    const householdRef = getAdminDb().doc(`households/${householdId}`);
+    await householdRef.set({ settings: update }, { merge: true });
+
+    const household = await householdRef.get();
+    return jsonResponse({ settings: household.data()?.settings ?? {} });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update household settings');
+  }
+};
@@ -0,0 +1,37 @@
+// API endpoint for setting or clearing a guardian's PIN
+// Requires a guardian allowed to manage profiles; the PIN is hashed before it is stored
+import type { APIRoute } from 'astro';
+import { getAdminDb } from '../../lib/server/firebaseAdmin';
+import { requirePermission, jsonResponse, errorResponse } from '../../lib/server/auth';
+import { createPinSecret, isValidPin } from '../../lib/server/pin';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { householdId, profileId, pin } = await request.json();
+
+    if (!householdId || !profileId) {
+      return jsonResponse({ error: 'householdId and profileId are required' }, 400);
+    }
+    if (pin !== null && !isValidPin(pin)) {
+      return jsonResponse({ error: 'PIN must be 4-6 digits' }, 400);
+    }
+
+    await requirePermission(request, householdId, 'manage_profiles');
+
+    const secretRef = getAdminDb().doc(`households/${householdId}/pinSecrets/${profileId}`);
+
+    // pin: null clears the PIN (profile deleted or no longer a guardian)
+    if (pin === null) {
+      await secretRef.delete();
+    } else {
+      await secretRef.set(createPinSecret(pin));
+    }
+
+    return jsonResponse({ ok: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update PIN');
+  }
+};
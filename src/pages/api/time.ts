@@ -0,0 +1,11 @@
+// API endpoint returning the server's clock
+// Bedtimes and schedules are checked against this, not the device clock
+import type { APIRoute } from 'astro';
+import { jsonResponse } from '../../lib/server/auth';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const GET: APIRoute = async () => {
+  return jsonResponse({ now: Date.now() });
+};
@@ -0,0 +1,33 @@
+// Serves files written by the local storage provider (development only)
+// Image tags can't send the parent's ID token, so nothing here checks household
+// access - the route is switched off outside the dev server
+import type { APIRoute } from 'astro';
+import { readLocalUpload } from '../../../lib/storage/local';
+import { AVATAR_UPLOAD_TYPES } from '../../../lib/avatars';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.entries(AVATAR_UPLOAD_TYPES).map(([contentType, extension]) => [extension, contentType])
+);
+
+export const GET: APIRoute = async ({ params }) => {
+  const path = params.path;
+  if (!import.meta.env.DEV || !path) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const data = await readLocalUpload(path);
+  if (!data) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const extension = path.split('.').pop() || '';
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+};
@@ -0,0 +1,82 @@
+// API endpoint for checking a guardian's PIN
+// PIN hashes never leave the server; repeated failures lock the profile out
+import type { APIRoute } from 'astro';
+import { getAdminDb } from '../../lib/server/firebaseAdmin';
+import { requireHouseholdMember, jsonResponse, errorResponse, ApiError } from '../../lib/server/auth';
+import { createSessionToken } from '../../lib/server/session';
+import { isGuardianRole } from '../../lib/permissions';
+import {
+  verifyPinHash,
+  getLockoutSeconds,
+  getAttemptsRemaining,
+  type PinSecret,
+} from '../../lib/server/pin';
+
+// Disable prerendering - this must be server-rendered
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const { householdId, profileId, pin } = await request.json();
+
+    if (!householdId || !profileId || typeof pin !== 'string') {
+      return jsonResponse({ error: 'householdId, profileId and pin are required' }, 400);
+    }
+
+    await requireHouseholdMember(request, householdId);
+
+    const db = getAdminDb();
+    const profileRef = db.doc(`households/${householdId}/profiles/${profileId}`);
+    const secretRef = db.doc(`households/${householdId}/pinSecrets/${profileId}`);
+
+    // Count the attempt inside a transaction so parallel guesses can't skip the lockout
+    const result = await db.runTransaction(async (tx) => {
+      const [profileSnap, secretSnap] = await Promise.all([tx.get(profileRef), tx.get(secretRef)]);
+      const profile = profileSnap.data();
+
+      if (!profile) {
+        throw new ApiError(404, 'Profile not found');
+      }
+      if (!isGuardianRole(profile.role)) {
+        throw new ApiError(403, 'This profile does not use a PIN');
+      }
+
+      // Plaintext PINs on older profile docs don't count - see scripts/migrate-pins.ts
+      const secret = secretSnap.data() as PinSecret | undefined;
+      if (!secret) {
+        throw new ApiError(409, 'No PIN has been set for this profile');
+      }
+
+      const now = Date.now();
+      if (secret.lockedUntil && new Date(secret.lockedUntil).getTime() > now) {
+        tx.set(secretRef, secret);
+        return { ok: false as const, lockedUntil: secret.lockedUntil, attemptsRemaining: 0 };
+      }
+
+      if (verifyPinHash(pin, secret)) {
+        tx.set(secretRef, { ...secret, failedAttempts: 0, lockedUntil: null });
+        return { ok: true as const, role: profile.role };
+      }
+
+      const failedAttempts = (secret.failedAttempts || 0) + 1;
+      const lockoutSeconds = getLockoutSeconds(failedAttempts);
+      const lockedUntil = lockoutSeconds > 0 ? new Date(now + lockoutSeconds * 1000).toISOString() : null;
+      tx.set(secretRef, { ...secret, failedAttempts, lockedUntil });
+
+      return { ok: false as const, lockedUntil, attemptsRemaining: getAttemptsRemaining(failedAttempts) };
+    });
+
+    if (!result.ok) {
+      return jsonResponse({
+        error: result.lockedUntil ? 'Too many attempts. Try again later.' : 'Incorrect PIN',
+        lockedUntil: result.lockedUntil,
+        attemptsRemaining: result.attemptsRemaining,
+      }, result.lockedUntil ? 423 : 401);
+    }
+
+    const session = createSessionToken({ householdId, profileId, role: result.role });
+    return jsonResponse({ sessionToken: session.token, expiresAt: session.expiresAt });
+  } catch (error) {
+    return errorResponse(error, 'Failed to verify PIN');
+  }
+};
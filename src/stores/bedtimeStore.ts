@@ -0,0 +1,44 @@
+/**
+ * Bedtime Store - Is the household in quiet hours or paused right now?
+ * Only children are stopped; guardians can still switch profiles and unlock the admin
+ */
+
+import { computed } from 'nanostores';
+import { isWithinWindow } from '../lib/schedule';
+import type { TimeWindow } from '../types';
+import { $household } from './householdStore';
+import { $currentProfile } from './profileStore';
+import { $householdNow } from './clockStore';
+
+export type BedtimeReason = 'paused' | 'quiet_hours';
+
+export interface BedtimeState {
+  active: boolean;
+  reason: BedtimeReason | null;
+  window: TimeWindow | null; // Quiet-hours window in effect (for "until ..." text)
+}
+
+const AWAKE: BedtimeState = { active: false, reason: null, window: null };
+
+/**
+ * Computed: Bedtime state for the current profile, checked against household time
+ */
+export const $bedtime = computed(
+  [$household, $currentProfile, $householdNow],
+  (household, profile, now): BedtimeState => {
+    if (!household || profile?.role !== 'child') return AWAKE;
+
+    const settings = household.settings;
+    if (settings?.pausedAt) {
+      return { active: true, reason: 'paused', window: null };
+    }
+
+    if (settings?.quietHours?.enabled) {
+      const window = settings.quietHours.windows.find(candidate => isWithinWindow(candidate, now));
+      if (window) {
+        return { active: true, reason: 'quiet_hours', window };
+      }
+    }
+    return AWAKE;
+  }
+);
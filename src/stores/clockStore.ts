@@ -0,0 +1,91 @@
+/**
+ * Clock Store - Trusted "now" for bedtimes, schedules and daily budgets
+ * Syncs with the server clock and counts forward with a monotonic timer,
+ * so changing the device clock doesn't move lanes or quiet hours
+ */
+
+import { atom, computed } from 'nanostores';
+import { toZonedDate } from '../lib/clock';
+import { $household } from './householdStore';
+
+// Re-sync with the server this often (and whenever the device wakes up)
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+// How often $serverNow ticks - fine enough for minute-based schedules
+const TICK_INTERVAL_MS = 15 * 1000;
+
+// Server time at the last sync, and performance.now() when it arrived
+let syncedServerTime: number | null = null;
+let syncedAt = 0;
+let initialized = false;
+
+/**
+ * Current server time in milliseconds (falls back to the device clock until the first sync)
+ */
+export function getServerNow(): number {
+  if (syncedServerTime === null) return Date.now();
+  return syncedServerTime + (performance.now() - syncedAt);
+}
+
+/**
+ * Server time, updated every few seconds
+ */
+export const $serverNow = atom<number>(Date.now());
+
+/**
+ * Computed: Wall-clock time in the household's time zone
+ * Read local fields (getDay, getHours, ...) - they hold the household's time
+ */
+export const $householdNow = computed(
+  [$serverNow, $household],
+  (now, household) => toZonedDate(new Date(now), household?.settings?.timeZone)
+);
+
+/**
+ * Household wall-clock time right now (for code outside React)
+ */
+export function getHouseholdNow(): Date {
+  return toZonedDate(new Date(getServerNow()), $household.get()?.settings?.timeZone);
+}
+
+function tick(): void {
+  $serverNow.set(getServerNow());
+}
+
+/**
+ * Fetch the server time - half the round trip is added to allow for latency
+ */
+export async function syncClock(): Promise<void> {
+  try {
+    const requestedAt = performance.now();
+    const response = await fetch('/api/time', { cache: 'no-store' });
+    if (!response.ok) throw new Error(`Time request failed (${response.status})`);
+
+    const { now } = await response.json();
+    const receivedAt = performance.now();
+    syncedServerTime = now + (receivedAt - requestedAt) / 2;
+    syncedAt = receivedAt;
+    tick();
+  } catch (error) {
+    console.error('Failed to sync clock:', error);
+  }
+}
+
+/**
+ * Initialize the clock - call this on app mount
+ */
+export function initializeClock(): void {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  syncClock();
+  window.setInterval(syncClock, SYNC_INTERVAL_MS);
+  window.setInterval(tick, TICK_INTERVAL_MS);
+
+  // Timers may stop while the device sleeps - catch up when it wakes
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') {
+      syncClock();
+    }
+  });
+}
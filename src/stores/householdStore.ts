@@ -0,0 +1,170 @@
+/**
+ * Household Store - Tracks the signed-in parent account and their household
+ * Every Firestore helper is scoped to the household held here
+ */
+
+import { atom, computed } from 'nanostores';
+import {
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  type User,
+} from 'firebase/auth';
+import { auth } from '../lib/firebase';
+import { getHouseholdForUser, createHousehold, setActiveHousehold, subscribeToHousehold } from '../lib/firestore';
+import { clearProfile, adminApiRequest } from './profileStore';
+import type { Household, HouseholdSettings } from '../types';
+
+/**
+ * Firebase Auth user (the parent account signed in on this device)
+ */
+export const $authUser = atom<User | null>(null);
+
+/**
+ * Household owned by the signed-in parent
+ */
+export const $household = atom<Household | null>(null);
+
+/**
+ * True once Firebase Auth has reported the initial sign-in state
+ */
+export const $householdReady = atom<boolean>(false);
+
+/**
+ * Computed: Is a household signed in on this device?
+ */
+export const $isSignedIn = computed($household, (household) => household !== null);
+
+let initialized = false;
+let unsubscribeHousehold: (() => void) | null = null;
+
+// Set while a new parent account is being created, so the auth listener
+// waits for the new household instead of creating a second one
+let pendingSignUp: Promise<void> | null = null;
+
+/**
+ * Resolve (or create) the household for a parent account
+ */
+async function loadHouseholdForUser(user: User): Promise<void> {
+  if (pendingSignUp) {
+    await pendingSignUp.catch(() => undefined);
+  }
+
+  let household = await getHouseholdForUser(user.uid);
+  if (!household) {
+    // Every parent account owns a household - create one if it's missing
+    const name = user.email ? `${user.email.split('@')[0]}'s Family` : 'My Family';
+    household = await createHousehold(name, user.uid);
+  }
+  setActiveHousehold(household.id);
+  $household.set(household);
+  watchHousehold();
+}
+
+/**
+ * Keep $household live - a pause or settings change on another device applies at once
+ */
+function watchHousehold(): void {
+  unsubscribeHousehold?.();
+  unsubscribeHousehold = subscribeToHousehold((household) => {
+    if (household && household.id === $household.get()?.id) {
+      $household.set(household);
+    }
+  });
+}
+
+function clearHousehold(): void {
+  unsubscribeHousehold?.();
+  unsubscribeHousehold = null;
+  setActiveHousehold(null);
+  $household.set(null);
+}
+
+/**
+ * Initialize the store - call this on app mount
+ * Subscribes to Firebase Auth state changes
+ */
+export function initializeHouseholdStore(): void {
+  if (initialized) return;
+  initialized = true;
+
+  onAuthStateChanged(auth, async (user) => {
+    $authUser.set(user);
+
+    if (!user) {
+      clearHousehold();
+      $householdReady.set(true);
+      return;
+    }
+
+    try {
+      await loadHouseholdForUser(user);
+    } catch (error) {
+      console.error('Failed to load household:', error);
+      clearHousehold();
+    } finally {
+      $householdReady.set(true);
+    }
+  });
+}
+
+/**
+ * Sign in an existing parent account
+ */
+export async function signInParent(email: string, password: string): Promise<void> {
+  const credential = await signInWithEmailAndPassword(auth, email, password);
+  await loadHouseholdForUser(credential.user);
+}
+
+/**
+ * Create a parent account along with a new household
+ */
+export async function createParentAccount(email: string, password: string, householdName: string): Promise<void> {
+  const signUp = (async () => {
+    const credential = await createUserWithEmailAndPassword(auth, email, password);
+    await createHousehold(householdName, credential.user.uid);
+  })();
+
+  pendingSignUp = signUp;
+  try {
+    await signUp;
+  } finally {
+    pendingSignUp = null;
+  }
+
+  if (auth.currentUser) {
+    await loadHouseholdForUser(auth.currentUser);
+  }
+}
+
+/**
+ * Sign the parent out - also forgets the selected profile on this device
+ */
+export async function signOutParent(): Promise<void> {
+  clearProfile();
+  await signOut(auth);
+  clearHousehold();
+}
+
+/**
+ * Save household settings (needs a guardian allowed to manage limits)
+ */
+export async function saveHouseholdSettings(update: Omit<HouseholdSettings, 'pausedAt'>): Promise<void> {
+  await postHouseholdSettings({ ...update });
+}
+
+/**
+ * Pause (or resume) everything for the children - the server stamps the time
+ */
+export async function setHouseholdPaused(paused: boolean): Promise<void> {
+  await postHouseholdSettings({ paused });
+}
+
+async function postHouseholdSettings(body: Record<string, unknown>): Promise<void> {
+  const { settings } = await adminApiRequest<{ settings: HouseholdSettings }>('/api/household-settings', body);
+  const household = $household.get();
+  if (household) {
+    $household.set({ ...household, settings });
+  }
+}
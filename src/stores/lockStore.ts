@@ -0,0 +1,165 @@
+/**
+ * Lock Store - Auto-lock back to the profile switcher
+ * Drops the current profile after the role's idle timeout, when the device
+ * wakes up (if enabled), or when the persisted profile is no longer valid
+ */
+
+import { computed } from 'nanostores';
+import { getProfile } from '../lib/firestore';
+import { DEFAULT_LOCK_SETTINGS, type LockSettings } from '../types';
+import { $household } from './householdStore';
+import { $currentProfile, $adminSession, setProfile, clearProfile, clearAdminSession } from './profileStore';
+import { $activeContent } from './contentStore';
+
+// Last interaction time - shared by every tab on this device
+const ACTIVITY_STORAGE_KEY = 'learning-lanes-last-active';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+// How often to check the idle timeout, and to write activity to storage
+const CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+
+// Hidden for at least this long counts as the device sleeping
+const WAKE_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Computed: Auto-lock settings for the household (defaults until a guardian changes them)
+ */
+export const $lockSettings = computed($household, (household): LockSettings => ({
+  ...DEFAULT_LOCK_SETTINGS,
+  ...household?.settings?.lock,
+}));
+
+let initialized = false;
+let lastActivityWrite = 0;
+let hiddenAt: number | null = null;
+let verifiedProfileId: string | null = null;
+
+function readLastActivity(): number | null {
+  try {
+    const stored = localStorage.getItem(ACTIVITY_STORAGE_KEY);
+    return stored ? Number(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record that someone is using the device
+ */
+export function recordActivity(force = false): void {
+  const now = Date.now();
+  if (!force && now - lastActivityWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+  lastActivityWrite = now;
+  try {
+    localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now));
+  } catch (error) {
+    console.error('Failed to record activity:', error);
+  }
+}
+
+/**
+ * Lock now - back to the profile switcher
+ */
+export function lockDevice(): void {
+  verifiedProfileId = null;
+  clearProfile();
+}
+
+/**
+ * Lock if the current profile has been idle longer than its role allows
+ */
+function checkIdleTimeout(): void {
+  const profile = $currentProfile.get();
+  if (!profile || !$household.get()) return;
+
+  // Watching a video counts as activity even without touches
+  if ($activeContent.get()) {
+    recordActivity();
+    return;
+  }
+
+  const session = $adminSession.get();
+  if (session && session.expiresAt <= Date.now()) {
+    clearAdminSession();
+  }
+
+  const idleMinutes = $lockSettings.get().idleMinutes[profile.role];
+  const lastActivity = readLastActivity();
+  if (!idleMinutes || lastActivity === null) return;
+
+  if (Date.now() - lastActivity > idleMinutes * 60 * 1000) {
+    lockDevice();
+  }
+}
+
+/**
+ * Re-read the persisted profile so a deleted profile, changed role or stale settings can't linger
+ */
+async function verifyPersistedProfile(): Promise<void> {
+  const profile = $currentProfile.get();
+  if (!profile || !$household.get() || verifiedProfileId === profile.id) return;
+  verifiedProfileId = profile.id;
+
+  try {
+    const latest = await getProfile(profile.id);
+    if ($currentProfile.get()?.id !== profile.id) return;
+    if (!latest) {
+      lockDevice();
+    } else if (JSON.stringify(latest) !== JSON.stringify(profile)) {
+      // Role changed - the old admin session no longer applies
+      if (latest.role !== profile.role) {
+        clearAdminSession();
+      }
+      // Pick up other edits too (budgets, avatar, ...)
+      setProfile(latest);
+    }
+  } catch (error) {
+    console.error('Failed to verify profile:', error);
+  }
+}
+
+function handleVisibilityChange(): void {
+  if (document.visibilityState === 'hidden') {
+    hiddenAt = Date.now();
+    return;
+  }
+
+  const sleptFor = hiddenAt ? Date.now() - hiddenAt : 0;
+  hiddenAt = null;
+  if ($lockSettings.get().lockOnWake && $currentProfile.get() && sleptFor >= WAKE_THRESHOLD_MS) {
+    lockDevice();
+    return;
+  }
+  checkIdleTimeout();
+}
+
+/**
+ * Initialize auto-lock - call this on app mount, after the household store
+ */
+export function initializeAutoLock(): void {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  for (const eventName of ACTIVITY_EVENTS) {
+    window.addEventListener(eventName, () => recordActivity(), { passive: true });
+  }
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.setInterval(checkIdleTimeout, CHECK_INTERVAL_MS);
+
+  // Check a restored profile as soon as the household (and its settings) load
+  $household.subscribe((household) => {
+    if (!household) return;
+    checkIdleTimeout();
+    verifyPersistedProfile();
+  });
+
+  // Choosing a profile starts a fresh idle window
+  $currentProfile.listen((profile) => {
+    if (profile) {
+      recordActivity(true);
+      verifyPersistedProfile();
+    }
+  });
+}
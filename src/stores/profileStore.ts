@@ -4,11 +4,32 @@
  */
 
 import { atom, computed } from 'nanostores';
+import { apiRequest, apiUpload, ApiRequestError } from '../lib/api';
+import { isGuardianRole } from '../lib/permissions';
 import type { Profile } from '../types';
 
 // Storage key for persistence
 const STORAGE_KEY = 'learning-lanes-profile';
 
+// Admin sessions only last for this browser tab
+const SESSION_STORAGE_KEY = 'learning-lanes-admin-session';
+
+/**
+ * Server-issued proof that a guardian entered their PIN
+ */
+export interface AdminSession {
+  token: string;
+  profileId: string;
+  expiresAt: number;
+}
+
+/**
+ * Result of a PIN check
+ */
+export type PinVerificationResult =
+  | { ok: true }
+  | { ok: false; error: string; lockedUntil?: Date; attemptsRemaining?: number };
+
 /**
  * Load profile from localStorage
  */
@@ -18,7 +39,9 @@ function loadPersistedProfile(): Profile | null {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored) as Profile;
+      // Drop any plaintext PIN persisted by older versions
+      const { pin: _legacyPin, ...profile } = JSON.parse(stored);
+      return profile as Profile;
     }
   } catch (error) {
     console.error('Failed to load persisted profile:', error);
@@ -43,20 +66,70 @@ function persistProfile(profile: Profile | null): void {
   }
 }
 
+/**
+ * Load the admin session for this tab (if still valid)
+ */
+function loadPersistedSession(): AdminSession | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) {
+      const session = JSON.parse(stored) as AdminSession;
+      if (session.expiresAt > Date.now()) return session;
+    }
+  } catch (error) {
+    console.error('Failed to load admin session:', error);
+  }
+  return null;
+}
+
+/**
+ * Save the admin session for this tab
+ */
+function persistSession(session: AdminSession | null): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (session) {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to persist admin session:', error);
+  }
+}
+
 /**
  * Current profile atom - the main state
  */
 export const $currentProfile = atom<Profile | null>(null);
 
+/**
+ * Admin session atom - set after a successful server PIN check
+ */
+export const $adminSession = atom<AdminSession | null>(null);
+
 /**
  * Computed: Is a profile currently selected?
  */
 export const $isProfileSelected = computed($currentProfile, (profile) => profile !== null);
 
 /**
- * Computed: Is the current user an admin?
+ * Computed: Is the current user a guardian with an unlocked PIN session?
  */
-export const $isAdmin = computed($currentProfile, (profile) => profile?.role === 'admin');
+export const $isAdmin = computed([$currentProfile, $adminSession], (profile, session) =>
+  !!profile && isGuardianRole(profile.role) && session?.profileId === profile.id && session.expiresAt > Date.now()
+);
+
+/**
+ * Computed: Role of the unlocked guardian (null when the admin area is locked)
+ * Pass to hasPermission() to check what the admin UI may show
+ */
+export const $guardianRole = computed([$currentProfile, $isAdmin], (profile, isAdmin) =>
+  isAdmin && profile ? profile.role : null
+);
 
 /**
  * Initialize the store - call this on app mount
@@ -67,6 +140,7 @@ export function initializeProfileStore(): void {
   if (persisted) {
     $currentProfile.set(persisted);
   }
+  $adminSession.set(loadPersistedSession());
 }
 
 /**
@@ -75,6 +149,20 @@ export function initializeProfileStore(): void {
 export function setProfile(profile: Profile): void {
   $currentProfile.set(profile);
   persistProfile(profile);
+
+  // An admin session only belongs to the guardian who unlocked it
+  if ($adminSession.get()?.profileId !== profile.id) {
+    $adminSession.set(null);
+    persistSession(null);
+  }
+}
+
+/**
+ * Re-lock the admin area without leaving the current profile
+ */
+export function clearAdminSession(): void {
+  $adminSession.set(null);
+  persistSession(null);
 }
 
 /**
@@ -83,11 +171,57 @@ export function setProfile(profile: Profile): void {
 export function clearProfile(): void {
   $currentProfile.set(null);
   persistProfile(null);
+  clearAdminSession();
+}
+
+/**
+ * Check a guardian's PIN on the server
+ * On success the returned session unlocks admin access for this tab
+ */
+export async function verifyAdminPin(profile: Profile, pin: string): Promise<PinVerificationResult> {
+  try {
+    const { sessionToken, expiresAt } = await apiRequest<{ sessionToken: string; expiresAt: number }>(
+      '/api/verify-pin',
+      { profileId: profile.id, pin }
+    );
+    const session: AdminSession = { token: sessionToken, profileId: profile.id, expiresAt };
+    $adminSession.set(session);
+    persistSession(session);
+    return { ok: true };
+  } catch (error) {
+    if (error instanceof ApiRequestError) {
+      const { lockedUntil, attemptsRemaining } = error.data as { lockedUntil?: string | null; attemptsRemaining?: number };
+      return {
+        ok: false,
+        error: error.message,
+        lockedUntil: lockedUntil ? new Date(lockedUntil) : undefined,
+        attemptsRemaining,
+      };
+    }
+    console.error('Failed to verify PIN:', error);
+    return { ok: false, error: 'Could not check PIN. Please try again.' };
+  }
+}
+
+/**
+ * Create a new household's first admin profile and its PIN
+ * The server refuses once the household has any guardian
+ */
+export async function createFirstGuardian(displayName: string, pin: string): Promise<Profile> {
+  const { profile } = await apiRequest<{ profile: Profile }>('/api/first-guardian', { displayName, pin });
+  return profile;
+}
+
+/**
+ * Call an API route that requires an unlocked admin session
+ */
+export function adminApiRequest<T>(path: string, body: Record<string, unknown> = {}): Promise<T> {
+  return apiRequest<T>(path, body, $adminSession.get()?.token);
 }
 
 /**
- * Check if PIN is valid for admin access
+ * Upload a file to an API route that requires an unlocked admin session
  */
-export function verifyAdminPin(profile: Profile, pin: string): boolean {
-  return profile.role === 'admin' && profile.pin === pin;
+export function adminApiUpload<T>(path: string, file: File): Promise<T> {
+  return apiUpload<T>(path, file, $adminSession.get()?.token);
 }
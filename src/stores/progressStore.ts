@@ -1,12 +1,23 @@
 /**
- * Progress Store - Manages watch history and badges
+ * Progress Store - Manages watch history, viewing sessions, badges and XP
  */
 
 import { atom, computed } from 'nanostores';
-import type { WatchRecord, EarnedBadge } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import type { WatchRecord, WatchSession, WatchedInterval, EarnedBadge, BadgeDefinition, BadgeCondition, XpEntry } from '../types';
 import { BADGE_DEFINITIONS } from '../types';
-import { getWatchHistory, getEarnedBadges, updateWatchProgress, checkAndAwardBadges } from '../lib/firestore';
+import { getWatchHistory, getWatchSessions, getEarnedBadges, getCustomBadges, getXpLedger } from '../lib/firestore';
+import type { BadgeLane } from '../lib/badgeRules';
 import type { LaneWithItems } from '../types';
+import type { CompletionRule } from '../lib/completion';
+import { applyWatchProgress, type WatchProgressUpdate } from '../lib/watchProgress';
+import { enqueueSyncEvents, onBadgesAwarded, type NewSyncEvent } from './syncStore';
+import { $currentProfile } from './profileStore';
+import { $household } from './householdStore';
+import { $householdNow, getServerNow } from './clockStore';
+import { getCompletionDays, getStreak } from '../lib/streaks';
+import { getDateKey } from '../lib/screenTime';
+import { buildCompletionXp, getTotalXp, getLevel } from '../lib/xp';
 
 /**
  * Watch history for current profile
@@ -31,7 +42,7 @@ export const $watchProgressMap = computed($watchHistory, (history) =>
 );
 
 /**
- * Computed: Set of COMPLETED item IDs (90%+ watched)
+ * Computed: Set of COMPLETED item IDs (completion threshold actually watched)
  */
 export const $completedItemIds = computed($watchHistory, (history) => 
   new Set(history.filter(w => w.completed).map(w => w.itemId))
@@ -44,16 +55,48 @@ export const $totalCompleted = computed($watchHistory, (history) =>
   history.filter(w => w.completed).length
 );
 
+// Today's date in the household - only changes at midnight, unlike $householdNow
+const $todayKey = computed($householdNow, (now) => getDateKey(now));
+
+/**
+ * Computed: Current profile's daily streak (household days, with their streak freezes)
+ */
+export const $streak = computed(
+  [$watchHistory, $currentProfile, $household, $todayKey],
+  (history, profile, household, today) => getStreak(
+    getCompletionDays(history, household?.settings?.timeZone),
+    { today, freezesPerMonth: profile?.streakFreezes }
+  )
+);
+
+/**
+ * Badges the household's parents created
+ */
+export const $customBadges = atom<BadgeDefinition[]>([]);
+
+/**
+ * Computed: Every badge that can be earned - built-in first, then the family's own
+ */
+export const $badgeDefinitions = computed($customBadges, (custom) => [...BADGE_DEFINITIONS, ...custom]);
+
 /**
  * Computed: Badge definitions with earned status
+ * Streak badges not yet earned carry how far the current streak has got
  */
-export const $badgesWithStatus = computed($earnedBadges, (earned) => {
+export const $badgesWithStatus = computed([$earnedBadges, $badgeDefinitions, $streak], (earned, definitions, streak) => {
   const earnedTypes = new Set(earned.map(b => b.badgeType));
-  return BADGE_DEFINITIONS.map(def => ({
-    ...def,
-    earned: earnedTypes.has(def.type),
-    earnedAt: earned.find(e => e.badgeType === def.type)?.earnedAt,
-  }));
+  return definitions.map(def => {
+    const streakCondition = def.conditions.find(
+      (condition): condition is Extract<BadgeCondition, { type: 'streak' }> => condition.type === 'streak'
+    );
+    const isEarned = earnedTypes.has(def.type);
+    return {
+      ...def,
+      earned: isEarned,
+      earnedAt: earned.find(e => e.badgeType === def.type)?.earnedAt,
+      ...(!isEarned && streakCondition && { streakProgress: { current: streak.current, target: streakCondition.days } }),
+    };
+  });
 });
 
 /**
@@ -61,20 +104,91 @@ export const $badgesWithStatus = computed($earnedBadges, (earned) => {
  */
 export const $newBadges = atom<EarnedBadge[]>([]);
 
+/**
+ * XP ledger for current profile, newest first
+ */
+export const $xpLedger = atom<XpEntry[]>([]);
+
+/**
+ * Computed: Total XP and the level it reaches
+ */
+export const $xpLevel = computed($xpLedger, (ledger) => getLevel(getTotalXp(ledger)));
+
+/**
+ * Level just reached (for the celebration) - null when there's nothing to show
+ */
+export const $levelUp = atom<number | null>(null);
+
+/**
+ * How many times each item has been opened (from the session log) - for "Watch again"
+ */
+export const $itemOpenCounts = atom<Map<string, number>>(new Map());
+
+/**
+ * Household days (YYYY-MM-DD) each item was played through within one session
+ * Unlike completedAt (first completion only) this counts finishing something again - for "today" unlock rules
+ */
+export const $sessionCompletionDays = atom<Map<string, Set<string>>>(new Map());
+
+function addSessionCompletion(days: Map<string, Set<string>>, session: Pick<WatchSession, 'itemId' | 'date'>): Map<string, Set<string>> {
+  return days.set(session.itemId, new Set([...(days.get(session.itemId) ?? []), session.date]));
+}
+
+/**
+ * When the current profile's previous visit on this device started (null = first visit)
+ */
+export const $lastVisitAt = atom<Date | null>(null);
+
+const VISITS_STORAGE_KEY = 'learning-lanes-visits';
+
+// Coming back within this long counts as the same visit (so a reload doesn't clear "New for you")
+const VISIT_GAP_MS = 60 * 60 * 1000;
+
+/**
+ * Start (or continue) a visit and return when the one before it started
+ */
+function recordVisit(profileId: string): Date | null {
+  const now = getServerNow();
+  try {
+    const visits: Record<string, { previous: number | null; latest: number }> =
+      JSON.parse(localStorage.getItem(VISITS_STORAGE_KEY) ?? '{}');
+    const visit = visits[profileId];
+    const previous = !visit ? null : now - visit.latest > VISIT_GAP_MS ? visit.latest : visit.previous;
+    visits[profileId] = { previous, latest: now };
+    localStorage.setItem(VISITS_STORAGE_KEY, JSON.stringify(visits));
+    return previous === null ? null : new Date(previous);
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Load progress data for a profile
  */
 export async function loadProgress(profileId: string): Promise<void> {
   $progressLoading.set(true);
+  $lastVisitAt.set(recordVisit(profileId));
   
   try {
-    const [history, badges] = await Promise.all([
+    const [history, badges, sessions, customBadges, xpLedger] = await Promise.all([
       getWatchHistory(profileId),
       getEarnedBadges(profileId),
+      getWatchSessions(profileId).catch((): WatchSession[] => []),
+      getCustomBadges(),
+      getXpLedger(profileId).catch((): XpEntry[] => []),
     ]);
     
     $watchHistory.set(history);
     $earnedBadges.set(badges);
+    $customBadges.set(customBadges);
+    $xpLedger.set(xpLedger);
+    $itemOpenCounts.set(sessions.reduce(
+      (counts, session) => counts.set(session.itemId, (counts.get(session.itemId) ?? 0) + 1),
+      new Map<string, number>()
+    ));
+    $sessionCompletionDays.set(sessions
+      .filter(session => session.completed)
+      .reduce(addSessionCompletion, new Map<string, Set<string>>()));
   } catch (error) {
     console.error('Failed to load progress:', error);
   } finally {
@@ -83,63 +197,117 @@ export async function loadProgress(profileId: string): Promise<void> {
 }
 
 /**
- * Update watch progress and check for badges if newly completed
+ * Add XP for a completion to the local ledger and celebrate a new level
+ * Returns the new entries, for the caller to queue
  */
-export async function saveWatchProgress(
+function addCompletionXp(profileId: string, record: WatchRecord, lane: LaneWithItems | undefined): XpEntry[] {
+  if (!lane) return [];
+
+  const ledger = $xpLedger.get();
+  const known = new Set(ledger.map(entry => entry.id));
+  const entries = buildCompletionXp({
+    profileId,
+    laneId: lane.id,
+    laneMode: lane.mode,
+    category: lane.category,
+    itemId: record.itemId,
+    itemTitle: lane.items.find(item => item.id === record.itemId)?.title ?? 'an item',
+    durationSeconds: record.duration,
+    streakDays: $streak.get().current,
+    dateKey: $todayKey.get(),
+    now: new Date(getServerNow()),
+  }).filter(entry => !known.has(entry.id));
+  if (entries.length === 0) return [];
+
+  const previousLevel = $xpLevel.get().level;
+  $xpLedger.set([...entries, ...ledger]);
+  if ($xpLevel.get().level > previousLevel) {
+    $levelUp.set($xpLevel.get().level);
+  }
+  return entries;
+}
+
+/**
+ * Update watch progress, then award XP and check for badges if newly completed
+ * Applied locally straight away, then queued for Firestore (see syncStore) so
+ * nothing is lost while the device is offline - the progress, XP and badge check
+ * are queued together, so closing the app can't drop the completion's rewards
+ */
+export function saveWatchProgress(
   profileId: string,
   laneId: string,
   itemId: string,
   currentPosition: number,
   duration: number,
-  lanes: LaneWithItems[]
-): Promise<EarnedBadge[]> {
-  try {
-    // Update progress in Firestore
-    const { record, newlyCompleted } = await updateWatchProgress(
-      profileId, 
-      laneId, 
-      itemId, 
-      currentPosition, 
-      duration
-    );
-    
-    // Update local state
-    const currentHistory = $watchHistory.get();
-    const existingIndex = currentHistory.findIndex(w => w.itemId === itemId);
-    
-    let updatedHistory: WatchRecord[];
-    if (existingIndex >= 0) {
-      // Update existing record
-      updatedHistory = [...currentHistory];
-      updatedHistory[existingIndex] = record;
-    } else {
-      // Add new record
-      updatedHistory = [...currentHistory, record];
-    }
-    $watchHistory.set(updatedHistory);
-    
-    // Check for badges only if video was NEWLY completed
-    if (newlyCompleted) {
-      console.log('Video newly completed! Checking badges...');
-      const newBadges = await checkAndAwardBadges(profileId, updatedHistory, lanes);
-      
-      if (newBadges.length > 0) {
-        // Update earned badges
-        $earnedBadges.set([...$earnedBadges.get(), ...newBadges]);
-        // Set new badges for notification
-        $newBadges.set(newBadges);
-      }
-      
-      return newBadges;
+  lanes: LaneWithItems[],
+  watchedIntervals: WatchedInterval[] = [],
+  completion?: CompletionRule
+): void {
+  const update: WatchProgressUpdate = {
+    profileId,
+    laneId,
+    itemId,
+    position: currentPosition,
+    duration,
+    intervals: watchedIntervals,
+    completion,
+    recordedAt: new Date(getServerNow()),
+  };
+
+  // Update local state
+  const currentHistory = $watchHistory.get();
+  const existing = currentHistory.find(w => w.itemId === itemId);
+  const { record, newlyCompleted } = applyWatchProgress(existing, update);
+  $watchHistory.set(existing
+    ? currentHistory.map(w => w.itemId === itemId ? record : w)
+    : [...currentHistory, record]);
+
+  const events: NewSyncEvent[] = [{ type: 'progress', update }];
+
+  // Award XP and check for badges only if video was NEWLY completed
+  if (newlyCompleted) {
+    const xpEntries = addCompletionXp(profileId, record, lanes.find(lane => lane.id === laneId));
+    if (xpEntries.length > 0) {
+      events.push({ type: 'xp', entries: xpEntries });
     }
-    
-    return [];
-  } catch (error) {
-    console.error('Failed to save watch progress:', error);
-    return [];
+
+    const badgeLanes: BadgeLane[] = lanes.map(lane => ({
+      id: lane.id,
+      title: lane.title,
+      category: lane.category,
+      items: lane.items.map(item => ({ id: item.id })),
+    }));
+    events.push({
+      type: 'badge_check',
+      profileId,
+      lanes: badgeLanes,
+      streakFreezes: $currentProfile.get()?.streakFreezes,
+    });
   }
+
+  enqueueSyncEvents(events);
 }
 
+/**
+ * Log one open/close of the viewer for the activity timeline (queued like progress)
+ */
+export function saveWatchSession(session: Omit<WatchSession, 'id'>): void {
+  const counts = new Map($itemOpenCounts.get());
+  $itemOpenCounts.set(counts.set(session.itemId, (counts.get(session.itemId) ?? 0) + 1));
+  if (session.completed) {
+    $sessionCompletionDays.set(addSessionCompletion(new Map($sessionCompletionDays.get()), session));
+  }
+
+  enqueueSyncEvents([{ type: 'session', session: { ...session, id: uuidv4() } }]);
+}
+
+// Badges from a queued check may arrive after the modal has closed (or after reconnecting)
+onBadgesAwarded((badges, profileId) => {
+  if ($currentProfile.get()?.id !== profileId) return;
+  $earnedBadges.set([...$earnedBadges.get(), ...badges]);
+  $newBadges.set(badges);
+});
+
 /**
  * Get watch progress for a specific item
  */
@@ -148,10 +316,11 @@ export function getItemProgress(itemId: string): WatchRecord | undefined {
 }
 
 /**
- * Clear new badges notification
+ * Clear new badges and level-up notification
  */
 export function clearNewBadges(): void {
   $newBadges.set([]);
+  $levelUp.set(null);
 }
 
 /**
@@ -161,4 +330,9 @@ export function clearProgress(): void {
   $watchHistory.set([]);
   $earnedBadges.set([]);
   $newBadges.set([]);
+  $xpLedger.set([]);
+  $levelUp.set(null);
+  $itemOpenCounts.set(new Map());
+  $sessionCompletionDays.set(new Map());
+  $lastVisitAt.set(null);
 }
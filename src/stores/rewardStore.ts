@@ -0,0 +1,60 @@
+/**
+ * Reward Store - The reward catalog, the current profile's requests and points to spend
+ */
+
+import { atom, computed } from 'nanostores';
+import type { Reward, RewardRedemption } from '../types';
+import { getRewards, getRedemptions, requestRedemption } from '../lib/firestore';
+import { getPointsBalance } from '../lib/rewards';
+import { $xpLedger, $earnedBadges } from './progressStore';
+import { getServerNow } from './clockStore';
+
+/**
+ * Rewards children can ask for (inactive ones are left out)
+ */
+export const $rewards = atom<Reward[]>([]);
+
+/**
+ * Current profile's reward requests, newest first
+ */
+export const $redemptions = atom<RewardRedemption[]>([]);
+
+/**
+ * Computed: Points earned, spent, held by pending requests and left to spend
+ */
+export const $pointsBalance = computed(
+  [$xpLedger, $earnedBadges, $redemptions],
+  (xpLedger, badges, redemptions) => getPointsBalance(xpLedger, badges, redemptions)
+);
+
+/**
+ * Load the catalog and a profile's requests
+ */
+export async function loadRewards(profileId: string): Promise<void> {
+  try {
+    const [rewards, redemptions] = await Promise.all([getRewards(), getRedemptions(profileId)]);
+    $rewards.set(rewards.filter(reward => reward.isActive));
+    $redemptions.set(redemptions);
+  } catch (error) {
+    console.error('Failed to load rewards:', error);
+  }
+}
+
+/**
+ * Ask a parent for a reward - throws when there aren't enough points
+ */
+export async function redeemReward(profileId: string, reward: Reward): Promise<void> {
+  if ($pointsBalance.get().available < reward.cost) {
+    throw new Error('Not enough points yet');
+  }
+  const redemption = await requestRedemption(profileId, reward, new Date(getServerNow()));
+  $redemptions.set([redemption, ...$redemptions.get()]);
+}
+
+/**
+ * Clear reward data (on profile switch)
+ */
+export function clearRewards(): void {
+  $rewards.set([]);
+  $redemptions.set([]);
+}
@@ -0,0 +1,138 @@
+/**
+ * Screen Time Store - Today's viewing time and what's left of the budget
+ * Viewing time is measured locally (server clock) and flushed to Firestore in batches
+ */
+
+import { atom, computed } from 'nanostores';
+import type { Profile, ScreenTimeDay } from '../types';
+import { subscribeToScreenTimeDay, addScreenTimeUsage } from '../lib/firestore';
+import { getDateKey, getRemainingSeconds, tickViewingClock, STOPPED_VIEWING_CLOCK } from '../lib/screenTime';
+import { $householdNow, getHouseholdNow, getServerNow } from './clockStore';
+
+// Write counted seconds to Firestore at most this often
+const FLUSH_INTERVAL_SECONDS = 30;
+
+/**
+ * Profile whose screen time is being tracked
+ */
+export const $screenTimeProfile = atom<Profile | null>(null);
+
+/**
+ * Today's usage as stored in Firestore
+ */
+export const $screenTimeToday = atom<ScreenTimeDay | null>(null);
+
+/**
+ * Seconds counted on this device that haven't been written yet
+ */
+export const $pendingSeconds = atom<number>(0);
+
+/**
+ * Computed: Seconds left today (null = no budget)
+ * "Today" is the household's day, so the weekday/weekend budget follows household time
+ */
+export const $remainingSeconds = computed(
+  [$screenTimeProfile, $screenTimeToday, $pendingSeconds, $householdNow],
+  (profile, day, pending, now) => {
+    if (!profile) return null;
+    return getRemainingSeconds(profile, {
+      secondsUsed: (day?.secondsUsed ?? 0) + pending,
+      bonusMinutes: day?.bonusMinutes ?? 0,
+    }, now);
+  }
+);
+
+/**
+ * Computed: Has today's budget run out?
+ */
+export const $isOutOfTime = computed($remainingSeconds, (remaining) => remaining !== null && remaining <= 0);
+
+let trackedDate: string | null = null;
+let unsubscribe: (() => void) | null = null;
+let viewingClock = STOPPED_VIEWING_CLOCK;
+
+function watchDay(profile: Profile, date: string): void {
+  unsubscribe?.();
+  trackedDate = date;
+  $screenTimeToday.set(null);
+  unsubscribe = subscribeToScreenTimeDay(profile.id, date, (day) => $screenTimeToday.set(day));
+}
+
+/**
+ * Start tracking screen time for a profile (children only)
+ */
+export function loadScreenTime(profile: Profile): void {
+  clearScreenTime();
+  if (profile.role !== 'child') return;
+
+  $screenTimeProfile.set(profile);
+  watchDay(profile, getDateKey(getHouseholdNow()));
+}
+
+/**
+ * Count the time since the last tick against today's budget - call about once a second while viewing
+ * Returns the whole seconds counted
+ */
+export function recordViewingTick(): number {
+  const profile = $screenTimeProfile.get();
+  if (!profile) return 0;
+
+  const tick = tickViewingClock(viewingClock, getServerNow());
+  viewingClock = tick.clock;
+  const { seconds } = tick;
+  if (seconds === 0) return 0;
+
+  // New day - save yesterday's seconds and start a fresh budget
+  const today = getDateKey(getHouseholdNow());
+  if (trackedDate && trackedDate !== today) {
+    flushScreenTime();
+    watchDay(profile, today);
+  }
+
+  $pendingSeconds.set($pendingSeconds.get() + seconds);
+  if ($pendingSeconds.get() >= FLUSH_INTERVAL_SECONDS) {
+    flushScreenTime();
+  }
+  return seconds;
+}
+
+/**
+ * Viewing stopped (paused, ended, hidden or closed) - the next tick starts afresh
+ * rather than counting the time in between
+ */
+export function stopViewingClock(): void {
+  viewingClock = STOPPED_VIEWING_CLOCK;
+}
+
+/**
+ * Write counted seconds to Firestore
+ */
+export async function flushScreenTime(): Promise<void> {
+  const profile = $screenTimeProfile.get();
+  const seconds = $pendingSeconds.get();
+  if (!profile || !trackedDate || seconds <= 0) return;
+
+  // Firestore applies the increment to the local snapshot straight away
+  $pendingSeconds.set(0);
+
+  try {
+    await addScreenTimeUsage(profile.id, trackedDate, seconds);
+  } catch (error) {
+    console.error('Failed to save screen time:', error);
+    $pendingSeconds.set($pendingSeconds.get() + seconds);
+  }
+}
+
+/**
+ * Stop tracking (on profile switch)
+ */
+export function clearScreenTime(): void {
+  flushScreenTime();
+  unsubscribe?.();
+  unsubscribe = null;
+  trackedDate = null;
+  viewingClock = STOPPED_VIEWING_CLOCK;
+  $screenTimeProfile.set(null);
+  $screenTimeToday.set(null);
+  $pendingSeconds.set(0);
+}
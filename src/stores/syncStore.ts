@@ -0,0 +1,250 @@
+/**
+ * Sync Store - Offline-tolerant queue for progress, session, badge and XP writes
+ * Events are kept in localStorage and written to Firestore in order once the
+ * connection is back. Replaying an event is safe - progress merges (keeping
+ * the furthest watched) and badges and XP are only awarded once
+ */
+
+import { atom, computed } from 'nanostores';
+import { v4 as uuidv4 } from 'uuid';
+import type { EarnedBadge, WatchSession, XpEntry } from '../types';
+import {
+  getActiveHouseholdId,
+  updateWatchProgress,
+  recordWatchSession,
+  getWatchHistory,
+  checkAndAwardBadges,
+  awardXp,
+} from '../lib/firestore';
+import type { BadgeLane } from '../lib/badgeRules';
+import type { WatchProgressUpdate } from '../lib/watchProgress';
+import { $household } from './householdStore';
+
+const QUEUE_STORAGE_KEY = 'learning-lanes-sync-queue';
+
+// Give up on a write after this long (Firestore waits forever when the connection drops mid-write)
+const WRITE_TIMEOUT_MS = 15 * 1000;
+
+// Retry a stuck queue this often
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Dates are kept as ISO strings in localStorage
+type StoredProgressUpdate = Omit<WatchProgressUpdate, 'recordedAt'> & { recordedAt: string };
+type StoredWatchSession = Omit<WatchSession, 'startedAt' | 'endedAt'> & { startedAt: string; endedAt: string };
+type StoredXpEntry = Omit<XpEntry, 'createdAt' | 'reversedAt'> & { createdAt: string };
+
+export type SyncEvent =
+  | { type: 'progress'; id: string; householdId: string; update: StoredProgressUpdate }
+  | { type: 'session'; id: string; householdId: string; session: StoredWatchSession }
+  | { type: 'badge_check'; id: string; householdId: string; profileId: string; lanes: BadgeLane[]; streakFreezes?: number }
+  | { type: 'xp'; id: string; householdId: string; entries: StoredXpEntry[] };
+
+export type NewSyncEvent =
+  | { type: 'progress'; update: WatchProgressUpdate }
+  | { type: 'session'; session: WatchSession }
+  | { type: 'badge_check'; profileId: string; lanes: BadgeLane[]; streakFreezes?: number }
+  | { type: 'xp'; entries: XpEntry[] };
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'offline';
+
+/**
+ * Events waiting to be written, oldest first
+ */
+export const $syncQueue = atom<SyncEvent[]>([]);
+
+/**
+ * True while the queue is being written
+ */
+export const $isSyncing = atom<boolean>(false);
+
+/**
+ * Browser connectivity (navigator.onLine)
+ */
+export const $isOnline = atom<boolean>(true);
+
+/**
+ * Last write error - cleared when a flush gets through
+ */
+export const $lastSyncError = atom<string | null>(null);
+
+/**
+ * Computed: Sync status for the header indicator
+ */
+export const $syncStatus = computed(
+  [$syncQueue, $isSyncing, $isOnline, $lastSyncError],
+  (queue, syncing, online, error): SyncStatus => {
+    if (queue.length === 0) return 'synced';
+    if (!online || error) return 'offline';
+    return syncing ? 'syncing' : 'pending';
+  }
+);
+
+type BadgeListener = (badges: EarnedBadge[], profileId: string) => void;
+
+const badgeListeners = new Set<BadgeListener>();
+let initialized = false;
+let flushing: Promise<void> | null = null;
+
+/**
+ * Be told when a queued badge check awards badges
+ */
+export function onBadgesAwarded(listener: BadgeListener): () => void {
+  badgeListeners.add(listener);
+  return () => badgeListeners.delete(listener);
+}
+
+function persistQueue(queue: SyncEvent[]): void {
+  $syncQueue.set(queue);
+  try {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Failed to persist sync queue:', error);
+  }
+}
+
+function loadQueue(): SyncEvent[] {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for Firestore')), WRITE_TIMEOUT_MS);
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (error) => { clearTimeout(timer); reject(error); }
+    );
+  });
+}
+
+async function processEvent(event: SyncEvent): Promise<void> {
+  if (event.type === 'progress') {
+    await updateWatchProgress({ ...event.update, recordedAt: new Date(event.update.recordedAt) });
+    return;
+  }
+  if (event.type === 'session') {
+    await recordWatchSession({
+      ...event.session,
+      startedAt: new Date(event.session.startedAt),
+      endedAt: new Date(event.session.endedAt),
+    });
+    return;
+  }
+  if (event.type === 'xp') {
+    await awardXp(event.entries.map(entry => ({ ...entry, createdAt: new Date(entry.createdAt) })));
+    return;
+  }
+
+  // A badge check is only queued after a completion, so an empty history means the read failed
+  const history = await getWatchHistory(event.profileId);
+  if (history.length === 0) {
+    throw new Error('Watch history unavailable');
+  }
+  const badges = await checkAndAwardBadges(event.profileId, history, event.lanes, {
+    timeZone: $household.get()?.settings?.timeZone,
+    streakFreezes: event.streakFreezes,
+  });
+  if (badges.length > 0) {
+    badgeListeners.forEach(listener => listener(badges, event.profileId));
+  }
+}
+
+async function runFlush(): Promise<void> {
+  const householdId = getActiveHouseholdId();
+  if (!householdId) return;
+
+  $isSyncing.set(true);
+  try {
+    // In order - stop at the first failure so later events never overtake it
+    for (const event of $syncQueue.get().filter(e => e.householdId === householdId)) {
+      await withTimeout(processEvent(event));
+      persistQueue($syncQueue.get().filter(e => e.id !== event.id));
+    }
+    $lastSyncError.set(null);
+  } catch (error) {
+    console.error('Sync failed, will retry:', error);
+    $lastSyncError.set(error instanceof Error ? error.message : 'Sync failed');
+  } finally {
+    $isSyncing.set(false);
+  }
+}
+
+/**
+ * Write queued events for the active household
+ */
+export function flushSyncQueue(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+function toStoredEvent(event: NewSyncEvent, householdId: string): SyncEvent {
+  const id = uuidv4();
+  switch (event.type) {
+    case 'progress':
+      return { ...event, id, householdId, update: { ...event.update, recordedAt: event.update.recordedAt.toISOString() } };
+    case 'session':
+      return {
+        ...event,
+        id,
+        householdId,
+        session: { ...event.session, startedAt: event.session.startedAt.toISOString(), endedAt: event.session.endedAt.toISOString() },
+      };
+    case 'xp':
+      return {
+        ...event,
+        id,
+        householdId,
+        entries: event.entries.map(({ reversedAt, ...entry }) => ({ ...entry, createdAt: entry.createdAt.toISOString() })),
+      };
+    default:
+      return { ...event, id, householdId };
+  }
+}
+
+/**
+ * Queue events together and write them in the background
+ * Returns as soon as they're saved on the device, so a slow connection never holds up the caller
+ */
+export function enqueueSyncEvents(events: NewSyncEvent[]): void {
+  const householdId = getActiveHouseholdId();
+  if (!householdId || events.length === 0) return;
+
+  persistQueue([...$syncQueue.get(), ...events.map(event => toStoredEvent(event, householdId))]);
+
+  // A flush already under way may have passed these events - go again after it
+  (flushing ?? Promise.resolve()).then(() => flushSyncQueue());
+}
+
+/**
+ * Initialize the queue - call this on app mount
+ * Restores events left from an earlier visit and retries when back online
+ */
+export function initializeSyncQueue(): void {
+  if (initialized || typeof window === 'undefined') return;
+  initialized = true;
+
+  $syncQueue.set(loadQueue());
+  $isOnline.set(navigator.onLine);
+
+  window.addEventListener('online', () => {
+    $isOnline.set(true);
+    flushSyncQueue();
+  });
+  window.addEventListener('offline', () => $isOnline.set(false));
+  window.setInterval(() => {
+    if ($syncQueue.get().length > 0) flushSyncQueue();
+  }, RETRY_INTERVAL_MS);
+
+  // Events are scoped to a household - write them once it's known
+  $household.subscribe((household) => {
+    if (household) flushSyncQueue();
+  });
+}
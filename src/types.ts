@@ -3,8 +3,8 @@
  * Defines the core data models for the walled garden learning application
  */
 
-// Profile roles
-export type ProfileRole = 'admin' | 'child';
+// Profile roles - admin, co-parent and caregiver are guardians (see lib/permissions.ts)
+export type ProfileRole = 'admin' | 'coparent' | 'caregiver' | 'child';
 
 // Age levels for content filtering
 export type AgeLevel = 
@@ -27,9 +27,69 @@ export type LaneCategory =
   | 'Reading'
   | 'Other';
 
+export const LANE_CATEGORIES: LaneCategory[] = [
+  'School', 'Music', 'Fun', 'Creativity',
+  'Learning', 'Entertainment', 'Science', 'Math', 'Reading', 'Other'
+];
+
+// Lane display modes - a shelf is an unordered row, a path unlocks items one step at a time
+export type LaneMode = 'shelf' | 'path';
+
+// Dashboard lanes built from progress rather than by a parent (see lib/smartLanes.ts)
+export type SmartLaneType = 'continue_watching' | 'new_for_you' | 'watch_again';
+
 // Content item types
 export type ContentType = 'youtube_video' | 'web_link' | 'static_image';
 
+/**
+ * Household - A family that owns profiles, lanes, watch history and badges
+ * Parents sign in with Firebase Auth and are listed in memberUids
+ */
+export interface Household {
+  id: string;
+  name: string;
+  ownerUid: string;     // Firebase Auth uid of the parent who created it
+  memberUids: string[]; // All parent accounts allowed to manage this household
+  createdAt: Date;
+  settings?: HouseholdSettings; // Changed through /api/household-settings
+}
+
+/**
+ * Auto-lock - when a device drops back to the profile switcher
+ */
+export interface LockSettings {
+  idleMinutes: Record<ProfileRole, number | null>; // null = never lock this role
+  lockOnWake: boolean; // Return to the switcher when the tablet wakes up
+}
+
+/**
+ * Quiet hours - household-wide bedtime when no content can be opened
+ */
+export interface QuietHours {
+  enabled: boolean;
+  windows: TimeWindow[];
+}
+
+/**
+ * Household-wide settings managed by guardians
+ */
+export interface HouseholdSettings {
+  lock?: LockSettings;
+  timeZone?: string;        // IANA zone used for schedules, bedtimes and daily budgets
+  quietHours?: QuietHours;
+  pausedAt?: string | null; // Set (server time) while "pause everything" is on
+}
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  idleMinutes: {
+    admin: 10,
+    coparent: 10,
+    caregiver: 10,
+    child: null,
+  },
+  lockOnWake: false,
+};
+
 /**
  * Profile - Represents a family member user
  */
@@ -37,9 +97,21 @@ export interface Profile {
   id: string;
   displayName: string;
   avatarUrl: string;
-  role: ProfileRole;
-  pin: string | null; // Required for admin access, null for children
+  role: ProfileRole; // Guardian PINs are hashed server-side (see /api/verify-pin)
   ageLevel: AgeLevel; // Age-appropriate content filtering
+  birthdate?: string; // YYYY-MM-DD - when set, ageLevel follows it automatically
+  previousAgeLevel?: AgeLevel; // Set when ageLevel moved up, until a parent reviews the old lanes
+  screenTime?: ScreenTimeBudget; // Children only - no budget means unlimited
+  smartLanes?: Partial<Record<SmartLaneType, boolean>>; // Missing = shown
+  streakFreezes?: number; // Children only - missed days a month their streak survives (default none)
+}
+
+/**
+ * Daily screen-time budget in minutes (null = unlimited that day)
+ */
+export interface ScreenTimeBudget {
+  weekdayMinutes: number | null;
+  weekendMinutes: number | null;
 }
 
 /**
@@ -52,6 +124,39 @@ export interface Lane {
   category: LaneCategory;
   isActive: boolean;
   sortOrder: number;
+  mode?: LaneMode; // Defaults to 'shelf'
+  completionThreshold?: number; // Percent watched that counts as done (default 90, see lib/completion.ts)
+  ageLevel?: AgeLevel; // Level the lane was curated for
+  schedule?: LaneSchedule; // No schedule = available whenever the lane is active
+  unlockRule?: UnlockRule; // Earn-your-fun - stays locked until another lane's items are done
+}
+
+/**
+ * A lane unlocks once enough items in another lane are completed
+ * 'today' counts items completed today (household time), so the lane re-locks each morning
+ */
+export interface UnlockRule {
+  requiredLaneId: string;
+  requiredCount: number;
+  period: 'today' | 'ever';
+}
+
+/**
+ * A weekly time window, e.g. weekdays 08:00-15:00
+ * An end before the start runs past midnight
+ */
+export interface TimeWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string;  // HH:MM
+  end: string;    // HH:MM
+}
+
+/**
+ * When a lane is available, and how it looks outside those times
+ */
+export interface LaneSchedule {
+  windows: TimeWindow[];
+  whenClosed: 'hide' | 'grey';
 }
 
 /**
@@ -95,6 +200,9 @@ export interface LaneItem {
   thumbnailUrl: string;
   type: ContentType;
   data: ContentData;
+  position?: number; // Order within the lane (items without one sort last)
+  completionThreshold?: number; // Overrides the lane's threshold for this item
+  addedAt?: string; // ISO - when it was added (drives "New for you")
 }
 
 /**
@@ -139,16 +247,45 @@ export interface WatchRecord {
   laneId: string;
   itemId: string;
   // Progress tracking
-  lastPosition: number;    // Current position in seconds
+  lastPosition: number;    // Current position in seconds (where to resume)
   duration: number;        // Total duration in seconds
-  progressPercent: number; // 0-100 percentage watched
-  completed: boolean;      // True if >= 90% watched
+  progressPercent: number; // 0-100 percentage of the (trimmed) clip actually watched
+  completed: boolean;      // True once the completion threshold has been watched
+  watchedIntervals?: WatchedInterval[]; // Merged across sessions (kept for reports)
+  watchedSeconds?: number; // Unique seconds covered by watchedIntervals
   // Timestamps
   startedAt: Date;         // When they first started watching
   updatedAt: Date;         // Last progress update
   completedAt?: Date;      // When they completed it (if completed)
 }
 
+/**
+ * A stretch of a video that was actually played, in seconds
+ */
+export interface WatchedInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Watch Session - One open/close of the viewer, kept for the activity timeline
+ * Unlike WatchRecord (one per item) a new session is logged every time
+ */
+export interface WatchSession {
+  id: string;
+  profileId: string;
+  laneId: string;
+  laneTitle: string;
+  itemId: string;
+  itemTitle: string;
+  itemType: ContentType;
+  date: string;           // YYYY-MM-DD in the household time zone (when it started)
+  startedAt: Date;
+  endedAt: Date;
+  secondsWatched: number; // Time actually spent playing/viewing
+  completed?: boolean;    // Played enough of the item in this session alone to count as finishing it
+}
+
 /**
  * Lane with items and watch status
  */
@@ -164,15 +301,35 @@ export interface LaneWithProgress extends LaneWithItems {
 // ============ BADGES ============
 
 /**
- * Badge types
+ * Built-in badge types
  */
-export type BadgeType = 
+export type BuiltInBadgeType =
   | 'first_watch'      // Watch your first video
   | 'lane_master'      // Complete all items in a lane
-  | 'explorer'         // Watch from all 4 categories
+  | 'explorer'         // Watch from every category in your lanes
   | 'five_videos'      // Watch 5 videos
   | 'ten_videos'       // Watch 10 videos
-  | 'twenty_five_videos'; // Watch 25 videos
+  | 'twenty_five_videos' // Watch 25 videos
+  | 'streak_3'         // Complete something 3 days in a row
+  | 'streak_7'         // ... 7 days in a row
+  | 'streak_30';       // ... 30 days in a row
+
+/**
+ * Badge types - built-in, or custom-... for badges a parent created
+ */
+export type BadgeType = BuiltInBadgeType | `custom-${string}`;
+
+/**
+ * Something a badge needs - a badge is earned once all of its conditions hold
+ * (see lib/badgeRules.ts)
+ */
+export type BadgeCondition =
+  | { type: 'completed_count'; count: number }                        // Completed this many items
+  | { type: 'lane_complete'; laneId?: string }                         // Finished every item in a lane (any lane when unset)
+  | { type: 'category_count'; category: LaneCategory; count: number }  // Completed this many in one category
+  | { type: 'categories_explored'; count?: number }                    // Completed something in this many categories (unset = all of theirs)
+  | { type: 'streak'; days: number }                                   // Completed something this many days in a row
+  | { type: 'time_window'; window: TimeWindow; count: number };        // Completed this many inside a weekly window
 
 /**
  * Badge definition
@@ -182,6 +339,8 @@ export interface BadgeDefinition {
   name: string;
   description: string;
   icon: string; // Emoji or icon name
+  imageUrl?: string; // Custom artwork, shown instead of the icon
+  conditions: BadgeCondition[];
 }
 
 /**
@@ -196,7 +355,7 @@ export interface EarnedBadge {
 }
 
 /**
- * Badge definitions - all available badges
+ * Built-in badge definitions - parents can add their own (stored per household)
  */
 export const BADGE_DEFINITIONS: BadgeDefinition[] = [
   {
@@ -204,35 +363,133 @@ export const BADGE_DEFINITIONS: BadgeDefinition[] = [
     name: 'First Steps',
     description: 'Watched your first video',
     icon: '🌟',
+    conditions: [{ type: 'completed_count', count: 1 }],
   },
   {
     type: 'five_videos',
     name: 'Getting Started',
     description: 'Watched 5 videos',
     icon: '📚',
+    conditions: [{ type: 'completed_count', count: 5 }],
   },
   {
     type: 'ten_videos',
     name: 'Dedicated Learner',
     description: 'Watched 10 videos',
     icon: '🎯',
+    conditions: [{ type: 'completed_count', count: 10 }],
   },
   {
     type: 'twenty_five_videos',
     name: 'Knowledge Seeker',
     description: 'Watched 25 videos',
     icon: '🏆',
+    conditions: [{ type: 'completed_count', count: 25 }],
   },
   {
     type: 'lane_master',
     name: 'Lane Master',
     description: 'Completed all items in a lane',
     icon: '⭐',
+    conditions: [{ type: 'lane_complete' }],
   },
   {
     type: 'explorer',
     name: 'Explorer',
-    description: 'Watched content from all categories',
+    description: 'Watched content from every category in your lanes',
     icon: '🧭',
+    conditions: [{ type: 'categories_explored' }],
+  },
+  {
+    type: 'streak_3',
+    name: 'On a Roll',
+    description: 'Learned something 3 days in a row',
+    icon: '🔥',
+    conditions: [{ type: 'streak', days: 3 }],
+  },
+  {
+    type: 'streak_7',
+    name: 'Week Warrior',
+    description: 'Learned something 7 days in a row',
+    icon: '📅',
+    conditions: [{ type: 'streak', days: 7 }],
+  },
+  {
+    type: 'streak_30',
+    name: 'Habit Hero',
+    description: 'Learned something 30 days in a row',
+    icon: '🦸',
+    conditions: [{ type: 'streak', days: 30 }],
   },
 ];
+
+// ============ XP ============
+
+export type XpReason =
+  | 'completion' // Completed an item
+  | 'path_step'  // Bonus for a step on a learning path
+  | 'streak';    // Bonus for the first completion of a streak day
+
+/**
+ * One award in a profile's XP ledger (see lib/xp.ts)
+ * Parents reverse an award rather than delete it, so the ledger stays auditable
+ */
+export interface XpEntry {
+  id: string;          // Fixed by what earned it, e.g. `${profileId}_completion_${itemId}`
+  profileId: string;
+  amount: number;
+  reason: XpReason;
+  laneId?: string;
+  itemId?: string;
+  description: string; // e.g. "Completed Dinosaurs 101"
+  createdAt: Date;
+  reversedAt?: Date;   // Set while a parent has taken the points back
+}
+
+// ============ REWARDS ============
+
+/**
+ * Something a child can ask for with their points, e.g. "Pick dinner"
+ */
+export interface Reward {
+  id: string;
+  name: string;
+  icon: string;                // Emoji
+  cost: number;                // Points
+  description?: string;
+  screenTimeMinutes?: number;  // Granted for the day automatically when approved
+  isActive: boolean;           // Hidden from children when false
+}
+
+export type RedemptionStatus = 'pending' | 'approved' | 'declined';
+
+/**
+ * A child's request for a reward - the reward is copied so later edits don't change it
+ * Pending and approved requests use up points; declined ones give them back
+ */
+export interface RewardRedemption {
+  id: string;
+  profileId: string;
+  rewardId: string;
+  rewardName: string;
+  rewardIcon: string;
+  cost: number;
+  screenTimeMinutes?: number;
+  status: RedemptionStatus;
+  requestedAt: Date;
+  decidedAt?: Date;
+}
+
+// ============ SCREEN TIME ============
+
+/**
+ * Screen time used on one day - id is `${profileId}_${date}`
+ */
+export interface ScreenTimeDay {
+  id: string;
+  profileId: string;
+  date: string;         // YYYY-MM-DD
+  secondsUsed: number;  // Actual viewing time
+  bonusMinutes: number; // Extra time granted by a parent for this day
+  updatedAt: Date;
+}